@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+// Runs the TypeScript sources directly, the same way the signaling server is started
+require('tsx/cjs');
+require('../src/anrox.ts');
@@ -0,0 +1,300 @@
+import { homedir } from 'os';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { parseArgs } from 'util';
+import { RTCPeerConnection } from '@roamhq/wrtc';
+import ConnectionManager, { clientConfig, configureLogging, formatRecord, MemoryStorage, MessageStatus } from '../../sdk';
+import { FileStorage, generateKeypair, loadKeypair, nodeTransports, NodeWallet, PeerConnectionConstructor } from '../../sdk/node';
+
+const USAGE = `Usage:
+  anrox connect <pubkey>          Chat with a peer: lines from stdin are sent, replies are printed
+  anrox send <pubkey> <message>   Send one message and exit once the peer has received it
+  anrox listen                    Print messages from everyone who opens a conversation
+  anrox keygen                    Write a new keypair file
+
+Options:
+  --keypair <file>   Solana keypair file (default ~/.config/solana/id.json)
+  --server <url>     Signaling server (default NEXT_PUBLIC_SIGNALING_URL or ws://localhost:8080)
+  --state <file>     Keep the identity key and contacts in this file between runs
+  --timeout <secs>   How long send waits for delivery (default 60)
+  --json             Print messages as JSON lines
+  --verbose          Show the client's debug log on stderr
+`;
+
+const DEFAULT_KEYPAIR_PATH = join(homedir(), '.config', 'solana', 'id.json');
+const DEFAULT_SEND_TIMEOUT_SECONDS = 60;
+
+interface Options {
+  keypair: string;
+  server: string;
+  state?: string;
+  timeout: number;
+  json: boolean;
+  verbose: boolean;
+}
+
+interface ReceivedMessage {
+  peer: string;
+  sender: string;
+  id: string;
+  text: string;
+  timestamp: number;
+}
+
+function print(line: string) {
+  process.stdout.write(`${line}\n`);
+}
+
+function fail(message: string): never {
+  process.stderr.write(`anrox: ${message}\n`);
+  process.exit(1);
+}
+
+// Socket errors that mean the server is down, unknown or out of reach
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'ETIMEDOUT', 'EHOSTUNREACH', 'ENETUNREACH'];
+
+// A failed WebSocket rejects with its error event, which carries the socket error as `error`
+function underlyingError(error: unknown): unknown {
+  return error instanceof Error || typeof error !== 'object' || error === null || !('error' in error) ? error : error.error;
+}
+
+function isConnectionError(error: unknown): boolean {
+  const cause = underlyingError(error);
+  return cause instanceof Error && CONNECTION_ERROR_CODES.includes((cause as NodeJS.ErrnoException).code ?? '');
+}
+
+function describeError(error: unknown): string {
+  const cause = underlyingError(error);
+  return cause instanceof Error ? cause.message : String(cause);
+}
+
+function printMessage(message: ReceivedMessage, options: Options) {
+  if (options.json) {
+    print(JSON.stringify(message));
+  } else {
+    print(`[${new Date(message.timestamp).toISOString()}] ${message.sender}: ${message.text}`);
+  }
+}
+
+// Notices go to stderr so stdout only carries messages
+function notice(line: string, options: Options) {
+  if (!options.json) {
+    process.stderr.write(`# ${line}\n`);
+  }
+}
+
+function createManager(wallet: NodeWallet, options: Options): ConnectionManager {
+  const storage = options.state ? new FileStorage(options.state) : new MemoryStorage();
+  const transports = nodeTransports(RTCPeerConnection as unknown as PeerConnectionConstructor, storage);
+  const manager = new ConnectionManager(
+    wallet.publicKey,
+    wallet.signMessage,
+    undefined,
+    { ...clientConfig, signalingUrl: options.server, logLevel: options.verbose ? 'debug' : 'silent' },
+    transports
+  );
+  manager.on('error', (message: string) => process.stderr.write(`anrox: ${message}\n`));
+  manager.on('peerError', ({ peer, message }: { peer: string; message: string }) => {
+    process.stderr.write(`anrox: ${peer}: ${message}\n`);
+  });
+  manager.on('identityVerificationFailed', ({ peer, reason }: { peer: string; reason: string }) => {
+    process.stderr.write(`anrox: identity verification failed for ${peer}: ${reason}\n`);
+  });
+  manager.on('encryptionReady', ({ peer }: { peer: string }) => {
+    notice(`Secure session with ${peer}, safety number ${manager.getSafetyNumber(peer)?.digits}`, options);
+  });
+  manager.on('serverDisconnected', () => notice('Disconnected from the signaling server', options));
+  manager.on('reconnected', () => notice('Reconnected to the signaling server', options));
+  return manager;
+}
+
+function shutdown(manager: ConnectionManager, code: number): never {
+  manager.cleanup();
+  process.exit(code);
+}
+
+async function connect(manager: ConnectionManager, peer: string, options: Options) {
+  // Lines read before stdin closes are sent before exiting
+  const unsent = new Set<string>();
+  let inputClosed = false;
+  const exitWhenDone = () => {
+    if (inputClosed && unsent.size === 0) {
+      shutdown(manager, 0);
+    }
+  };
+
+  manager.on('message', (message: ReceivedMessage) => {
+    if (message.peer === peer) {
+      printMessage(message, options);
+      manager.markRead(peer);
+    }
+  });
+  manager.on('messageStatus', ({ id, status, reason }: { id: string; status: MessageStatus; reason?: string }) => {
+    if (status === 'failed') {
+      process.stderr.write(`anrox: message ${id} failed${reason ? ` (${reason})` : ''}\n`);
+    }
+    if (status !== 'queued' && status !== 'sending') {
+      unsent.delete(id);
+      exitWhenDone();
+    }
+  });
+  manager.on('conversationClosed', ({ peer: closed }: { peer: string }) => {
+    if (closed === peer) {
+      notice(`${peer} closed the conversation`, options);
+      shutdown(manager, 0);
+    }
+  });
+
+  await manager.init();
+  manager.openConversation(peer);
+
+  const input = createInterface({ input: process.stdin });
+  input.on('line', async line => {
+    if (!line.trim()) {
+      return;
+    }
+    const sent = await manager.sendChatMessage(line, peer);
+    if (sent) {
+      unsent.add(sent.id);
+    }
+  });
+  input.on('close', () => {
+    inputClosed = true;
+    exitWhenDone();
+  });
+}
+
+async function send(manager: ConnectionManager, peer: string, text: string, options: Options) {
+  const timer = setTimeout(() => {
+    process.stderr.write(`anrox: no delivery receipt within ${options.timeout}s\n`);
+    shutdown(manager, 1);
+  }, options.timeout * 1000);
+
+  let id: string | null = null;
+  manager.on('messageStatus', ({ id: updated, status, reason }: { id: string; status: MessageStatus; reason?: string }) => {
+    if (updated !== id) {
+      return;
+    }
+    if (status === 'delivered' || status === 'read') {
+      clearTimeout(timer);
+      notice(`Delivered ${id}`, options);
+      shutdown(manager, 0);
+    } else if (status === 'failed') {
+      clearTimeout(timer);
+      fail(`message failed${reason ? ` (${reason})` : ''}`);
+    }
+  });
+
+  await manager.init();
+  const sent = await manager.sendChatMessage(text, peer);
+  if (!sent) {
+    shutdown(manager, 1);
+  }
+  id = sent.id;
+}
+
+async function listen(manager: ConnectionManager, wallet: NodeWallet, options: Options) {
+  manager.on('conversationOpened', ({ peer }: { peer: string }) => notice(`${peer} opened a conversation`, options));
+  manager.on('conversationClosed', ({ peer }: { peer: string }) => notice(`${peer} closed the conversation`, options));
+  manager.on('message', (message: ReceivedMessage) => {
+    printMessage(message, options);
+    manager.markRead(message.peer);
+  });
+  await manager.init();
+  notice(`Listening as ${wallet.publicKey}`, options);
+}
+
+function parseOptions(): { command: string; args: string[]; options: Options } {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      keypair: { type: 'string' },
+      server: { type: 'string' },
+      state: { type: 'string' },
+      timeout: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      verbose: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    throw new Error('');
+  }
+  const timeout = values.timeout === undefined ? DEFAULT_SEND_TIMEOUT_SECONDS : Number(values.timeout);
+  if (!Number.isFinite(timeout) || timeout <= 0) {
+    throw new Error('--timeout must be a positive number of seconds');
+  }
+  return {
+    command,
+    args,
+    options: {
+      keypair: values.keypair ?? DEFAULT_KEYPAIR_PATH,
+      server: values.server ?? clientConfig.signalingUrl,
+      state: values.state,
+      timeout,
+      json: values.json ?? false,
+      verbose: values.verbose ?? false
+    }
+  };
+}
+
+async function main() {
+  let parsed: ReturnType<typeof parseOptions>;
+  try {
+    parsed = parseOptions();
+  } catch (error) {
+    process.stderr.write(error instanceof Error && error.message ? `anrox: ${error.message}\n\n${USAGE}` : USAGE);
+    process.exit(2);
+  }
+  const { command, args, options } = parsed;
+
+  if (command === 'keygen') {
+    try {
+      print(generateKeypair(options.keypair).publicKey);
+    } catch (error) {
+      fail(`cannot write ${options.keypair}: ${error instanceof Error ? error.message : error}`);
+    }
+    return;
+  }
+
+  const expectedArgs: Record<string, number> = { connect: 1, send: 2, listen: 0 };
+  if (!(command in expectedArgs) || args.length !== expectedArgs[command]) {
+    process.stderr.write(USAGE);
+    process.exit(2);
+  }
+
+  let wallet: NodeWallet;
+  try {
+    wallet = loadKeypair(options.keypair);
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error));
+  }
+
+  // Errors reach the user through the manager's events; the log is only for --verbose, and
+  // stays off stdout either way
+  configureLogging({ sink: record => process.stderr.write(`${formatRecord(record)}\n`) });
+
+  const manager = createManager(wallet, options);
+  process.on('SIGINT', () => shutdown(manager, 0));
+  process.on('SIGTERM', () => shutdown(manager, 0));
+
+  try {
+    switch (command) {
+      case 'connect':
+        await connect(manager, args[0], options);
+        break;
+      case 'send':
+        await send(manager, args[0], args[1], options);
+        break;
+      case 'listen':
+        await listen(manager, wallet, options);
+        break;
+    }
+  } catch (error) {
+    manager.cleanup();
+    fail(isConnectionError(error) ? `cannot reach the signaling server at ${options.server}` : describeError(error));
+  }
+}
+
+main();
@@ -0,0 +1,58 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RTCPeerConnection } from '@roamhq/wrtc';
+import ConnectionManager, { clientConfig } from '../../sdk';
+import { generateKeypair, nodeTransports, NodeWallet, PeerConnectionConstructor } from '../../sdk/node';
+import { startTestServer, TestServer } from '../../signaling-server/src/testing';
+
+// Lives with the CLI because the CLI is what brings WebRTC to Node. The test script forces the
+// runner to exit, since wrtc can crash a process that winds down on its own.
+
+let server: TestServer;
+let directory: string;
+const managers: ConnectionManager[] = [];
+
+before(async () => {
+  server = await startTestServer();
+  directory = mkdtempSync(join(tmpdir(), 'anrox-'));
+});
+
+after(async () => {
+  managers.forEach(manager => manager.cleanup());
+  await server.stop();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+async function connectClient(name: string): Promise<{ manager: ConnectionManager; wallet: NodeWallet }> {
+  const wallet = generateKeypair(join(directory, `${name}.json`));
+  const manager = new ConnectionManager(
+    wallet.publicKey,
+    wallet.signMessage,
+    undefined,
+    { ...clientConfig, signalingUrl: server.url, iceServers: [], logLevel: 'silent' },
+    nodeTransports(RTCPeerConnection as unknown as PeerConnectionConstructor)
+  );
+  managers.push(manager);
+  const registered = new Promise(resolve => manager.once('serverConnected', resolve));
+  await manager.init();
+  await registered;
+  return { manager, wallet };
+}
+
+test('a message from one SDK client reaches another through the signaling server', { timeout: 30 * 1000 }, async () => {
+  const alice = await connectClient('alice');
+  const bob = await connectClient('bob');
+
+  const secure = new Promise(resolve => alice.manager.once('encryptionReady', resolve));
+  const received = new Promise<{ sender: string; text: string }>(resolve => bob.manager.once('message', resolve));
+  alice.manager.openConversation(bob.wallet.publicKey);
+  await secure;
+  await alice.manager.sendChatMessage('hello bob', bob.wallet.publicKey);
+
+  const message = await received;
+  assert.equal(message.text, 'hello bob');
+  assert.equal(message.sender, alice.wallet.publicKey);
+});
@@ -0,0 +1,81 @@
+import { FC, useEffect, useRef } from 'react';
+import { useEncryptedChat } from './ChatProvider';
+
+// Our own previews are muted so the microphone does not echo
+const StreamVideo: FC<{ stream: MediaStream; muted: boolean; width: number }> = ({ stream, muted, width }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+  return <video ref={videoRef} autoPlay playsInline muted={muted} width={width} style={{ background: '#000' }} />;
+};
+
+interface CallButtonsProps {
+  peer: string;
+}
+
+// Calls ride on the conversation's connection, so one can only start once it is secure
+export const CallButtons: FC<CallButtonsProps> = ({ peer }) => {
+  const { manager, conversations, call } = useEncryptedChat();
+  const disabled = conversations[peer]?.state !== 'secure' || call !== null;
+  return (
+    <>
+      <button onClick={() => manager?.startCall(peer, false)} disabled={disabled}>
+        Voice Call
+      </button>
+      <button onClick={() => manager?.startCall(peer, true)} disabled={disabled}>
+        Video Call
+      </button>
+    </>
+  );
+};
+
+// The current call, if any: ringing, its controls and its video
+export const CallPanel: FC = () => {
+  const { manager, call, callStreams, displayName } = useEncryptedChat();
+  if (!call) {
+    return null;
+  }
+
+  return (
+    <div style={{ border: '1px solid #ccc', padding: '10px', marginBottom: '10px' }}>
+      {call.state === 'incoming' && (
+        <>
+          Incoming {call.video ? 'video' : 'voice'} call from {displayName(call.peer)}{' '}
+          <button onClick={() => manager?.acceptCall()}>Accept</button>
+          <button onClick={() => manager?.declineCall()}>Decline</button>
+        </>
+      )}
+      {call.state === 'outgoing' && (
+        <>
+          Calling {displayName(call.peer)}...{' '}
+          <button onClick={() => manager?.hangUp()}>Hang Up</button>
+        </>
+      )}
+      {call.state === 'active' && (
+        <>
+          In a call with {displayName(call.peer)}{' '}
+          <button onClick={() => manager?.setCallMuted(!call.muted)}>
+            {call.muted ? 'Unmute' : 'Mute'}
+          </button>
+          <button onClick={() => manager?.setCameraEnabled(!call.cameraOn)}>
+            {call.cameraOn ? 'Camera Off' : 'Camera On'}
+          </button>
+          <button onClick={() => (call.screenSharing ? manager?.stopScreenShare() : manager?.startScreenShare())}>
+            {call.screenSharing ? 'Stop Sharing' : 'Share Screen'}
+          </button>
+          <button onClick={() => manager?.hangUp()}>Hang Up</button>
+        </>
+      )}
+      <div style={{ display: 'flex', gap: '10px', marginTop: '10px', flexWrap: 'wrap' }}>
+        {callStreams.remote.map(stream => (
+          <StreamVideo key={stream.id} stream={stream} muted={false} width={480} />
+        ))}
+        {callStreams.local && call.cameraOn && <StreamVideo stream={callStreams.local} muted width={160} />}
+        {callStreams.screen && <StreamVideo stream={callStreams.screen} muted width={160} />}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,707 @@
+import { createContext, FC, ReactNode, useContext, useEffect, useRef, useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import ConnectionManager, {
+  CallSummary,
+  ConnectionState,
+  Contact,
+  FileDescription,
+  HistoryCursor,
+  HistoryMessage,
+  MessageStatus,
+  RoomManifest,
+  RoomSummary,
+  roomConversationId
+} from '../utils/ConnectionManager';
+
+export interface Attachment {
+  transferId: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  bytesTransferred: number;
+  status: 'transferring' | 'done' | 'cancelled';
+  // Object URL for a received or sent file, used for download and image previews
+  url?: string;
+}
+
+export interface Message {
+  // The chat message id, the file transfer id for an attachment, or a local id for a notice
+  id: string;
+  text: string;
+  sender: string;
+  attachment?: Attachment;
+  // Only tracked for our own one-to-one chat messages
+  status?: MessageStatus;
+  // Why a failed message failed, e.g. 'expired'
+  statusReason?: string;
+}
+
+export interface Conversation {
+  peer: string;
+  messages: Message[];
+  state: ConnectionState;
+  unread: number;
+  peerTyping: boolean;
+}
+
+export interface Room {
+  roomId: string;
+  creator: string;
+  members: string[];
+  connected: string[];
+  messages: Message[];
+}
+
+// The media of the current call
+export interface CallStreams {
+  local: MediaStream | null;
+  screen: MediaStream | null;
+  remote: MediaStream[];
+}
+
+// How far back a conversation's history has been loaded
+export interface HistoryState {
+  loaded: boolean;
+  cursor: HistoryCursor | null;
+}
+
+// Everything useEncryptedChat returns. Actions that only forward to the manager are left to
+// `manager` itself; the ones here also keep the state above in step.
+export interface EncryptedChat {
+  // Null until a wallet that can sign messages is connected
+  manager: ConnectionManager | null;
+  publicKey: string | null;
+  serverStatus: string;
+  error: string | null;
+  logs: string[];
+  conversations: Record<string, Conversation>;
+  activePeer: string | null;
+  contacts: Record<string, Contact>;
+  rooms: Record<string, Room>;
+  roomInvites: RoomManifest[];
+  activeRoomId: string | null;
+  historyUnlocked: boolean;
+  // Keyed by conversation id: a peer's address or roomConversationId(roomId)
+  histories: Record<string, HistoryState>;
+  call: CallSummary | null;
+  callStreams: CallStreams;
+  dismissError(): void;
+  displayName(peer: string): string;
+  // Opens the conversation if needed and makes it the active one
+  openConversation(peer: string): void;
+  selectConversation(peer: string): void;
+  closeConversation(peer: string): void;
+  sendMessage(peer: string, text: string): Promise<boolean>;
+  sendFile(peer: string, file: File): Promise<boolean>;
+  loadHistory(conversationId: string): Promise<void>;
+  exportHistory(conversationId: string): Promise<void>;
+  importHistory(file: File): Promise<void>;
+  addContact(publicKey: string, nickname: string): boolean;
+  selectRoom(roomId: string | null): void;
+  createRoom(members: string[]): Promise<boolean>;
+  acceptRoomInvite(roomId: string): void;
+  declineRoomInvite(roomId: string): void;
+  sendGroupMessage(roomId: string, text: string): Promise<boolean>;
+}
+
+const NO_CALL_STREAMS: CallStreams = { local: null, screen: null, remote: [] };
+
+const ChatContext = createContext<EncryptedChat | null>(null);
+
+export function shortKey(publicKey: string): string {
+  return `${publicKey.slice(0, 4)}...${publicKey.slice(-4)}`;
+}
+
+function newConversation(peer: string): Conversation {
+  return {
+    peer,
+    messages: [],
+    state: 'idle',
+    unread: 0,
+    peerTyping: false
+  };
+}
+
+let noticeCount = 0;
+
+// A notice from the app itself, shown among a conversation's messages
+function systemMessage(text: string): Message {
+  noticeCount += 1;
+  return { id: `system-${noticeCount}`, text, sender: 'System' };
+}
+
+function newAttachment(file: FileDescription, url?: string): Attachment {
+  return {
+    transferId: file.transferId,
+    name: file.name,
+    mimeType: file.mimeType,
+    size: file.size,
+    bytesTransferred: 0,
+    status: 'transferring',
+    url
+  };
+}
+
+function fromHistory(message: HistoryMessage, localPublicKey: string): Message {
+  return {
+    id: message.id,
+    text: message.text,
+    sender: message.sender === localPublicKey ? 'You' : message.sender,
+    attachment: message.attachment && {
+      transferId: message.id,
+      ...message.attachment,
+      bytesTransferred: message.attachment.size,
+      status: 'done'
+    }
+  };
+}
+
+// Prepends an older page, skipping messages that are already shown
+function mergeHistory(messages: Message[], older: Message[]): Message[] {
+  const shown = new Set(messages.map(message => message.id));
+  return [...older.filter(message => !shown.has(message.id)), ...messages];
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+interface Props {
+  children: ReactNode;
+}
+
+// Runs one ConnectionManager for the connected wallet and keeps the chat state every page
+// shares. Needs to sit inside WalletContextProvider.
+export const ChatProvider: FC<Props> = ({ children }) => {
+  const { publicKey, connected, signMessage } = useWallet();
+  const [manager, setManager] = useState<ConnectionManager | null>(null);
+  const [conversations, setConversations] = useState<Record<string, Conversation>>({});
+  const [activePeer, setActivePeer] = useState<string | null>(null);
+  const activePeerRef = useRef<string | null>(null);
+  // The object URLs behind each conversation's attachments, revoked once it is gone
+  const objectUrls = useRef<Record<string, string[]>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [serverStatus, setServerStatus] = useState<string>('Disconnected');
+  const [logs, setLogs] = useState<string[]>([]);
+  const [rooms, setRooms] = useState<Record<string, Room>>({});
+  const [roomInvites, setRoomInvites] = useState<RoomManifest[]>([]);
+  const [activeRoomId, setActiveRoomId] = useState<string | null>(null);
+  const [contacts, setContacts] = useState<Record<string, Contact>>({});
+  const [historyUnlocked, setHistoryUnlocked] = useState(false);
+  const [histories, setHistories] = useState<Record<string, HistoryState>>({});
+  const [call, setCall] = useState<CallSummary | null>(null);
+  const [callStreams, setCallStreams] = useState<CallStreams>(NO_CALL_STREAMS);
+
+  const addLog = (message: string) => {
+    setLogs(prevLogs => [...prevLogs, `${new Date().toISOString()}: ${message}`]);
+  };
+
+  // Applies a change to one conversation, creating it if a peer reached out first
+  const updateConversation = (peer: string, update: (conversation: Conversation) => Partial<Conversation>) => {
+    setConversations(prev => {
+      const conversation = prev[peer] ?? newConversation(peer);
+      return { ...prev, [peer]: { ...conversation, ...update(conversation) } };
+    });
+  };
+
+  const updateAttachment = (peer: string, transferId: string, update: Partial<Attachment>) => {
+    updateConversation(peer, conversation => ({
+      messages: conversation.messages.map(message =>
+        message.attachment?.transferId === transferId
+          ? { ...message, attachment: { ...message.attachment, ...update } }
+          : message
+      )
+    }));
+  };
+
+  const createObjectUrl = (peer: string, blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    objectUrls.current[peer] = [...(objectUrls.current[peer] ?? []), url];
+    return url;
+  };
+
+  const revokeObjectUrls = (peers: string[]) => {
+    peers.forEach(peer => {
+      (objectUrls.current[peer] ?? []).forEach(url => URL.revokeObjectURL(url));
+      delete objectUrls.current[peer];
+    });
+  };
+
+  const updateRoom = ({ roomId, manifest, connected: connectedMembers }: RoomSummary) => {
+    setRooms(prev => ({
+      ...prev,
+      [roomId]: {
+        roomId,
+        creator: manifest.creator,
+        members: manifest.members,
+        connected: connectedMembers,
+        messages: prev[roomId]?.messages ?? []
+      }
+    }));
+  };
+
+  useEffect(() => {
+    activePeerRef.current = activePeer;
+  }, [activePeer]);
+
+  useEffect(() => {
+    if (!connected || !publicKey) {
+      return;
+    }
+    if (!signMessage) {
+      setError('The connected wallet does not support message signing');
+      return;
+    }
+
+    const manager = new ConnectionManager(publicKey.toBase58(), signMessage);
+
+    manager.on('conversationOpened', ({ peer, initiator }: { peer: string; initiator: boolean }) => {
+      updateConversation(peer, () => ({}));
+      addLog(initiator ? `Opened conversation with ${peer}` : `${peer} opened a conversation`);
+    });
+
+    manager.on('conversationClosed', ({ peer }: { peer: string }) => {
+      setConversations(prev => {
+        const { [peer]: _closed, ...rest } = prev;
+        return rest;
+      });
+      revokeObjectUrls([peer]);
+      setActivePeer(current => (current === peer ? null : current));
+      addLog(`Conversation with ${peer} closed`);
+    });
+
+    manager.on('message', ({ peer, text, sender, id }: { peer: string; text: string; sender: string; id: string }) => {
+      updateConversation(peer, conversation => ({
+        messages: [...conversation.messages, { id, text, sender }],
+        unread: activePeerRef.current === peer ? 0 : conversation.unread + 1,
+        peerTyping: false
+      }));
+      if (activePeerRef.current === peer && document.visibilityState === 'visible') {
+        manager.markRead(peer);
+      }
+      addLog(`Received message from ${peer}`);
+    });
+
+    manager.on('messageStatus', ({ peer, id, status, reason }: { peer: string; id: string; status: MessageStatus; reason?: string }) => {
+      updateConversation(peer, conversation => ({
+        messages: conversation.messages.map(message => (message.id === id ? { ...message, status, statusReason: reason } : message))
+      }));
+    });
+
+    manager.on('typing', ({ peer, typing }: { peer: string; typing: boolean }) => {
+      updateConversation(peer, () => ({ peerTyping: typing }));
+    });
+
+    manager.on('stateChange', ({ peer, from, to, reason }: { peer: string; from: ConnectionState; to: ConnectionState; reason: string }) => {
+      updateConversation(peer, () => ({ state: to }));
+      addLog(`Connection with ${peer}: ${from} -> ${to} (${reason})`);
+    });
+
+    manager.on('error', (errorMessage: string) => {
+      setError(errorMessage);
+      addLog(`Error: ${errorMessage}`);
+    });
+
+    manager.on('peerError', ({ peer, message }: { peer: string; message: string }) => {
+      updateConversation(peer, conversation => ({
+        messages: [...conversation.messages, systemMessage(`Error: ${message}`)]
+      }));
+      addLog(`Error with ${peer}: ${message}`);
+    });
+
+    manager.on('encryptionReady', ({ peer }: { peer: string }) => {
+      addLog(`Encryption is ready with ${peer}`);
+    });
+
+    manager.on('identityVerificationFailed', ({ peer, reason }: { peer: string; reason: string }) => {
+      updateConversation(peer, conversation => ({
+        messages: [...conversation.messages, systemMessage(`Identity verification failed: ${reason}`)]
+      }));
+      addLog(`Identity verification failed for ${peer}: ${reason}`);
+    });
+
+    manager.on('peerConnectionEstablished', ({ peer }: { peer: string }) => {
+      addLog(`Peer connection established with ${peer}`);
+    });
+
+    manager.on('serverConnected', () => {
+      setServerStatus('Connected to server');
+      addLog('Connected to server');
+    });
+
+    manager.on('serverDisconnected', () => {
+      setServerStatus('Disconnected from server');
+      addLog('Disconnected from server');
+    });
+
+    manager.on('reconnecting', ({ attempt, delay }: { attempt: number; delay: number }) => {
+      setServerStatus(`Reconnecting (attempt ${attempt})...`);
+      addLog(`Reconnecting to server in ${delay}ms (attempt ${attempt})`);
+    });
+
+    manager.on('reconnected', () => {
+      addLog('Reconnected to server');
+    });
+
+    manager.on('iceRestart', ({ peer }: { peer: string }) => {
+      addLog(`Restarting ICE with ${peer}`);
+    });
+
+    manager.on('sessionResuming', ({ peer }: { peer: string }) => {
+      addLog(`Re-establishing encrypted session with ${peer}`);
+    });
+
+    manager.on('fileOffered', (file: FileDescription & { peer: string }) => {
+      updateConversation(file.peer, conversation => ({
+        messages: [...conversation.messages, {
+          id: file.transferId,
+          text: file.name,
+          sender: file.peer,
+          attachment: newAttachment(file)
+        }],
+        unread: activePeerRef.current === file.peer ? 0 : conversation.unread + 1
+      }));
+      addLog(`Receiving ${file.name} (${file.size} bytes) from ${file.peer}`);
+    });
+
+    manager.on('fileProgress', ({ peer, transferId, bytesTransferred }: { peer: string; transferId: string; bytesTransferred: number }) => {
+      updateAttachment(peer, transferId, { bytesTransferred });
+    });
+
+    manager.on('fileReceived', ({ peer, transferId, name, blob }: { peer: string; transferId: string; name: string; blob: Blob }) => {
+      updateAttachment(peer, transferId, { status: 'done', url: createObjectUrl(peer, blob) });
+      addLog(`Received ${name} from ${peer}`);
+    });
+
+    manager.on('fileSent', ({ peer, transferId, name }: { peer: string; transferId: string; name: string }) => {
+      updateAttachment(peer, transferId, { status: 'done' });
+      addLog(`Sent ${name} to ${peer}`);
+    });
+
+    manager.on('fileCancelled', ({ peer, transferId, name, reason }: { peer: string; transferId: string; name: string; reason: string }) => {
+      updateAttachment(peer, transferId, { status: 'cancelled' });
+      addLog(`Transfer of ${name} with ${peer} cancelled: ${reason}`);
+    });
+
+    manager.on('roomInvite', ({ roomId, manifest }: { roomId: string; manifest: RoomManifest }) => {
+      setRoomInvites(prev => [...prev.filter(invite => invite.roomId !== roomId), manifest]);
+      addLog(`${manifest.creator} invited you to room ${roomId}`);
+    });
+
+    manager.on('roomJoined', (summary: RoomSummary) => {
+      updateRoom(summary);
+      addLog(`Joined room ${summary.roomId}`);
+    });
+
+    manager.on('roomUpdated', (summary: RoomSummary) => {
+      updateRoom(summary);
+      addLog(`Room ${summary.roomId} now has ${summary.connected.length} connected members`);
+    });
+
+    manager.on('roomLeft', ({ roomId }: { roomId: string }) => {
+      setRooms(prev => {
+        const { [roomId]: _left, ...rest } = prev;
+        return rest;
+      });
+      setActiveRoomId(current => (current === roomId ? null : current));
+      addLog(`Left room ${roomId}`);
+    });
+
+    manager.on('groupMessage', ({ roomId, sender, text, id }: { roomId: string; sender: string; text: string; id: string }) => {
+      setRooms(prev => {
+        const room = prev[roomId];
+        return room ? { ...prev, [roomId]: { ...room, messages: [...room.messages, { id, text, sender }] } } : prev;
+      });
+    });
+
+    manager.on('historyUnlocked', () => {
+      setHistoryUnlocked(true);
+      addLog('Message history unlocked');
+    });
+
+    manager.on('roomError', ({ roomId, message }: { roomId: string; message: string }) => {
+      addLog(`Error in room ${roomId}: ${message}`);
+    });
+
+    manager.on('contactUpdated', (contact: Contact) => {
+      setContacts(prev => ({ ...prev, [contact.publicKey]: contact }));
+    });
+
+    manager.on('contactRemoved', ({ publicKey: removed }: { publicKey: string }) => {
+      setContacts(prev => {
+        const { [removed]: _removed, ...rest } = prev;
+        return rest;
+      });
+    });
+
+    manager.on('identityKeyChanged', ({ publicKey: changed }: { publicKey: string }) => {
+      addLog(`The keys of verified contact ${changed} have changed`);
+    });
+
+    manager.on('callStateChanged', (summary: CallSummary & { reason?: string }) => {
+      if (summary.state === 'ended') {
+        setCall(prev => (prev?.callId === summary.callId ? null : prev));
+        setCallStreams(NO_CALL_STREAMS);
+        addLog(`Call with ${summary.peer} ended: ${summary.reason}`);
+        return;
+      }
+      if (summary.state === 'incoming') {
+        addLog(`Incoming ${summary.video ? 'video' : 'voice'} call from ${summary.peer}`);
+      }
+      setCall(summary);
+      if (!summary.screenSharing) {
+        setCallStreams(prev => ({ ...prev, screen: null }));
+      }
+    });
+
+    manager.on('localStream', ({ stream, screen }: { stream: MediaStream; screen: boolean }) => {
+      setCallStreams(prev => (screen ? { ...prev, screen: stream } : { ...prev, local: stream }));
+    });
+
+    manager.on('remoteStream', ({ stream }: { stream: MediaStream }) => {
+      setCallStreams(prev => ({ ...prev, remote: [...prev.remote, stream] }));
+    });
+
+    manager.on('remoteStreamEnded', ({ streamId }: { streamId: string }) => {
+      setCallStreams(prev => ({ ...prev, remote: prev.remote.filter(stream => stream.id !== streamId) }));
+    });
+
+    setManager(manager);
+    setContacts(Object.fromEntries(manager.getContacts().map(contact => [contact.publicKey, contact])));
+    setHistoryUnlocked(false);
+    setHistories({});
+
+    manager.init().then(() => manager.unlockHistory()).catch((error) => {
+      setError('Failed to connect to the server');
+      setServerStatus('Error connecting to server');
+      addLog(`Failed to initialize connection: ${error.message}`);
+    });
+
+    // The listeners go first, so nothing the closing manager emits reaches the next
+    // wallet's state. This also runs when the provider unmounts.
+    return () => {
+      manager.removeAllListeners();
+      manager.cleanup();
+      setManager(null);
+      revokeObjectUrls(Object.keys(objectUrls.current));
+      setConversations({});
+      setActivePeer(null);
+      setRooms({});
+      setRoomInvites([]);
+      setActiveRoomId(null);
+      setCall(null);
+      setCallStreams(NO_CALL_STREAMS);
+      setServerStatus('Disconnected');
+    };
+  }, [connected, publicKey, signMessage]);
+
+  // Contacts see us as away while the tab is in the background
+  useEffect(() => {
+    if (!manager) {
+      return;
+    }
+    const updatePresence = () => {
+      const visible = document.visibilityState === 'visible';
+      manager.setPresenceStatus(visible ? 'online' : 'away');
+      if (visible && activePeerRef.current) {
+        manager.markRead(activePeerRef.current);
+      }
+    };
+    document.addEventListener('visibilitychange', updatePresence);
+    return () => document.removeEventListener('visibilitychange', updatePresence);
+  }, [manager]);
+
+  // Loads the next older page of a conversation's history into the matching message list
+  const loadHistory = async (conversationId: string) => {
+    const state = histories[conversationId];
+    if (!manager || !publicKey || (state?.loaded && !state.cursor)) {
+      return;
+    }
+    const page = await manager.loadHistory(conversationId, state?.cursor ?? null);
+    if (!page) {
+      return;
+    }
+    setHistories(prev => ({ ...prev, [conversationId]: { loaded: true, cursor: page.nextCursor } }));
+    // Messages still in the outbox from an earlier visit carry their current status
+    const older = page.messages.map(message => ({
+      ...fromHistory(message, publicKey.toBase58()),
+      status: manager.getMessageStatus(message.id)
+    }));
+    const roomId = conversationId.startsWith('room:') ? conversationId.slice('room:'.length) : null;
+    if (roomId) {
+      setRooms(prev => {
+        const room = prev[roomId];
+        return room ? { ...prev, [roomId]: { ...room, messages: mergeHistory(room.messages, older) } } : prev;
+      });
+    } else {
+      updateConversation(conversationId, conversation => ({ messages: mergeHistory(conversation.messages, older) }));
+    }
+  };
+
+  // The first page is loaded when a conversation or room is first shown
+  useEffect(() => {
+    if (!historyUnlocked) {
+      return;
+    }
+    [activePeer, activeRoomId && roomConversationId(activeRoomId)].forEach(conversationId => {
+      if (conversationId && !histories[conversationId]) {
+        loadHistory(conversationId);
+      }
+    });
+  }, [historyUnlocked, activePeer, activeRoomId]);
+
+  const exportHistory = async (conversationId: string) => {
+    const archive = await manager?.exportConversation(conversationId);
+    if (archive) {
+      downloadBlob(archive, `anrox-history-${conversationId.replace(':', '-').slice(0, 16)}.json`);
+      addLog(`Exported history of ${conversationId}`);
+    }
+  };
+
+  const importHistory = async (file: File) => {
+    const result = await manager?.importHistory(file);
+    if (result) {
+      addLog(`Imported ${result.imported} messages for ${result.conversationId}`);
+      // Shown the next time the conversation is opened
+      setHistories(prev => {
+        const { [result.conversationId]: _reload, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  const selectConversation = (peer: string) => {
+    setActivePeer(peer);
+    updateConversation(peer, () => ({ unread: 0 }));
+    manager?.markRead(peer);
+  };
+
+  const openConversation = (peer: string) => {
+    if (!manager) {
+      return;
+    }
+    if (!conversations[peer]) {
+      addLog(`Opening conversation with ${peer}`);
+      manager.openConversation(peer);
+    }
+    selectConversation(peer);
+  };
+
+  const sendMessage = async (peer: string, text: string) => {
+    if (!manager || !text.trim()) {
+      return false;
+    }
+    const sent = await manager.sendChatMessage(text, peer);
+    if (!sent) {
+      return false;
+    }
+    // Status events for this id may have fired before it was added, so start from the current one
+    const status = manager.getMessageStatus(sent.id) ?? 'queued';
+    updateConversation(peer, conversation => ({
+      messages: [...conversation.messages, { id: sent.id, text, sender: 'You', status }]
+    }));
+    return true;
+  };
+
+  const sendFile = async (peer: string, file: File) => {
+    const description = await manager?.sendFile(file, file.name, peer);
+    if (!description) {
+      return false;
+    }
+    updateConversation(peer, conversation => ({
+      messages: [...conversation.messages, {
+        id: description.transferId,
+        text: file.name,
+        sender: 'You',
+        attachment: newAttachment(description, createObjectUrl(peer, file))
+      }]
+    }));
+    return true;
+  };
+
+  const addContact = (contactKey: string, nickname: string) => {
+    return !!manager?.addContact(contactKey, nickname || shortKey(contactKey));
+  };
+
+  const createRoom = async (members: string[]) => {
+    const manifest = members.length > 0 ? await manager?.createRoom(members) : null;
+    if (!manifest) {
+      return false;
+    }
+    setActiveRoomId(manifest.roomId);
+    return true;
+  };
+
+  const acceptRoomInvite = (roomId: string) => {
+    manager?.acceptRoomInvite(roomId);
+    setRoomInvites(prev => prev.filter(invite => invite.roomId !== roomId));
+    setActiveRoomId(roomId);
+  };
+
+  const declineRoomInvite = (roomId: string) => {
+    manager?.declineRoomInvite(roomId);
+    setRoomInvites(prev => prev.filter(invite => invite.roomId !== roomId));
+  };
+
+  const sendGroupMessage = async (roomId: string, text: string) => {
+    const sent = text.trim() ? await manager?.sendGroupMessage(roomId, text) : null;
+    if (!sent) {
+      return false;
+    }
+    setRooms(prev => {
+      const room = prev[roomId];
+      return room ? { ...prev, [roomId]: { ...room, messages: [...room.messages, { id: sent.id, text, sender: 'You' }] } } : prev;
+    });
+    return true;
+  };
+
+  const chat: EncryptedChat = {
+    manager,
+    publicKey: publicKey?.toBase58() ?? null,
+    serverStatus,
+    error,
+    logs,
+    conversations,
+    activePeer,
+    contacts,
+    rooms,
+    roomInvites,
+    activeRoomId,
+    historyUnlocked,
+    histories,
+    call,
+    callStreams,
+    dismissError: () => setError(null),
+    // Falls back to the short key for peers that are not in the address book
+    displayName: peer => contacts[peer]?.nickname ?? shortKey(peer),
+    openConversation,
+    selectConversation,
+    closeConversation: peer => manager?.closeConversation(peer),
+    sendMessage,
+    sendFile,
+    loadHistory,
+    exportHistory,
+    importHistory,
+    addContact,
+    selectRoom: setActiveRoomId,
+    createRoom,
+    acceptRoomInvite,
+    declineRoomInvite,
+    sendGroupMessage
+  };
+
+  return <ChatContext.Provider value={chat}>{children}</ChatContext.Provider>;
+};
+
+export function useEncryptedChat(): EncryptedChat {
+  const chat = useContext(ChatContext);
+  if (!chat) {
+    throw new Error('useEncryptedChat must be used inside a ChatProvider');
+  }
+  return chat;
+}
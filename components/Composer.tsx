@@ -0,0 +1,48 @@
+import { FC, useState } from 'react';
+import { useEncryptedChat } from './ChatProvider';
+
+interface Props {
+  peer: string;
+}
+
+// The text box and file picker for one conversation. Typing notifications go out as the user types.
+export const Composer: FC<Props> = ({ peer }) => {
+  const { manager, sendMessage, sendFile } = useEncryptedChat();
+  const [input, setInput] = useState<string>('');
+
+  const updateInput = (value: string) => {
+    setInput(value);
+    if (value) {
+      manager?.notifyTyping(peer);
+    }
+  };
+
+  const send = async () => {
+    if (await sendMessage(peer, input)) {
+      setInput('');
+    }
+  };
+
+  const pickFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      sendFile(peer, file);
+    }
+  };
+
+  return (
+    <div style={{ marginTop: '10px' }}>
+      <input
+        type="text"
+        value={input}
+        onChange={(e) => updateInput(e.target.value)}
+        style={{ width: '80%', padding: '10px' }}
+      />
+      <button onClick={send} style={{ padding: '10px' }} disabled={!manager || !input.trim()}>
+        Send
+      </button>
+      <input type="file" onChange={pickFile} disabled={!manager} />
+    </div>
+  );
+};
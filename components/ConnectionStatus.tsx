@@ -0,0 +1,27 @@
+import { FC } from 'react';
+import { ConnectionState } from '../utils/ConnectionManager';
+import { useEncryptedChat } from './ChatProvider';
+
+const STATE_LABELS: Record<ConnectionState, string> = {
+  'idle': 'Not connected',
+  'signaling': 'Contacting peer...',
+  'negotiating': 'Connecting...',
+  'key-exchange': 'Exchanging keys...',
+  'secure': 'Secure',
+  'reconnecting': 'Reconnecting...',
+  'closed': 'Closed'
+};
+
+interface Props {
+  // Without a peer, the connection to the signaling server is shown
+  peer?: string;
+}
+
+export const ConnectionStatus: FC<Props> = ({ peer }) => {
+  const { conversations, serverStatus } = useEncryptedChat();
+  if (peer === undefined) {
+    return <span>{serverStatus}</span>;
+  }
+  const state = conversations[peer]?.state ?? 'closed';
+  return <span style={{ color: state === 'secure' ? 'green' : undefined }}>{STATE_LABELS[state]}</span>;
+};
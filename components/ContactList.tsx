@@ -0,0 +1,100 @@
+import { FC, useState } from 'react';
+import { Contact } from '../utils/ConnectionManager';
+import { useEncryptedChat } from './ChatProvider';
+
+function describeVerification(contact: Contact): string {
+  if (contact.keyChanged) {
+    return 'Keys changed';
+  }
+  return contact.verifiedKey ? 'Verified' : 'Not verified';
+}
+
+function describePresence(contact: Contact): string {
+  if (contact.status !== 'offline') {
+    return contact.status === 'away' ? 'Away' : 'Online';
+  }
+  return contact.lastSeen ? `Last seen ${new Date(contact.lastSeen).toLocaleString()}` : 'Offline';
+}
+
+// Stays on screen until the contact is verified again or marked unverified
+export const KeyChangeWarnings: FC = () => {
+  const { manager, contacts } = useEncryptedChat();
+  return (
+    <>
+      {Object.values(contacts).filter(contact => contact.keyChanged).map(contact => (
+        <div key={contact.publicKey} style={{ color: 'red', marginBottom: '10px' }}>
+          The keys of {contact.nickname} have changed since you verified them. Compare safety numbers again before
+          trusting this conversation.{' '}
+          <button onClick={() => manager?.clearContactVerification(contact.publicKey)}>Mark Unverified</button>
+        </div>
+      ))}
+    </>
+  );
+};
+
+// The address book with presence and verification, and a form to add to it
+export const ContactList: FC = () => {
+  const { manager, contacts, openConversation, addContact } = useEncryptedChat();
+  const [contactKeyInput, setContactKeyInput] = useState<string>('');
+  const [contactNicknameInput, setContactNicknameInput] = useState<string>('');
+
+  const addContactFromInputs = () => {
+    const contactKey = contactKeyInput.trim();
+    if (contactKey && addContact(contactKey, contactNicknameInput.trim())) {
+      setContactKeyInput('');
+      setContactNicknameInput('');
+    }
+  };
+
+  const renameContact = (contact: Contact) => {
+    const nickname = window.prompt('Nickname', contact.nickname);
+    if (nickname && nickname.trim()) {
+      manager?.renameContact(contact.publicKey, nickname.trim());
+    }
+  };
+
+  return (
+    <>
+      <div style={{ marginBottom: '10px' }}>
+        <input
+          type="text"
+          value={contactKeyInput}
+          onChange={(e) => setContactKeyInput(e.target.value)}
+          placeholder="Contact's Public Key"
+          style={{ width: '50%', padding: '10px', marginRight: '5px' }}
+        />
+        <input
+          type="text"
+          value={contactNicknameInput}
+          onChange={(e) => setContactNicknameInput(e.target.value)}
+          placeholder="Nickname"
+          style={{ width: '20%', padding: '10px', marginRight: '5px' }}
+        />
+        <button onClick={addContactFromInputs} disabled={!contactKeyInput.trim() || !manager}>
+          Add Contact
+        </button>
+      </div>
+      <div style={{ border: '1px solid #ccc', padding: '10px', marginBottom: '10px', maxHeight: '200px', overflowY: 'auto' }}>
+        {Object.values(contacts).length === 0 && <p>No contacts yet</p>}
+        {Object.values(contacts).map(contact => (
+          <div key={contact.publicKey} style={{ padding: '5px' }}>
+            <strong title={contact.publicKey}>{contact.nickname}</strong>{' '}
+            <span style={{ fontSize: '12px' }}>{describePresence(contact)}</span>{' '}
+            <span style={{ fontSize: '12px', color: contact.keyChanged ? 'red' : '#666' }}>{describeVerification(contact)}</span>{' '}
+            <button onClick={() => openConversation(contact.publicKey)}>Chat</button>
+            <button onClick={() => renameContact(contact)}>Rename</button>
+            <label style={{ fontSize: '12px' }}>
+              <input
+                type="checkbox"
+                checked={contact.approved}
+                onChange={(e) => manager?.setContactApproved(contact.publicKey, e.target.checked)}
+              />
+              Share my presence
+            </label>
+            <button onClick={() => manager?.removeContact(contact.publicKey)}>Remove</button>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+};
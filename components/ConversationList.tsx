@@ -0,0 +1,36 @@
+import { FC } from 'react';
+import { ConnectionStatus } from './ConnectionStatus';
+import { useEncryptedChat } from './ChatProvider';
+
+export const ConversationList: FC = () => {
+  const { conversations, activePeer, selectConversation, closeConversation, displayName } = useEncryptedChat();
+
+  if (Object.values(conversations).length === 0) {
+    return <p>No conversations yet</p>;
+  }
+
+  return (
+    <>
+      {Object.values(conversations).map(conversation => (
+        <div
+          key={conversation.peer}
+          onClick={() => selectConversation(conversation.peer)}
+          style={{
+            padding: '5px',
+            cursor: 'pointer',
+            background: conversation.peer === activePeer ? '#eee' : 'transparent'
+          }}
+        >
+          <strong title={conversation.peer}>{displayName(conversation.peer)}</strong>
+          {conversation.unread > 0 && <span> ({conversation.unread})</span>}
+          <div style={{ fontSize: '12px' }}>
+            <ConnectionStatus peer={conversation.peer} />
+          </div>
+          <button onClick={(e) => { e.stopPropagation(); closeConversation(conversation.peer); }}>
+            Close
+          </button>
+        </div>
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,71 @@
+import { FC } from 'react';
+import { INLINE_IMAGE_TYPES, MessageStatus } from '../utils/ConnectionManager';
+import { Attachment, useEncryptedChat } from './ChatProvider';
+
+const STATUS_LABELS: Record<MessageStatus, string> = {
+  queued: 'Queued',
+  sending: 'Sending...',
+  sent: 'Sent',
+  delivered: 'Delivered',
+  read: 'Read',
+  failed: 'Failed'
+};
+
+const AttachmentView: FC<{ attachment: Attachment }> = ({ attachment }) => {
+  const { manager } = useEncryptedChat();
+  return (
+    <div>
+      {attachment.url && INLINE_IMAGE_TYPES.includes(attachment.mimeType) && (
+        <img src={attachment.url} alt={attachment.name} style={{ maxWidth: '200px', maxHeight: '200px', display: 'block' }} />
+      )}
+      {attachment.url && attachment.status === 'done' ? (
+        <a href={attachment.url} download={attachment.name}>{attachment.name}</a>
+      ) : (
+        <span>{attachment.name}</span>
+      )}
+      {attachment.status === 'transferring' && (
+        <>
+          {' '}({Math.floor((attachment.bytesTransferred / Math.max(attachment.size, 1)) * 100)}%)
+          <button onClick={() => manager?.cancelFileTransfer(attachment.transferId)}>Cancel</button>
+        </>
+      )}
+      {attachment.status === 'cancelled' && <span> (cancelled)</span>}
+    </div>
+  );
+};
+
+interface Props {
+  peer: string;
+}
+
+// One conversation's messages, with delivery status, attachments and the typing indicator
+export const MessageList: FC<Props> = ({ peer }) => {
+  const { conversations, histories, manager, displayName, loadHistory } = useEncryptedChat();
+  const conversation = conversations[peer];
+  if (!conversation) {
+    return null;
+  }
+
+  return (
+    <div style={{ border: '1px solid #ccc', padding: '10px', height: '300px', overflowY: 'scroll' }}>
+      {histories[peer]?.cursor && (
+        <button onClick={() => loadHistory(peer)}>Load older messages</button>
+      )}
+      {conversation.messages.map(msg => (
+        <div key={msg.id} style={{ margin: '10px 0' }}>
+          <strong>{msg.sender === peer ? displayName(msg.sender) : msg.sender}:</strong>{' '}
+          {msg.attachment ? <AttachmentView attachment={msg.attachment} /> : msg.text}
+          {msg.status && (
+            <span style={{ fontSize: '12px', color: msg.status === 'failed' ? 'red' : '#666' }}>
+              {' '}{msg.statusReason === 'expired' ? 'Expired' : STATUS_LABELS[msg.status]}
+              {msg.status === 'failed' && (
+                <button onClick={() => manager?.retryMessage(msg.id)}>Retry</button>
+              )}
+            </span>
+          )}
+        </div>
+      ))}
+      {conversation.peerTyping && <div style={{ fontStyle: 'italic' }}>{displayName(peer)} is typing...</div>}
+    </div>
+  );
+};
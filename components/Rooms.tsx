@@ -0,0 +1,109 @@
+import { FC, useState } from 'react';
+import { roomConversationId } from '../utils/ConnectionManager';
+import { Room, shortKey, useEncryptedChat } from './ChatProvider';
+
+const RoomView: FC<{ room: Room }> = ({ room }) => {
+  const { manager, histories, historyUnlocked, loadHistory, exportHistory, sendGroupMessage } = useEncryptedChat();
+  const [input, setInput] = useState<string>('');
+  const conversationId = roomConversationId(room.roomId);
+
+  const send = async () => {
+    if (await sendGroupMessage(room.roomId, input)) {
+      setInput('');
+    }
+  };
+
+  return (
+    <>
+      <div style={{ border: '1px solid #ccc', padding: '10px', height: '240px', overflowY: 'scroll' }}>
+        {histories[conversationId]?.cursor && (
+          <button onClick={() => loadHistory(conversationId)}>Load older messages</button>
+        )}
+        {room.messages.map(msg => (
+          <div key={msg.id} style={{ margin: '10px 0' }}>
+            <strong>{msg.sender === 'You' ? msg.sender : shortKey(msg.sender)}:</strong> {msg.text}
+          </div>
+        ))}
+      </div>
+      <div style={{ marginTop: '10px' }}>
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          style={{ width: '80%', padding: '10px' }}
+        />
+        <button onClick={send} style={{ padding: '10px' }} disabled={!manager || !input.trim()}>
+          Send
+        </button>
+      </div>
+      <p>Members: {room.members.map(shortKey).join(', ')}</p>
+      {historyUnlocked && (
+        <button onClick={() => exportHistory(conversationId)}>Export History</button>
+      )}
+    </>
+  );
+};
+
+// Group rooms: creating one, pending invites, the joined rooms and the selected room's messages
+export const Rooms: FC = () => {
+  const { manager, rooms, roomInvites, activeRoomId, selectRoom, createRoom, acceptRoomInvite, declineRoomInvite } =
+    useEncryptedChat();
+  const [membersInput, setMembersInput] = useState<string>('');
+  const activeRoom = activeRoomId ? rooms[activeRoomId] : undefined;
+
+  const createRoomFromInput = async () => {
+    const members = membersInput.split(',').map(member => member.trim()).filter(Boolean);
+    if (await createRoom(members)) {
+      setMembersInput('');
+    }
+  };
+
+  return (
+    <>
+      <div style={{ marginBottom: '10px' }}>
+        <input
+          type="text"
+          value={membersInput}
+          onChange={(e) => setMembersInput(e.target.value)}
+          placeholder="Member public keys, comma separated"
+          style={{ width: '80%', padding: '10px', marginBottom: '10px' }}
+        />
+        <button onClick={createRoomFromInput} disabled={!membersInput.trim() || !manager}>
+          Create Room
+        </button>
+      </div>
+      {roomInvites.map(invite => (
+        <div key={invite.roomId} style={{ marginBottom: '5px' }}>
+          {shortKey(invite.creator)} invited you to a room with {invite.members.length} members{' '}
+          <button onClick={() => acceptRoomInvite(invite.roomId)}>Join</button>
+          <button onClick={() => declineRoomInvite(invite.roomId)}>Decline</button>
+        </div>
+      ))}
+      <div style={{ display: 'flex', gap: '10px' }}>
+        <div style={{ width: '250px', border: '1px solid #ccc', padding: '10px', height: '300px', overflowY: 'auto' }}>
+          {Object.values(rooms).length === 0 && <p>No rooms yet</p>}
+          {Object.values(rooms).map(room => (
+            <div
+              key={room.roomId}
+              onClick={() => selectRoom(room.roomId)}
+              style={{ padding: '5px', cursor: 'pointer', background: room.roomId === activeRoomId ? '#eee' : 'transparent' }}
+            >
+              <strong title={room.roomId}>Room {room.roomId.slice(0, 8)}</strong>
+              <div style={{ fontSize: '12px' }}>{room.connected.length}/{room.members.length} connected</div>
+              <button onClick={(e) => { e.stopPropagation(); manager?.leaveRoom(room.roomId); }}>
+                Leave
+              </button>
+            </div>
+          ))}
+        </div>
+        <div style={{ flex: 1 }}>
+          {activeRoom ? (
+            <RoomView key={activeRoom.roomId} room={activeRoom} />
+          ) : (
+            <p>Select or create a room to chat with a group.</p>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
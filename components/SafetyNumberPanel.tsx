@@ -0,0 +1,75 @@
+import { FC, useEffect, useState } from 'react';
+import { renderSVG } from 'uqr';
+import { SafetyNumber } from '../utils/ConnectionManager';
+import { shortKey, useEncryptedChat } from './ChatProvider';
+
+// The safety number on screen, with its QR code as an image URL
+interface SafetyNumberView {
+  safetyNumber: SafetyNumber;
+  qrCodeUrl: string;
+}
+
+interface Props {
+  peer: string;
+}
+
+// A button that shows the conversation's safety number for comparing in person, and lets the
+// user mark the contact verified
+export const SafetyNumberPanel: FC<Props> = ({ peer }) => {
+  const { manager, conversations, contacts, displayName } = useEncryptedChat();
+  const [view, setView] = useState<SafetyNumberView | null>(null);
+  const secure = conversations[peer]?.state === 'secure';
+
+  // A safety number on screen is stale once its session is gone, since the next one may use different keys
+  useEffect(() => {
+    if (!secure) {
+      setView(null);
+    }
+  }, [secure]);
+
+  useEffect(() => {
+    setView(null);
+  }, [peer]);
+
+  const show = () => {
+    const safetyNumber = manager?.getSafetyNumber(peer);
+    if (!safetyNumber) {
+      return;
+    }
+    const qrCodeUrl = `data:image/svg+xml;utf8,${encodeURIComponent(renderSVG(safetyNumber.qrPayload))}`;
+    setView({ safetyNumber, qrCodeUrl });
+  };
+
+  return (
+    <>
+      <button onClick={show} disabled={!secure}>
+        Safety Number
+      </button>
+      {view && (
+        <div style={{ border: '1px solid #ccc', padding: '10px', marginTop: '10px' }}>
+          <p>
+            Compare this number with {displayName(peer)} in person or over another channel, or scan each
+            other's code. If they match, nobody is intercepting this conversation.
+          </p>
+          <p style={{ fontFamily: 'monospace', fontSize: '18px' }}>{view.safetyNumber.digits}</p>
+          <img src={view.qrCodeUrl} alt="Safety number QR code" width={200} height={200} />
+          <div>
+            {contacts[peer] ? (
+              <>
+                <button onClick={() => manager?.verifyContact(peer)}>Mark as Verified</button>
+                {contacts[peer].verifiedKey && (
+                  <button onClick={() => manager?.clearContactVerification(peer)}>
+                    Clear Verification
+                  </button>
+                )}
+              </>
+            ) : (
+              <span>Add {shortKey(peer)} as a contact to mark it verified.</span>
+            )}
+            <button onClick={() => setView(null)}>Close</button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -1,12 +1,15 @@
 import type { AppProps } from 'next/app';
 import { WalletContextProvider } from '../components/WalletContextProvider';
+import { ChatProvider } from '../components/ChatProvider';
 
 function MyApp({ Component, pageProps }: AppProps) {
   return (
     <WalletContextProvider>
-      <Component {...pageProps} />
+      <ChatProvider>
+        <Component {...pageProps} />
+      </ChatProvider>
     </WalletContextProvider>
   );
 }
 
-export default MyApp;
\ No newline at end of file
+export default MyApp;
@@ -0,0 +1,17 @@
+// The client as a library. Nothing here touches browser or Node globals until a transport is
+// used: browsers can rely on the defaults, and Node passes the transports from sdk/node.ts.
+import ConnectionManager from '../utils/ConnectionManager';
+
+export default ConnectionManager;
+export { ConnectionManager };
+export * from '../utils/ConnectionManager';
+export { browserTransports, MemoryStorage, SOCKET_OPEN } from '../utils/transports';
+export { clientConfig } from '../utils/config';
+export { default as WalletEncryptionService, HandshakeError, HANDSHAKE_VERSION } from '../services/EncryptionService';
+export type { EncryptionService, HandshakeMessage, LocalHandshake } from '../services/EncryptionService';
+export { DEFAULT_CIPHER_SUITES, negotiateCipherSuite } from '../services/cipherSuites';
+export { computeSafetyNumber } from '../services/SafetyNumber';
+export { CONNECTION_STATES, IllegalTransitionError } from '../utils/ConnectionStateMachine';
+export type { SafetyNumberParty } from '../services/SafetyNumber';
+export { configureLogging, formatRecord, REDACTED_FIELDS } from '../shared/logger';
+export type { LogFormat, LogLevel, LogOptions, LogRecord, LogSink } from '../shared/logger';
@@ -0,0 +1,92 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import WebSocket from 'ws';
+import { ed25519 } from '@noble/curves/ed25519';
+import { PublicKey } from '@solana/web3.js';
+import { ClientTransports, MemoryStorage } from '../utils/transports';
+import type { MessageSigner } from '../services/EncryptionService';
+
+// Node has no WebRTC of its own, so callers pass an implementation such as @roamhq/wrtc's
+export type PeerConnectionConstructor = new (configuration: RTCConfiguration) => RTCPeerConnection;
+
+// A wallet backed by a local keypair instead of a browser extension
+export interface NodeWallet {
+  publicKey: string;
+  signMessage: MessageSigner;
+}
+
+// Message history needs IndexedDB and calls need capture devices, so neither is available under Node
+export function nodeTransports(PeerConnection: PeerConnectionConstructor, storage: Storage = new MemoryStorage()): ClientTransports {
+  return {
+    createSocket: url => new WebSocket(url),
+    createPeerConnection: configuration => new PeerConnection(configuration),
+    storage,
+    indexedDB: null,
+    mediaDevices: null
+  };
+}
+
+// Keeps the identity key, contacts and outbox in a JSON file, so a bot keeps its safety
+// number across restarts. Every change is written through at once.
+export class FileStorage extends MemoryStorage {
+  private path: string;
+
+  constructor(path: string) {
+    super();
+    this.path = path;
+    if (existsSync(path)) {
+      Object.entries(JSON.parse(readFileSync(path, 'utf8')) as Record<string, string>)
+        .forEach(([key, value]) => super.setItem(key, value));
+    }
+  }
+
+  setItem(key: string, value: string) {
+    super.setItem(key, value);
+    this.save();
+  }
+
+  removeItem(key: string) {
+    super.removeItem(key);
+    this.save();
+  }
+
+  clear() {
+    super.clear();
+    this.save();
+  }
+
+  private save() {
+    const items: Record<string, string> = {};
+    for (let i = 0; i < this.length; i++) {
+      const key = this.key(i) as string;
+      items[key] = this.getItem(key) as string;
+    }
+    writeFileSync(this.path, JSON.stringify(items), { mode: 0o600 });
+  }
+}
+
+// Reads a keypair file in the Solana CLI's format: a JSON array of the 64 secret key bytes,
+// the seed followed by the public key
+export function loadKeypair(path: string): NodeWallet {
+  let secretKey: Uint8Array;
+  try {
+    secretKey = Uint8Array.from(JSON.parse(readFileSync(path, 'utf8')));
+  } catch (error) {
+    throw new Error(`Cannot read keypair file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  const seed = secretKey.slice(0, 32);
+  if (secretKey.length !== 64 || !ed25519.getPublicKey(seed).every((byte, i) => byte === secretKey[32 + i])) {
+    throw new Error(`${path} is not a Solana keypair file`);
+  }
+  return {
+    publicKey: new PublicKey(secretKey.slice(32)).toBase58(),
+    signMessage: async message => ed25519.sign(message, seed)
+  };
+}
+
+// Writes a new keypair file in the same format; refuses to replace an existing one
+export function generateKeypair(path: string): NodeWallet {
+  const seed = ed25519.utils.randomPrivateKey();
+  const secretKey = [...Array.from(seed), ...Array.from(ed25519.getPublicKey(seed))];
+  writeFileSync(path, JSON.stringify(secretKey), { mode: 0o600, flag: 'wx' });
+  return loadKeypair(path);
+}
@@ -0,0 +1,142 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { x25519 } from '@noble/curves/ed25519';
+import { randomBytes } from '@noble/hashes/utils';
+import DoubleRatchet, { MAX_SKIP, MAX_SKIPPED_KEYS, RatchetError, RatchetMessage } from './DoubleRatchet';
+
+const AD = new TextEncoder().encode('alice|bob');
+
+function pair(): { alice: DoubleRatchet; bob: DoubleRatchet } {
+  const rootKey = randomBytes(32);
+  const responderChainKey = randomBytes(32);
+  const aliceKey = x25519.utils.randomPrivateKey();
+  const bobKey = x25519.utils.randomPrivateKey();
+  return {
+    alice: new DoubleRatchet({
+      rootKey,
+      responderChainKey,
+      handshakePrivateKey: aliceKey,
+      peerHandshakeKey: x25519.getPublicKey(bobKey),
+      isInitiator: true
+    }),
+    bob: new DoubleRatchet({
+      rootKey,
+      responderChainKey,
+      handshakePrivateKey: bobKey,
+      peerHandshakeKey: x25519.getPublicKey(aliceKey),
+      isInitiator: false
+    })
+  };
+}
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+async function send(from: DoubleRatchet, count: number, prefix = 'm'): Promise<RatchetMessage[]> {
+  const messages: RatchetMessage[] = [];
+  for (let i = 0; i < count; i++) {
+    messages.push(await from.encrypt(encode(`${prefix}${i}`), AD));
+  }
+  return messages;
+}
+
+describe('DoubleRatchet', () => {
+  test('delivers messages in order in both directions', async () => {
+    const { alice, bob } = pair();
+    for (const message of await send(alice, 3, 'a')) {
+      assert.match(decode(await bob.decrypt(message, AD)), /^a\d$/);
+    }
+    const [reply] = await send(bob, 1, 'b');
+    assert.equal(decode(await alice.decrypt(reply, AD)), 'b0');
+    const [again] = await send(alice, 1, 'c');
+    assert.equal(decode(await bob.decrypt(again, AD)), 'c0');
+  });
+
+  test('starts a new DH chain on every change of direction', async () => {
+    const { alice, bob } = pair();
+    const [first] = await send(alice, 1);
+    await bob.decrypt(first, AD);
+    const [reply] = await send(bob, 1);
+    await alice.decrypt(reply, AD);
+    const [second] = await send(alice, 1);
+    assert.notEqual(second.header.dh, first.header.dh);
+    assert.equal(second.header.pn, 1);
+    assert.equal(second.header.n, 0);
+  });
+
+  test('decrypts out-of-order messages, including across DH steps', async () => {
+    const { alice, bob } = pair();
+    const firstChain = await send(alice, 4, 'x');
+    assert.equal(decode(await bob.decrypt(firstChain[3], AD)), 'x3');
+    const [reply] = await send(bob, 1);
+    await alice.decrypt(reply, AD);
+    const secondChain = await send(alice, 2, 'y');
+    assert.equal(decode(await bob.decrypt(secondChain[1], AD)), 'y1');
+    // Late arrivals from the earlier chain still decrypt from their skipped keys
+    assert.equal(decode(await bob.decrypt(firstChain[0], AD)), 'x0');
+    assert.equal(decode(await bob.decrypt(firstChain[2], AD)), 'x2');
+    assert.equal(decode(await bob.decrypt(secondChain[0], AD)), 'y0');
+    assert.equal(decode(await bob.decrypt(firstChain[1], AD)), 'x1');
+  });
+
+  test(`refuses to skip more than ${MAX_SKIP} messages in one chain`, async () => {
+    const { alice, bob } = pair();
+    const messages = await send(alice, MAX_SKIP + 2);
+    await assert.rejects(bob.decrypt(messages[MAX_SKIP + 1], AD), /Too many skipped messages/);
+    // The refused message left the state alone, so the gap that is allowed still works
+    assert.equal(decode(await bob.decrypt(messages[MAX_SKIP], AD)), `m${MAX_SKIP}`);
+    assert.equal(decode(await bob.decrypt(messages[0], AD)), 'm0');
+  });
+
+  test(`evicts the oldest skipped keys beyond ${MAX_SKIPPED_KEYS}`, async () => {
+    const { alice, bob } = pair();
+    const messages = await send(alice, MAX_SKIPPED_KEYS + MAX_SKIP);
+    // Receive every MAX_SKIP-th message, leaving MAX_SKIP - 1 skipped keys behind each time
+    for (let n = MAX_SKIP - 1; n < messages.length; n += MAX_SKIP) {
+      await bob.decrypt(messages[n], AD);
+    }
+    await assert.rejects(bob.decrypt(messages[0], AD), RatchetError);
+    const newest = messages.length - MAX_SKIP - 2;
+    assert.equal(decode(await bob.decrypt(messages[newest], AD)), `m${newest}`);
+  });
+
+  test('rejects a tampered ciphertext without advancing', async () => {
+    const { alice, bob } = pair();
+    const [message, next] = await send(alice, 2);
+    const ciphertext = Uint8Array.from(message.ciphertext);
+    ciphertext[0] ^= 0x01;
+    await assert.rejects(bob.decrypt({ ...message, ciphertext }, AD), /failed authentication/);
+    assert.equal(decode(await bob.decrypt(message, AD)), 'm0');
+    assert.equal(decode(await bob.decrypt(next, AD)), 'm1');
+  });
+
+  test('rejects tampered associated data and headers', async () => {
+    const { alice, bob } = pair();
+    const [message] = await send(alice, 1);
+    await assert.rejects(bob.decrypt(message, encode('alice|mallory')), /failed authentication/);
+    await assert.rejects(bob.decrypt({ ...message, header: { ...message.header, pn: 7 } }, AD), /failed authentication/);
+    await assert.rejects(bob.decrypt({ ...message, header: { ...message.header, n: -1 } }, AD), /Malformed ratchet header/);
+    assert.equal(decode(await bob.decrypt(message, AD)), 'm0');
+  });
+
+  test('a restored receiving state decrypts later messages but cannot send', async () => {
+    const { alice, bob } = pair();
+    const early = await send(alice, 2, 'e');
+    await bob.decrypt(early[1], AD);
+    const restored = new DoubleRatchet(JSON.parse(JSON.stringify(bob.exportReceivingState())));
+    const late = await send(alice, 2, 'l');
+    assert.equal(decode(await restored.decrypt(late[1], AD)), 'l1');
+    assert.equal(decode(await restored.decrypt(early[0], AD)), 'e0');
+    assert.equal(decode(await restored.decrypt(late[0], AD)), 'l0');
+    await assert.rejects(restored.encrypt(encode('reply'), AD), /cannot send/);
+  });
+
+  test('rejects a replayed message', async () => {
+    const { alice, bob } = pair();
+    const [first, second] = await send(alice, 2);
+    await bob.decrypt(second, AD);
+    await bob.decrypt(first, AD);
+    await assert.rejects(bob.decrypt(first, AD), RatchetError);
+    await assert.rejects(bob.decrypt(second, AD), RatchetError);
+  });
+});
@@ -0,0 +1,312 @@
+import { x25519 } from '@noble/curves/ed25519';
+import { sha256 } from '@noble/hashes/sha256';
+import { hkdf } from '@noble/hashes/hkdf';
+import { hmac } from '@noble/hashes/hmac';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+
+// Only relies on globalThis.crypto, so it runs unchanged in browsers and Node 19+
+
+// Largest gap we will fast-forward over in a single receiving chain
+export const MAX_SKIP = 256;
+// Upper bound on message keys kept around for late, out-of-order messages
+export const MAX_SKIPPED_KEYS = 1000;
+
+const ROOT_KDF_INFO = new TextEncoder().encode('AnRox ratchet root v1');
+const MESSAGE_KDF_INFO = new TextEncoder().encode('AnRox ratchet message v1');
+const MESSAGE_KEY_SEED = Uint8Array.of(0x01);
+const CHAIN_KEY_SEED = Uint8Array.of(0x02);
+
+export interface RatchetHeader {
+  dh: string;
+  pn: number;
+  n: number;
+}
+
+export interface RatchetMessage {
+  header: RatchetHeader;
+  ciphertext: Uint8Array;
+}
+
+export interface RatchetInit {
+  rootKey: Uint8Array;
+  // Chain for messages from the responder before its first DH ratchet step
+  responderChainKey: Uint8Array;
+  // This session's handshake X25519 private key and the peer's public key
+  handshakePrivateKey: Uint8Array;
+  peerHandshakeKey: Uint8Array;
+  // Exactly one side must be the initiator; it performs the first DH ratchet step
+  isInitiator: boolean;
+}
+
+// The receiving half of a ratchet, JSON-safe, so messages still in flight (for example held in
+// the server mailbox) can be decrypted after a reload. Sending state is left out on purpose:
+// a restored ratchet could otherwise reuse message keys it already sent with.
+export interface RatchetSnapshot {
+  dhPrivateKey: string;
+  peerDhKey: string;
+  rootKey: string;
+  receiveChainKey: string | null;
+  receiveCount: number;
+  // [`${dh}:${n}`, message key], oldest first
+  skippedKeys: [string, string][];
+}
+
+interface RatchetState {
+  dhPrivateKey: Uint8Array;
+  dhPublicKey: Uint8Array;
+  peerDhKey: Uint8Array;
+  rootKey: Uint8Array;
+  sendChainKey: Uint8Array | null;
+  receiveChainKey: Uint8Array | null;
+  sendCount: number;
+  receiveCount: number;
+  previousSendCount: number;
+  skippedKeys: Map<string, Uint8Array>;
+}
+
+export class RatchetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RatchetError';
+  }
+}
+
+function kdfRoot(rootKey: Uint8Array, dhOutput: Uint8Array): [Uint8Array, Uint8Array] {
+  const okm = hkdf(sha256, dhOutput, rootKey, ROOT_KDF_INFO, 64);
+  return [okm.slice(0, 32), okm.slice(32, 64)];
+}
+
+function kdfChain(chainKey: Uint8Array): [Uint8Array, Uint8Array] {
+  return [hmac(sha256, chainKey, CHAIN_KEY_SEED), hmac(sha256, chainKey, MESSAGE_KEY_SEED)];
+}
+
+function encodeHeader(header: RatchetHeader): Uint8Array {
+  return new TextEncoder().encode(`${header.dh}:${header.pn}:${header.n}`);
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a, 0);
+  result.set(b, a.length);
+  return result;
+}
+
+// Each message key is used exactly once, so a key-derived IV is safe
+async function importMessageKey(messageKey: Uint8Array): Promise<{ key: CryptoKey; iv: Uint8Array }> {
+  const okm = hkdf(sha256, messageKey, new Uint8Array(32), MESSAGE_KDF_INFO, 44);
+  const key = await globalThis.crypto.subtle.importKey(
+    'raw',
+    okm.slice(0, 32),
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  return { key, iv: okm.slice(32, 44) };
+}
+
+function cloneState(state: RatchetState): RatchetState {
+  return { ...state, skippedKeys: new Map(state.skippedKeys) };
+}
+
+function isSnapshot(init: RatchetInit | RatchetSnapshot): init is RatchetSnapshot {
+  return typeof init.rootKey === 'string';
+}
+
+class DoubleRatchet {
+  private state: RatchetState;
+  private pending: Promise<unknown> = Promise.resolve();
+  private receiveOnly: boolean;
+
+  // A ratchet restored from a snapshot can only decrypt
+  constructor(init: RatchetInit | RatchetSnapshot) {
+    this.receiveOnly = isSnapshot(init);
+    if (isSnapshot(init)) {
+      const dhPrivateKey = hexToBytes(init.dhPrivateKey);
+      this.state = {
+        dhPrivateKey,
+        dhPublicKey: x25519.getPublicKey(dhPrivateKey),
+        peerDhKey: hexToBytes(init.peerDhKey),
+        rootKey: hexToBytes(init.rootKey),
+        sendChainKey: null,
+        receiveChainKey: init.receiveChainKey === null ? null : hexToBytes(init.receiveChainKey),
+        sendCount: 0,
+        receiveCount: init.receiveCount,
+        previousSendCount: 0,
+        skippedKeys: new Map(init.skippedKeys.map(([id, key]) => [id, hexToBytes(key)]))
+      };
+      return;
+    }
+    const handshakePublicKey = x25519.getPublicKey(init.handshakePrivateKey);
+    if (init.isInitiator) {
+      const dhPrivateKey = x25519.utils.randomPrivateKey();
+      const [rootKey, sendChainKey] = kdfRoot(
+        init.rootKey,
+        x25519.getSharedSecret(dhPrivateKey, init.peerHandshakeKey)
+      );
+      this.state = {
+        dhPrivateKey,
+        dhPublicKey: x25519.getPublicKey(dhPrivateKey),
+        peerDhKey: init.peerHandshakeKey,
+        rootKey,
+        sendChainKey,
+        receiveChainKey: init.responderChainKey,
+        sendCount: 0,
+        receiveCount: 0,
+        previousSendCount: 0,
+        skippedKeys: new Map()
+      };
+    } else {
+      this.state = {
+        dhPrivateKey: init.handshakePrivateKey,
+        dhPublicKey: handshakePublicKey,
+        peerDhKey: init.peerHandshakeKey,
+        rootKey: init.rootKey,
+        sendChainKey: init.responderChainKey,
+        receiveChainKey: null,
+        sendCount: 0,
+        receiveCount: 0,
+        previousSendCount: 0,
+        skippedKeys: new Map()
+      };
+    }
+  }
+
+  encrypt(plaintext: Uint8Array, associatedData: Uint8Array): Promise<RatchetMessage> {
+    return this.exclusive(async () => {
+      if (this.receiveOnly) {
+        throw new RatchetError('A restored ratchet cannot send');
+      }
+      if (!this.state.sendChainKey) {
+        throw new RatchetError('Sending chain is not initialized');
+      }
+      const [nextChainKey, messageKey] = kdfChain(this.state.sendChainKey);
+      const header: RatchetHeader = {
+        dh: bytesToHex(this.state.dhPublicKey),
+        pn: this.state.previousSendCount,
+        n: this.state.sendCount
+      };
+      this.state.sendChainKey = nextChainKey;
+      this.state.sendCount += 1;
+
+      const { key, iv } = await importMessageKey(messageKey);
+      const ciphertext = await globalThis.crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: concatBytes(associatedData, encodeHeader(header)) },
+        key,
+        plaintext
+      );
+      return { header, ciphertext: new Uint8Array(ciphertext) };
+    });
+  }
+
+  // Works on a copy of the state and only commits it once the ciphertext authenticates,
+  // so a forged or replayed message cannot advance or corrupt the ratchet
+  decrypt(message: RatchetMessage, associatedData: Uint8Array): Promise<Uint8Array> {
+    return this.exclusive(async () => {
+      const { header } = message;
+      if (!Number.isInteger(header.n) || !Number.isInteger(header.pn) || header.n < 0 || header.pn < 0) {
+        throw new RatchetError('Malformed ratchet header');
+      }
+
+      const next = cloneState(this.state);
+      const skippedId = `${header.dh}:${header.n}`;
+      let messageKey = next.skippedKeys.get(skippedId);
+
+      if (messageKey) {
+        next.skippedKeys.delete(skippedId);
+      } else {
+        if (header.dh !== bytesToHex(next.peerDhKey)) {
+          this.skipMessageKeys(next, header.pn);
+          this.dhRatchet(next, hexToBytes(header.dh));
+        }
+        this.skipMessageKeys(next, header.n);
+        if (!next.receiveChainKey) {
+          throw new RatchetError('Receiving chain is not initialized');
+        }
+        const [nextChainKey, derivedKey] = kdfChain(next.receiveChainKey);
+        next.receiveChainKey = nextChainKey;
+        next.receiveCount += 1;
+        messageKey = derivedKey;
+      }
+
+      const { key, iv } = await importMessageKey(messageKey);
+      let plaintext: ArrayBuffer;
+      try {
+        plaintext = await globalThis.crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv, additionalData: concatBytes(associatedData, encodeHeader(header)) },
+          key,
+          message.ciphertext
+        );
+      } catch {
+        throw new RatchetError('Message failed authentication');
+      }
+
+      this.state = next;
+      return new Uint8Array(plaintext);
+    });
+  }
+
+  // Consistent even while an operation is running: decrypt only swaps in its new state at the end
+  exportReceivingState(): RatchetSnapshot {
+    const { dhPrivateKey, peerDhKey, rootKey, receiveChainKey, receiveCount, skippedKeys } = this.state;
+    return {
+      dhPrivateKey: bytesToHex(dhPrivateKey),
+      peerDhKey: bytesToHex(peerDhKey),
+      rootKey: bytesToHex(rootKey),
+      receiveChainKey: receiveChainKey ? bytesToHex(receiveChainKey) : null,
+      receiveCount,
+      skippedKeys: Array.from(skippedKeys, ([id, key]): [string, string] => [id, bytesToHex(key)])
+    };
+  }
+
+  private skipMessageKeys(state: RatchetState, until: number) {
+    if (!state.receiveChainKey) {
+      return;
+    }
+    if (until - state.receiveCount > MAX_SKIP) {
+      throw new RatchetError('Too many skipped messages');
+    }
+    const dh = bytesToHex(state.peerDhKey);
+    while (state.receiveCount < until) {
+      const [nextChainKey, messageKey] = kdfChain(state.receiveChainKey);
+      state.skippedKeys.set(`${dh}:${state.receiveCount}`, messageKey);
+      state.receiveChainKey = nextChainKey;
+      state.receiveCount += 1;
+    }
+    // Maps iterate in insertion order, so the first keys are the oldest
+    while (state.skippedKeys.size > MAX_SKIPPED_KEYS) {
+      const oldest = state.skippedKeys.keys().next().value as string;
+      state.skippedKeys.delete(oldest);
+    }
+  }
+
+  private dhRatchet(state: RatchetState, peerDhKey: Uint8Array) {
+    state.previousSendCount = state.sendCount;
+    state.sendCount = 0;
+    state.receiveCount = 0;
+    state.peerDhKey = peerDhKey;
+
+    const [receiveRootKey, receiveChainKey] = kdfRoot(
+      state.rootKey,
+      x25519.getSharedSecret(state.dhPrivateKey, peerDhKey)
+    );
+    state.receiveChainKey = receiveChainKey;
+
+    state.dhPrivateKey = x25519.utils.randomPrivateKey();
+    state.dhPublicKey = x25519.getPublicKey(state.dhPrivateKey);
+    const [rootKey, sendChainKey] = kdfRoot(
+      receiveRootKey,
+      x25519.getSharedSecret(state.dhPrivateKey, peerDhKey)
+    );
+    state.rootKey = rootKey;
+    state.sendChainKey = sendChainKey;
+  }
+
+  // WebCrypto is async, so operations are chained to keep state updates from interleaving
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(operation);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+}
+
+export default DoubleRatchet;
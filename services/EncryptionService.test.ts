@@ -0,0 +1,215 @@
+import { describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ed25519 } from '@noble/curves/ed25519';
+import { PublicKey } from '@solana/web3.js';
+import WalletEncryptionService, { HandshakeError, HandshakeMessage, IDENTITY_KEY_TTL_MS } from './EncryptionService';
+import { CipherSuite, x25519RatchetSuite } from './cipherSuites';
+import { MemoryStorage } from '../utils/transports';
+
+interface TestWallet {
+  address: string;
+  prompts: number;
+  service: WalletEncryptionService;
+  // Another page load of the same wallet, sharing its storage
+  reload(): TestWallet;
+}
+
+function wallet(suites?: CipherSuite[], storage: Storage | null = null, privateKey = ed25519.utils.randomPrivateKey()): TestWallet {
+  const address = new PublicKey(ed25519.getPublicKey(privateKey)).toBase58();
+  const result = { address, prompts: 0, reload: () => wallet(suites, storage, privateKey) } as TestWallet;
+  result.service = new WalletEncryptionService(address, async message => {
+    result.prompts++;
+    return ed25519.sign(message, privateKey);
+  }, suites, storage);
+  return result;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Same wire behaviour as the ratchet suite under another id, to exercise negotiation
+const otherSuite: CipherSuite = {
+  id: 'test-suite-v1',
+  generateKeyPair: () => x25519RatchetSuite.generateKeyPair(),
+  createSession: params => Object.assign(x25519RatchetSuite.createSession(params), { suite: 'test-suite-v1' }),
+  restoreSession: state => x25519RatchetSuite.restoreSession(state)
+};
+
+describe('WalletEncryptionService', () => {
+  test('verifies a handshake meant for us from the signing wallet', async () => {
+    const alice = wallet();
+    const bob = wallet();
+    const { message } = await alice.service.createHandshake(bob.address);
+    assert.ok(bob.service.verifyHandshake(message, alice.address));
+  });
+
+  test('rejects a handshake relayed to another recipient or claimed by another wallet', async () => {
+    const alice = wallet();
+    const bob = wallet();
+    const carol = wallet();
+    const { message } = await alice.service.createHandshake(bob.address);
+    assert.equal(carol.service.verifyHandshake(message, alice.address), false);
+    assert.equal(bob.service.verifyHandshake(message, carol.address), false);
+  });
+
+  test('rejects tampered handshake fields', async () => {
+    const alice = wallet();
+    const bob = wallet();
+    const mallory = wallet();
+    const { message } = await alice.service.createHandshake(bob.address);
+    const { message: forged } = await mallory.service.createHandshake(bob.address);
+    const suite = message.suites[0];
+    const tampered: HandshakeMessage[] = [
+      { ...message, keys: { [suite]: forged.keys[suite] } },
+      { ...message, suites: [...message.suites, otherSuite.id], keys: { ...message.keys, [otherSuite.id]: forged.keys[suite] } },
+      { ...message, identityKey: forged.identityKey },
+      { ...message, certificate: forged.certificate },
+      { ...message, signature: forged.signature },
+      { ...message, certificateExpiresAt: message.certificateExpiresAt - 1 },
+      { ...message, version: message.version + 1 }
+    ];
+    tampered.forEach(handshake => assert.equal(bob.service.verifyHandshake(handshake, alice.address), false));
+  });
+
+  test('rejects malformed handshakes without throwing', async () => {
+    const alice = wallet();
+    const bob = wallet();
+    const { message } = await alice.service.createHandshake(bob.address);
+    const malformed = [
+      null,
+      { ...message, suites: 'all' },
+      { ...message, keys: null },
+      { ...message, keys: {} },
+      { ...message, signature: 42 },
+      { ...message, certificate: 'not base64 !!' },
+      { ...message, certificateExpiresAt: String(message.certificateExpiresAt) },
+      { ...message, certificateExpiresAt: 1e300 }
+    ] as unknown as HandshakeMessage[];
+    malformed.forEach(handshake => assert.equal(bob.service.verifyHandshake(handshake, alice.address), false));
+    assert.equal(bob.service.verifyHandshake(message, 'not a wallet'), false);
+  });
+
+  test('rejects an expired certificate and one that outlives the identity key lifetime', async () => {
+    const alice = wallet();
+    const bob = wallet();
+    const { message } = await alice.service.createHandshake(bob.address);
+    assert.ok(bob.service.verifyHandshake(message, alice.address, message.certificateExpiresAt - 1));
+    assert.equal(bob.service.verifyHandshake(message, alice.address, message.certificateExpiresAt), false);
+    assert.equal(bob.service.verifyHandshake(message, alice.address, message.certificateExpiresAt - IDENTITY_KEY_TTL_MS - DAY_MS), false);
+  });
+
+  test('asks the wallet to certify the identity key only once', async () => {
+    const alice = wallet();
+    const bob = wallet();
+    assert.equal(alice.service.getIdentityKey(), null);
+    await alice.service.createHandshake(bob.address);
+    await alice.service.createHandshake(bob.address);
+    assert.equal(alice.prompts, 1);
+    assert.ok(alice.service.getIdentityKey());
+  });
+
+  test('keeps the identity key sealed in storage across page loads', async () => {
+    const storage = new MemoryStorage();
+    const alice = wallet(undefined, storage);
+    const bob = wallet();
+    const first = await alice.service.createHandshake(bob.address);
+    // One prompt to certify the key, one for the key it is sealed with
+    assert.equal(alice.prompts, 2);
+    const stored = storage.getItem(`anrox:identity:${alice.address}`)!;
+    assert.equal(stored.includes(first.message.certificate), false);
+    assert.throws(() => JSON.parse(stored));
+
+    const reloaded = alice.reload();
+    const second = await reloaded.service.createHandshake(bob.address);
+    assert.equal(reloaded.prompts, 1);
+    assert.equal(second.message.identityKey, first.message.identityKey);
+    assert.equal(second.message.certificate, first.message.certificate);
+    assert.ok(bob.service.verifyHandshake(second.message, alice.address));
+  });
+
+  test('replaces an identity key stored in the clear', async () => {
+    const storage = new MemoryStorage();
+    const alice = wallet(undefined, storage);
+    const legacyKey = ed25519.utils.randomPrivateKey();
+    storage.setItem(`anrox:identity:${alice.address}`, JSON.stringify({ privateKey: Buffer.from(legacyKey).toString('base64'), certificate: null }));
+    const { message } = await alice.service.createHandshake(wallet().address);
+    assert.notEqual(message.identityKey, Buffer.from(ed25519.getPublicKey(legacyKey)).toString('base64'));
+    assert.equal(storage.getItem(`anrox:identity:${alice.address}`)!.includes(Buffer.from(legacyKey).toString('base64')), false);
+  });
+
+  test('replaces the identity key a day before its certificate expires', async t => {
+    const storage = new MemoryStorage();
+    const alice = wallet(undefined, storage);
+    const bob = wallet();
+    const first = await alice.service.createHandshake(bob.address);
+    t.after(() => mock.restoreAll());
+    const now = Date.now();
+    mock.method(Date, 'now', () => now + IDENTITY_KEY_TTL_MS - DAY_MS + 1);
+    const renewed = await alice.service.createHandshake(bob.address);
+    assert.notEqual(renewed.message.identityKey, first.message.identityKey);
+    assert.ok(bob.service.verifyHandshake(renewed.message, alice.address));
+
+    const reloaded = await alice.reload().service.createHandshake(bob.address);
+    assert.equal(reloaded.message.identityKey, renewed.message.identityKey);
+  });
+
+  test('retries a declined wallet prompt on the next handshake', async () => {
+    const privateKey = ed25519.utils.randomPrivateKey();
+    const address = new PublicKey(ed25519.getPublicKey(privateKey)).toBase58();
+    let decline = true;
+    const service = new WalletEncryptionService(address, async message => {
+      if (decline) {
+        throw new Error('User rejected the request');
+      }
+      return ed25519.sign(message, privateKey);
+    });
+    await assert.rejects(service.createHandshake(wallet().address), /rejected/);
+    decline = false;
+    await service.createHandshake(wallet().address);
+    assert.ok(service.getIdentityKey());
+  });
+
+  test('both sides establish sessions that confirm each other', async () => {
+    const alice = wallet();
+    const bob = wallet();
+    const aliceLocal = await alice.service.createHandshake(bob.address);
+    const bobLocal = await bob.service.createHandshake(alice.address);
+    const aliceSession = alice.service.establishSession(aliceLocal, bobLocal.message, bob.address);
+    const bobSession = bob.service.establishSession(bobLocal, aliceLocal.message, alice.address);
+    assert.ok(bobSession.verifyKeyConfirmation(alice.address, aliceSession.createKeyConfirmation(alice.address)));
+    assert.ok(aliceSession.verifyKeyConfirmation(bob.address, bobSession.createKeyConfirmation(bob.address)));
+  });
+
+  test('the lower wallet address picks the suite', async () => {
+    const [low, high] = [wallet([x25519RatchetSuite, otherSuite]), wallet([otherSuite, x25519RatchetSuite])]
+      .sort((a, b) => (a.address < b.address ? -1 : 1));
+    const lowLocal = await low.service.createHandshake(high.address);
+    const highLocal = await high.service.createHandshake(low.address);
+    const lowSession = low.service.establishSession(lowLocal, highLocal.message, high.address);
+    const highSession = high.service.establishSession(highLocal, lowLocal.message, low.address);
+    assert.equal(lowSession.suite, lowLocal.message.suites[0]);
+    assert.equal(highSession.suite, lowSession.suite);
+  });
+
+  test('fails with a HandshakeError when no suite is shared', async () => {
+    const alice = wallet([x25519RatchetSuite]);
+    const bob = wallet([otherSuite]);
+    const aliceLocal = await alice.service.createHandshake(bob.address);
+    const bobLocal = await bob.service.createHandshake(alice.address);
+    assert.ok(alice.service.verifyHandshake(bobLocal.message, bob.address));
+    assert.throws(() => alice.service.establishSession(aliceLocal, bobLocal.message, bob.address), HandshakeError);
+    assert.throws(() => bob.service.establishSession(bobLocal, aliceLocal.message, alice.address), /No common cipher suite/);
+  });
+
+  test('key confirmation fails when the sides saw different handshakes', async () => {
+    const alice = wallet();
+    const bob = wallet();
+    const aliceLocal = await alice.service.createHandshake(bob.address);
+    const bobLocal = await bob.service.createHandshake(alice.address);
+    // Bob replays an older handshake of Alice's that she no longer holds the keys for
+    const stale = await alice.service.createHandshake(bob.address);
+    const aliceSession = alice.service.establishSession(aliceLocal, bobLocal.message, bob.address);
+    const bobSession = bob.service.establishSession(bobLocal, stale.message, alice.address);
+    assert.equal(bobSession.verifyKeyConfirmation(alice.address, aliceSession.createKeyConfirmation(alice.address)), false);
+    assert.equal(aliceSession.verifyKeyConfirmation(bob.address, bobSession.createKeyConfirmation(bob.address)), false);
+  });
+});
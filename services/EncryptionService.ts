@@ -1,61 +1,347 @@
-class EncryptionService {
-  private encryptionKey: CryptoKey | null = null;
-
-  async generateKeyPair() {
-    return await window.crypto.subtle.generateKey(
-      { name: "ECDH", namedCurve: "P-256" },
-      true,
-      ["deriveKey", "deriveBits"]
-    );
+import { PublicKey } from '@solana/web3.js';
+import { ed25519 } from '@noble/curves/ed25519';
+import { sha256 } from '@noble/hashes/sha256';
+import {
+  CipherSuite,
+  DEFAULT_CIPHER_SUITES,
+  SecureSession,
+  SessionSnapshot,
+  negotiateCipherSuite
+} from './cipherSuites';
+import { importAesKey, seal, unseal } from './aesGcm';
+import { MAX_CLOCK_SKEW_MS } from './ReplayGuard';
+import { createLogger } from '../shared/logger';
+
+const log = createLogger('EncryptionService');
+
+export type { EncryptedEnvelope, EnvelopeMetadata, SecureSession, SessionSnapshot, CipherSuite } from './cipherSuites';
+
+export type MessageSigner = (message: Uint8Array) => Promise<Uint8Array>;
+
+// Bumped when the handshake frame itself changes shape; suites are versioned separately
+export const HANDSHAKE_VERSION = 2;
+
+// How long the wallet's certificate for an identity key is valid. The key is replaced a day
+// before then, and peers refuse it afterwards, so a stolen key stops being useful.
+export const IDENTITY_KEY_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+const IDENTITY_KEY_RENEW_MS = 24 * 60 * 60 * 1000;
+
+// What each side sends in an `ecdh-public-key` frame
+export interface HandshakeMessage {
+  version: number;
+  suites: string[];
+  // One ephemeral public key per offered suite, so the handshake completes in a single round
+  keys: Record<string, string>;
+  identityKey: string;
+  certificate: string;
+  // Milliseconds since the epoch; covered by the certificate
+  certificateExpiresAt: number;
+  signature: string;
+}
+
+export interface LocalHandshake {
+  message: HandshakeMessage;
+  privateKeys: Record<string, Uint8Array>;
+}
+
+// Everything ConnectionManager needs from the crypto layer
+export interface EncryptionService {
+  getSupportedSuites(): string[];
+  // Our base64 identity key, as peers see it in the handshake; null until the first handshake
+  getIdentityKey(): string | null;
+  createHandshake(recipient: string): Promise<LocalHandshake>;
+  verifyHandshake(handshake: HandshakeMessage, sender: string, now?: number): boolean;
+  establishSession(local: LocalHandshake, remote: HandshakeMessage, peer: string): SecureSession;
+  // A decrypt-only session rebuilt from SecureSession.exportReceivingState()
+  restoreSession(snapshot: SessionSnapshot): SecureSession;
+}
+
+export class HandshakeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HandshakeError';
   }
+}
+
+// The wallet signs this once per identity key to vouch for its identity key
+function buildKeyCertificateMessage(walletPublicKey: string, keyBase64: string, expiresAt: number): string {
+  return `AnRox key exchange\nWallet: ${walletPublicKey}\nKey: ${keyBase64}\nExpires: ${new Date(expiresAt).toISOString()}`;
+}
+
+// Signed once per page load to derive the key the stored identity key is sealed with
+function buildIdentityStorageKeyMessage(walletPublicKey: string): string {
+  return `AnRox identity key storage\nWallet: ${walletPublicKey}\nOnly sign this in AnRox: it unlocks your identity key.`;
+}
+
+// The identity key signs this to bind a session's keys and suite offer to both ends of the conversation
+function buildHandshakeBinding(sender: string, recipient: string, handshake: HandshakeMessage): string {
+  const keys = handshake.suites.map(suite => `${suite}=${handshake.keys[suite]}`).join(',');
+  return `AnRox handshake v${handshake.version}\nSender: ${sender}\nRecipient: ${recipient}\nSuites: ${handshake.suites.join(',')}\nKeys: ${keys}`;
+}
+
+// Both sides order the parties by wallet address so they hash the same transcript. Both full
+// suite offers are included, so a tampered offer that forces a weaker suite changes the keys.
+function buildHandshakeTranscript(suite: string, parties: { wallet: string; handshake: HandshakeMessage }[]): Uint8Array {
+  const ordered = [...parties].sort((a, b) => (a.wallet < b.wallet ? -1 : 1));
+  const lines = [`AnRox handshake transcript v${HANDSHAKE_VERSION}`, suite];
+  ordered.forEach(({ wallet, handshake }) => {
+    lines.push(wallet, handshake.identityKey, handshake.suites.join(','), handshake.keys[suite]);
+  });
+  return sha256(new TextEncoder().encode(lines.join('\n')));
+}
+
+interface Identity {
+  privateKey: Uint8Array;
+  publicKey: Uint8Array;
+  certificate: string;
+  expiresAt: number;
+}
+
+// The identity key is kept per wallet so the safety number peers verify stays the same across
+// page loads. The wallet's certificate for it is kept too, and both are sealed with a key
+// derived from a wallet signature, as message history is.
+interface StoredIdentity {
+  privateKey: string;
+  certificate: string;
+  expiresAt: number;
+}
 
-  async exportPublicKey(publicKey: CryptoKey) {
-    return await window.crypto.subtle.exportKey("jwk", publicKey);
+const IDENTITY_STORAGE_KEY_INFO = 'AnRox identity storage v1';
+const IDENTITY_SEAL_LABEL = 'identity';
+
+function identityStorageKey(walletPublicKey: string): string {
+  return `anrox:identity:${walletPublicKey}`;
+}
+
+function parseStoredIdentity(plaintext: string): Identity | null {
+  const stored: Partial<StoredIdentity> | null = JSON.parse(plaintext);
+  if (typeof stored?.privateKey !== 'string' || typeof stored.certificate !== 'string' ||
+      !Number.isSafeInteger(stored.expiresAt)) {
+    return null;
+  }
+  const privateKey = Buffer.from(stored.privateKey, 'base64');
+  if (privateKey.length !== 32) {
+    return null;
   }
+  return {
+    privateKey,
+    publicKey: ed25519.getPublicKey(privateKey),
+    certificate: stored.certificate,
+    expiresAt: stored.expiresAt as number
+  };
+}
 
-  async deriveSharedSecret(privateKey: CryptoKey, peerPublicKeyJwk: JsonWebKey) {
-    const peerPublicKey = await window.crypto.subtle.importKey(
-      "jwk", peerPublicKeyJwk, { name: "ECDH", namedCurve: "P-256" }, true, []
-    );
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
 
-    const sharedSecret = await window.crypto.subtle.deriveBits(
-      { name: "ECDH", public: peerPublicKey }, privateKey, 256
-    );
+class WalletEncryptionService implements EncryptionService {
+  private walletPublicKey: string;
+  private signMessage: MessageSigner;
+  private suites: CipherSuite[];
+  private storage: Storage | null;
+  private identity: Promise<Identity> | null = null;
+  // The identity once loaded, for synchronous reads
+  private currentIdentity: Identity | null = null;
+  private sealingKey: Promise<CryptoKey> | null = null;
 
-    this.encryptionKey = await window.crypto.subtle.importKey(
-      "raw", sharedSecret, { name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]
-    );
+  // Without storage a fresh identity key is made for every instance. The identity is loaded on
+  // the first handshake, which is when the wallet is asked to sign.
+  constructor(walletPublicKey: string, signMessage: MessageSigner, suites: CipherSuite[] = DEFAULT_CIPHER_SUITES, storage: Storage | null = null) {
+    this.walletPublicKey = walletPublicKey;
+    this.signMessage = signMessage;
+    this.suites = suites;
+    this.storage = storage;
+  }
+
+  getSupportedSuites(): string[] {
+    return this.suites.map(suite => suite.id);
   }
 
-  async encryptMessage(message: string): Promise<string> {
-    if (!this.encryptionKey) throw new Error("Encryption key not set");
+  getIdentityKey(): string | null {
+    return this.currentIdentity ? Buffer.from(this.currentIdentity.publicKey).toString('base64') : null;
+  }
 
-    const encodedMessage = new TextEncoder().encode(message);
-    const iv = window.crypto.getRandomValues(new Uint8Array(12));
-    const encryptedData = await window.crypto.subtle.encrypt(
-      { name: "AES-GCM", iv: iv }, this.encryptionKey, encodedMessage
-    );
+  async createHandshake(recipient: string): Promise<LocalHandshake> {
+    const identity = await this.getIdentity();
+    const privateKeys: Record<string, Uint8Array> = {};
+    const keys: Record<string, string> = {};
+    // Fresh keys per session; the identity key only ever signs them
+    this.suites.forEach(suite => {
+      const { privateKey, publicKey } = suite.generateKeyPair();
+      privateKeys[suite.id] = privateKey;
+      keys[suite.id] = Buffer.from(publicKey).toString('base64');
+    });
 
-    const result = new Uint8Array(iv.length + encryptedData.byteLength);
-    result.set(iv, 0);
-    result.set(new Uint8Array(encryptedData), iv.length);
+    const message: HandshakeMessage = {
+      version: HANDSHAKE_VERSION,
+      suites: this.getSupportedSuites(),
+      keys,
+      identityKey: Buffer.from(identity.publicKey).toString('base64'),
+      certificate: identity.certificate,
+      certificateExpiresAt: identity.expiresAt,
+      signature: ''
+    };
+    const binding = new TextEncoder().encode(buildHandshakeBinding(this.walletPublicKey, recipient, message));
+    message.signature = Buffer.from(ed25519.sign(binding, identity.privateKey)).toString('base64');
 
-    return btoa(String.fromCharCode.apply(null, result as unknown as number[]));
+    return { message, privateKeys };
   }
 
-  async decryptMessage(encryptedMessage: string): Promise<string> {
-    if (!this.encryptionKey) throw new Error("Encryption key not set");
+  verifyHandshake(handshake: HandshakeMessage, sender: string, now: number = Date.now()): boolean {
+    if (!handshake || handshake.version !== HANDSHAKE_VERSION || !isStringArray(handshake.suites) ||
+        typeof handshake.keys !== 'object' || handshake.keys === null ||
+        !handshake.suites.every(suite => typeof handshake.keys[suite] === 'string') ||
+        typeof handshake.identityKey !== 'string' || typeof handshake.certificate !== 'string' ||
+        typeof handshake.signature !== 'string' || !Number.isSafeInteger(handshake.certificateExpiresAt)) {
+      return false;
+    }
+    // An expired certificate, or one that outlives any we would issue
+    if (handshake.certificateExpiresAt <= now || handshake.certificateExpiresAt > now + IDENTITY_KEY_TTL_MS + MAX_CLOCK_SKEW_MS) {
+      return false;
+    }
+    try {
+      // The wallet vouches for the identity key until the certificate expires...
+      const walletKey = new PublicKey(sender).toBytes();
+      const certificateMessage = new TextEncoder().encode(
+        buildKeyCertificateMessage(sender, handshake.identityKey, handshake.certificateExpiresAt)
+      );
+      if (!ed25519.verify(Buffer.from(handshake.certificate, 'base64'), certificateMessage, walletKey)) {
+        return false;
+      }
+      // ...and the identity key vouches for this session's keys
+      const binding = new TextEncoder().encode(buildHandshakeBinding(sender, this.walletPublicKey, handshake));
+      return ed25519.verify(
+        Buffer.from(handshake.signature, 'base64'),
+        binding,
+        Buffer.from(handshake.identityKey, 'base64')
+      );
+    } catch (error) {
+      log.error('Error verifying handshake signatures', { error });
+      return false;
+    }
+  }
+
+  // The lower wallet address gets to prefer its suite and takes the ratchet's initiator role,
+  // so both sides agree even when they initiated at the same time
+  establishSession(local: LocalHandshake, remote: HandshakeMessage, peer: string): SecureSession {
+    const weAreLow = this.walletPublicKey < peer;
+    const suiteId = weAreLow
+      ? negotiateCipherSuite(local.message.suites, remote.suites)
+      : negotiateCipherSuite(remote.suites, local.message.suites);
+    const suite = this.suites.find(candidate => candidate.id === suiteId);
+    if (!suiteId || !suite) {
+      throw new HandshakeError(`No common cipher suite (offered: ${remote.suites.join(', ')})`);
+    }
+
+    const transcript = buildHandshakeTranscript(suiteId, [
+      { wallet: this.walletPublicKey, handshake: local.message },
+      { wallet: peer, handshake: remote }
+    ]);
+    return suite.createSession({
+      privateKey: local.privateKeys[suiteId],
+      peerPublicKey: Buffer.from(remote.keys[suiteId], 'base64'),
+      transcript,
+      isInitiator: weAreLow
+    });
+  }
+
+  restoreSession(snapshot: SessionSnapshot): SecureSession {
+    const suite = this.suites.find(candidate => candidate.id === snapshot.suite);
+    if (!suite) {
+      throw new HandshakeError(`Unsupported cipher suite ${snapshot.suite}`);
+    }
+    return suite.restoreSession(snapshot.state);
+  }
 
-    const encryptedData = Uint8Array.from(atob(encryptedMessage), c => c.charCodeAt(0));
-    const iv = encryptedData.slice(0, 12);
-    const data = encryptedData.slice(12);
+  // A key close to expiry is replaced, which peers who verified the old one are warned about
+  private getIdentity(): Promise<Identity> {
+    if (this.currentIdentity && this.currentIdentity.expiresAt - Date.now() < IDENTITY_KEY_RENEW_MS) {
+      this.currentIdentity = null;
+      this.identity = null;
+    }
+    if (!this.identity) {
+      const identity = this.loadIdentity()
+        .then(stored => stored ?? this.createIdentity())
+        .then(loaded => {
+          this.currentIdentity = loaded;
+          return loaded;
+        });
+      this.identity = identity;
+      identity.catch(() => {
+        // Let a rejected wallet prompt be retried on the next handshake
+        if (this.identity === identity) {
+          this.identity = null;
+        }
+      });
+    }
+    return this.identity;
+  }
+
+  private async loadIdentity(): Promise<Identity | null> {
+    const sealed = this.storage?.getItem(identityStorageKey(this.walletPublicKey));
+    if (!sealed) {
+      return null;
+    }
+    // Outside the try: a declined prompt must not be mistaken for an unreadable key and replace it
+    const sealingKey = await this.getSealingKey();
+    try {
+      const plaintext = await unseal(sealingKey, IDENTITY_SEAL_LABEL, sealed);
+      // Keys stored in the clear by earlier versions are replaced
+      const identity = plaintext === null ? null : parseStoredIdentity(plaintext);
+      if (identity && identity.expiresAt - Date.now() >= IDENTITY_KEY_RENEW_MS) {
+        return identity;
+      }
+    } catch (error) {
+      log.error('Ignoring unreadable identity key', { error });
+    }
+    return null;
+  }
 
-    const decryptedData = await window.crypto.subtle.decrypt(
-      { name: "AES-GCM", iv: iv }, this.encryptionKey, data
+  private async createIdentity(): Promise<Identity> {
+    const privateKey = ed25519.utils.randomPrivateKey();
+    const publicKey = ed25519.getPublicKey(privateKey);
+    const expiresAt = Date.now() + IDENTITY_KEY_TTL_MS;
+    const message = new TextEncoder().encode(
+      buildKeyCertificateMessage(this.walletPublicKey, Buffer.from(publicKey).toString('base64'), expiresAt)
     );
+    const certificate = Buffer.from(await this.signMessage(message)).toString('base64');
+    const identity = { privateKey, publicKey, certificate, expiresAt };
+    await this.saveIdentity(identity);
+    return identity;
+  }
+
+  // An identity that cannot be stored is still used for this page load
+  private async saveIdentity(identity: Identity) {
+    if (!this.storage) {
+      return;
+    }
+    const stored: StoredIdentity = {
+      privateKey: Buffer.from(identity.privateKey).toString('base64'),
+      certificate: identity.certificate,
+      expiresAt: identity.expiresAt
+    };
+    try {
+      const sealed = await seal(await this.getSealingKey(), IDENTITY_SEAL_LABEL, JSON.stringify(stored));
+      this.storage.setItem(identityStorageKey(this.walletPublicKey), sealed);
+    } catch (error) {
+      log.error('Could not store the identity key', { error });
+    }
+  }
 
-    return new TextDecoder().decode(decryptedData);
+  private getSealingKey(): Promise<CryptoKey> {
+    if (!this.sealingKey) {
+      const message = new TextEncoder().encode(buildIdentityStorageKeyMessage(this.walletPublicKey));
+      const sealingKey = this.signMessage(message).then(signature => importAesKey(signature, IDENTITY_STORAGE_KEY_INFO));
+      this.sealingKey = sealingKey;
+      sealingKey.catch(() => {
+        if (this.sealingKey === sealingKey) {
+          this.sealingKey = null;
+        }
+      });
+    }
+    return this.sealingKey;
   }
 }
 
-export default EncryptionService;
\ No newline at end of file
+export default WalletEncryptionService;
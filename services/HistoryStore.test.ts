@@ -0,0 +1,78 @@
+import 'fake-indexeddb/auto';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { IDBFactory } from 'fake-indexeddb';
+import { ed25519 } from '@noble/curves/ed25519';
+import HistoryStore, { HistoryError, HistoryMessage } from './HistoryStore';
+import type { MessageSigner } from './EncryptionService';
+
+const WALLET = 'AliceWallet';
+const PEER = 'BobWallet';
+
+// Ed25519 signatures are deterministic, so the same seed always derives the same history key
+function signer(seed = ed25519.utils.randomPrivateKey()): MessageSigner {
+  return async message => ed25519.sign(message, seed);
+}
+
+function messages(count: number, conversationId = PEER): HistoryMessage[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `m${i}`,
+    conversationId,
+    sender: i % 2 ? PEER : WALLET,
+    text: `message ${i}`,
+    timestamp: 1000 + i
+  }));
+}
+
+describe('HistoryStore', () => {
+  test('pages backwards from the newest message, each page oldest first', async () => {
+    const store = await HistoryStore.open(WALLET, signer(), new IDBFactory());
+    // Stored out of order, and with a tie on the timestamp that the id settles
+    await store.addMessages([...messages(5).reverse(), { ...messages(1)[0], id: 'm0b' }]);
+    await store.addMessages(messages(2, 'room:other'));
+
+    const newest = await store.getMessages(PEER, null, 4);
+    assert.deepEqual(newest.messages.map(({ id }) => id), ['m1', 'm2', 'm3', 'm4']);
+    assert.deepEqual(newest.nextCursor, { timestamp: 1001, id: 'm1' });
+
+    const oldest = await store.getMessages(PEER, newest.nextCursor, 4);
+    assert.deepEqual(oldest.messages.map(({ id }) => id), ['m0', 'm0b']);
+    assert.equal(oldest.nextCursor, null);
+    assert.deepEqual((await store.listConversations()).sort(), [PEER, 'room:other']);
+    store.close();
+  });
+
+  test('an exported archive imports into a fresh store with every message intact', async () => {
+    const sign = signer();
+    const original = messages(3);
+    original[1].attachment = { name: 'photo.png', mimeType: 'image/png', size: 2048 };
+    const store = await HistoryStore.open(WALLET, sign, new IDBFactory());
+    await store.addMessages(original);
+    const archive = await store.exportConversation(PEER);
+    store.close();
+
+    const restored = await HistoryStore.open(WALLET, sign, new IDBFactory());
+    assert.deepEqual(await restored.importArchive(archive), { conversationId: PEER, imported: 3 });
+    const { messages: imported } = await restored.getMessages(PEER);
+    // Round-tripped through JSON because messages without an attachment come back with it undefined
+    assert.deepEqual(imported.map(message => JSON.parse(JSON.stringify(message))), original);
+    restored.close();
+  });
+
+  test('refuses an archive it cannot decrypt or that another wallet exported', async () => {
+    const store = await HistoryStore.open(WALLET, signer(), new IDBFactory());
+    await store.addMessages(messages(2));
+    const archive = await store.exportConversation(PEER);
+    store.close();
+
+    const wrongKey = await HistoryStore.open(WALLET, signer(), new IDBFactory());
+    await assert.rejects(wrongKey.importArchive(archive), /could not be decrypted/);
+    assert.deepEqual((await wrongKey.getMessages(PEER)).messages, []);
+    await assert.rejects(wrongKey.importArchive(new Blob(['not json'])), HistoryError);
+    wrongKey.close();
+
+    const otherWallet = await HistoryStore.open('CarolWallet', signer(), new IDBFactory());
+    await assert.rejects(otherWallet.importArchive(archive), /different wallet/);
+    otherWallet.close();
+  });
+});
@@ -0,0 +1,336 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { hkdf } from '@noble/hashes/hkdf';
+import { hmac } from '@noble/hashes/hmac';
+import { bytesToHex } from '@noble/hashes/utils';
+import { decrypt, encrypt, importAesKey, seal, unseal } from './aesGcm';
+import type { MessageSigner } from './EncryptionService';
+
+// Message history kept in IndexedDB, encrypted at rest. The key comes from a wallet signature
+// over a fixed message; ed25519 signatures are deterministic, so the same wallet derives the
+// same key in any browser, which is what lets an exported archive be imported elsewhere.
+//
+// Each record is keyed by [conversation tag, timestamp, id]. The tag is an HMAC of the
+// conversation id, so the database does not name peers; timestamps are left in the clear
+// so pages can be read in order without decrypting everything.
+
+export const HISTORY_PAGE_SIZE = 50;
+export const ARCHIVE_FORMAT = 'anrox-history-archive';
+export const ARCHIVE_VERSION = 1;
+
+const DB_VERSION = 1;
+const MESSAGE_STORE = 'messages';
+const CONVERSATION_STORE = 'conversations';
+const KEY_INFO = {
+  storage: 'AnRox history storage v1',
+  tags: 'AnRox history tags v1',
+  archive: 'AnRox history archive v1'
+};
+
+// History is keyed by conversation id: a peer's wallet address, or this for a group room
+export function roomConversationId(roomId: string): string {
+  return `room:${roomId}`;
+}
+
+export interface HistoryAttachment {
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface HistoryMessage {
+  id: string;
+  conversationId: string;
+  sender: string;
+  text: string;
+  timestamp: number;
+  // Attachments are recorded by description only; their bytes are not kept
+  attachment?: HistoryAttachment;
+}
+
+// Continue reading older messages from here
+export interface HistoryCursor {
+  timestamp: number;
+  id: string;
+}
+
+export interface HistoryPage {
+  // Oldest first
+  messages: HistoryMessage[];
+  // Null once the start of the conversation has been reached
+  nextCursor: HistoryCursor | null;
+}
+
+interface EncryptedRecord {
+  tag: string;
+  timestamp: number;
+  id: string;
+  iv: Uint8Array;
+  ciphertext: Uint8Array;
+}
+
+interface ConversationRecord {
+  tag: string;
+  iv: Uint8Array;
+  ciphertext: Uint8Array;
+}
+
+interface EncryptedArchive {
+  format: string;
+  version: number;
+  wallet: string;
+  iv: string;
+  ciphertext: string;
+}
+
+export class HistoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryError';
+  }
+}
+
+function buildHistoryKeyMessage(walletPublicKey: string): string {
+  return `AnRox message history key\nWallet: ${walletPublicKey}\nOnly sign this in AnRox: it unlocks your stored messages.`;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new HistoryError('Transaction aborted'));
+  });
+}
+
+function openDatabase(factory: IDBFactory, name: string): Promise<IDBDatabase> {
+  const request = factory.open(name, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    db.createObjectStore(MESSAGE_STORE, { keyPath: ['tag', 'timestamp', 'id'] });
+    db.createObjectStore(CONVERSATION_STORE, { keyPath: 'tag' });
+  };
+  return requestToPromise(request);
+}
+
+// Binds each ciphertext to its position, so records cannot be moved between conversations
+function recordAdditionalData(tag: string, timestamp: number, id: string): string {
+  return JSON.stringify([tag, timestamp, id]);
+}
+
+function archiveAdditionalData(wallet: string): string {
+  return JSON.stringify([ARCHIVE_FORMAT, ARCHIVE_VERSION, wallet]);
+}
+
+class HistoryStore {
+  private db: IDBDatabase;
+  private walletPublicKey: string;
+  private storageKey: CryptoKey;
+  private archiveKey: CryptoKey;
+  private tagKey: Uint8Array;
+
+  private constructor(db: IDBDatabase, walletPublicKey: string, storageKey: CryptoKey, archiveKey: CryptoKey, tagKey: Uint8Array) {
+    this.db = db;
+    this.walletPublicKey = walletPublicKey;
+    this.storageKey = storageKey;
+    this.archiveKey = archiveKey;
+    this.tagKey = tagKey;
+  }
+
+  // Asks the wallet for one signature; rejects if the user declines
+  static async open(walletPublicKey: string, signMessage: MessageSigner, factory: IDBFactory = globalThis.indexedDB): Promise<HistoryStore> {
+    if (!factory) {
+      throw new HistoryError('IndexedDB is not available');
+    }
+    const signature = await signMessage(new TextEncoder().encode(buildHistoryKeyMessage(walletPublicKey)));
+    const [storageKey, archiveKey] = await Promise.all([
+      importAesKey(signature, KEY_INFO.storage),
+      importAesKey(signature, KEY_INFO.archive)
+    ]);
+    const tagKey = hkdf(sha256, signature, new Uint8Array(32), KEY_INFO.tags, 32);
+    const db = await openDatabase(factory, `anrox-history-${walletPublicKey}`);
+    return new HistoryStore(db, walletPublicKey, storageKey, archiveKey, tagKey);
+  }
+
+  async addMessages(messages: HistoryMessage[]) {
+    if (messages.length === 0) {
+      return;
+    }
+    const records = await Promise.all(messages.map(message => this.encryptMessage(message)));
+    const conversations = await Promise.all(
+      Array.from(new Set(messages.map(message => message.conversationId))).map(conversationId => this.encryptConversation(conversationId))
+    );
+    const transaction = this.db.transaction([MESSAGE_STORE, CONVERSATION_STORE], 'readwrite');
+    records.forEach(record => transaction.objectStore(MESSAGE_STORE).put(record));
+    conversations.forEach(record => transaction.objectStore(CONVERSATION_STORE).put(record));
+    await transactionDone(transaction);
+  }
+
+  async addMessage(message: HistoryMessage) {
+    await this.addMessages([message]);
+  }
+
+  // Reads backwards from the cursor (or the newest message) and returns the page oldest first
+  async getMessages(conversationId: string, cursor: HistoryCursor | null = null, limit: number = HISTORY_PAGE_SIZE): Promise<HistoryPage> {
+    const tag = this.tagFor(conversationId);
+    const upper = cursor ? [tag, cursor.timestamp, cursor.id] : [tag, Infinity, ''];
+    const range = IDBKeyRange.bound([tag, -Infinity, ''], upper, false, true);
+    const transaction = this.db.transaction(MESSAGE_STORE, 'readonly');
+    const request = transaction.objectStore(MESSAGE_STORE).openCursor(range, 'prev');
+
+    const records: EncryptedRecord[] = [];
+    let hasMore = false;
+    await new Promise<void>((resolve, reject) => {
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursorResult = request.result;
+        if (!cursorResult) {
+          resolve();
+          return;
+        }
+        if (records.length === limit) {
+          hasMore = true;
+          resolve();
+          return;
+        }
+        records.push(cursorResult.value as EncryptedRecord);
+        cursorResult.continue();
+      };
+    });
+
+    const messages = await Promise.all(records.map(record => this.decryptMessage(record, conversationId)));
+    const oldest = records[records.length - 1];
+    return {
+      messages: messages.reverse(),
+      nextCursor: hasMore && oldest ? { timestamp: oldest.timestamp, id: oldest.id } : null
+    };
+  }
+
+  async listConversations(): Promise<string[]> {
+    const transaction = this.db.transaction(CONVERSATION_STORE, 'readonly');
+    const records = await requestToPromise(transaction.objectStore(CONVERSATION_STORE).getAll()) as ConversationRecord[];
+    return Promise.all(records.map(record => decrypt(this.storageKey, record.iv, record.ciphertext, record.tag)));
+  }
+
+  async deleteConversation(conversationId: string) {
+    const tag = this.tagFor(conversationId);
+    const transaction = this.db.transaction([MESSAGE_STORE, CONVERSATION_STORE], 'readwrite');
+    transaction.objectStore(MESSAGE_STORE).delete(IDBKeyRange.bound([tag, -Infinity, ''], [tag, Infinity, '']));
+    transaction.objectStore(CONVERSATION_STORE).delete(tag);
+    await transactionDone(transaction);
+  }
+
+  // The whole conversation, encrypted under a key only this wallet can derive
+  async exportConversation(conversationId: string): Promise<Blob> {
+    const messages: HistoryMessage[] = [];
+    let cursor: HistoryCursor | null = null;
+    do {
+      const page: HistoryPage = await this.getMessages(conversationId, cursor);
+      messages.unshift(...page.messages);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    const { iv, ciphertext } = await encrypt(
+      this.archiveKey,
+      JSON.stringify({ conversationId, messages }),
+      archiveAdditionalData(this.walletPublicKey)
+    );
+    const archive: EncryptedArchive = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      wallet: this.walletPublicKey,
+      iv: Buffer.from(iv).toString('base64'),
+      ciphertext: Buffer.from(ciphertext).toString('base64')
+    };
+    return new Blob([JSON.stringify(archive)], { type: 'application/json' });
+  }
+
+  // Messages already present are overwritten with the same content, so importing twice is harmless
+  async importArchive(file: Blob): Promise<{ conversationId: string; imported: number }> {
+    let archive: EncryptedArchive;
+    try {
+      archive = JSON.parse(await file.text());
+    } catch {
+      throw new HistoryError('The file is not a history archive');
+    }
+    if (archive?.format !== ARCHIVE_FORMAT || archive.version !== ARCHIVE_VERSION) {
+      throw new HistoryError('The file is not a supported history archive');
+    }
+    if (archive.wallet !== this.walletPublicKey) {
+      throw new HistoryError('The archive was exported by a different wallet');
+    }
+
+    let contents: { conversationId: string; messages: HistoryMessage[] };
+    try {
+      contents = JSON.parse(await decrypt(
+        this.archiveKey,
+        Buffer.from(archive.iv, 'base64'),
+        Buffer.from(archive.ciphertext, 'base64'),
+        archiveAdditionalData(archive.wallet)
+      ));
+    } catch {
+      throw new HistoryError('The archive could not be decrypted');
+    }
+
+    const messages = contents.messages.map(message => ({ ...message, conversationId: contents.conversationId }));
+    await this.addMessages(messages);
+    return { conversationId: contents.conversationId, imported: messages.length };
+  }
+
+  // Encrypts small values kept outside the database, such as the outbound message queue,
+  // under the history key. The label keeps values for different purposes apart.
+  seal(label: string, plaintext: string): Promise<string> {
+    return seal(this.storageKey, label, plaintext);
+  }
+
+  async unseal(label: string, sealed: string): Promise<string> {
+    const plaintext = await unseal(this.storageKey, label, sealed);
+    if (plaintext === null) {
+      throw new HistoryError('Sealed value is malformed');
+    }
+    return plaintext;
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  private tagFor(conversationId: string): string {
+    return bytesToHex(hmac(sha256, this.tagKey, new TextEncoder().encode(conversationId)));
+  }
+
+  private async encryptMessage(message: HistoryMessage): Promise<EncryptedRecord> {
+    const tag = this.tagFor(message.conversationId);
+    const { sender, text, attachment } = message;
+    const { iv, ciphertext } = await encrypt(
+      this.storageKey,
+      JSON.stringify({ sender, text, attachment }),
+      recordAdditionalData(tag, message.timestamp, message.id)
+    );
+    return { tag, timestamp: message.timestamp, id: message.id, iv, ciphertext };
+  }
+
+  private async decryptMessage(record: EncryptedRecord, conversationId: string): Promise<HistoryMessage> {
+    const plaintext = await decrypt(
+      this.storageKey,
+      record.iv,
+      record.ciphertext,
+      recordAdditionalData(record.tag, record.timestamp, record.id)
+    );
+    const { sender, text, attachment } = JSON.parse(plaintext);
+    return { id: record.id, conversationId, sender, text, timestamp: record.timestamp, attachment };
+  }
+
+  private async encryptConversation(conversationId: string): Promise<ConversationRecord> {
+    const tag = this.tagFor(conversationId);
+    const { iv, ciphertext } = await encrypt(this.storageKey, conversationId, tag);
+    return { tag, iv, ciphertext };
+  }
+}
+
+export default HistoryStore;
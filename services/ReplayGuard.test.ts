@@ -0,0 +1,56 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import ReplayGuard, { MAX_MAILBOX_MESSAGE_AGE_MS, MAX_MESSAGE_AGE_MS, REORDER_WINDOW } from './ReplayGuard';
+import { EnvelopeMetadata } from './cipherSuites';
+
+const now = 1700000000000;
+
+function meta(counter: number, overrides: Partial<EnvelopeMetadata> = {}): EnvelopeMetadata {
+  return { sender: 'alice', recipient: 'bob', counter, id: `id${counter}`, timestamp: now, ...overrides };
+}
+
+describe('ReplayGuard', () => {
+  test('rejects messages for someone else or from someone else', () => {
+    const guard = new ReplayGuard('bob', 'alice');
+    assert.throws(() => guard.check(meta(0, { recipient: 'carol' }), now), /different recipient/);
+    assert.throws(() => guard.check(meta(0, { sender: 'mallory' }), now), /does not match/);
+    assert.throws(() => guard.check({ ...meta(0), counter: -1 }, now), /malformed/);
+  });
+
+  test('rejects duplicates and counters behind the reorder window', () => {
+    const guard = new ReplayGuard('bob', 'alice');
+    guard.accept(meta(REORDER_WINDOW + 5));
+    assert.throws(() => guard.check(meta(REORDER_WINDOW + 5), now), /already received/);
+    assert.throws(() => guard.check(meta(100, { id: `id${REORDER_WINDOW + 5}` }), now), /already received/);
+    assert.throws(() => guard.check(meta(5), now), /reorder window/);
+    guard.check(meta(6), now);
+  });
+
+  test('allows mailbox messages to be as old as the mailbox keeps them', () => {
+    const guard = new ReplayGuard('bob', 'alice');
+    const hourOld = meta(0, { timestamp: now - 60 * 60 * 1000 });
+    assert.throws(() => guard.check(hourOld, now), /too old/);
+    guard.check(hourOld, now, MAX_MAILBOX_MESSAGE_AGE_MS);
+    assert.throws(() => guard.check(meta(0, { timestamp: now - MAX_MAILBOX_MESSAGE_AGE_MS - 1 }), now, MAX_MAILBOX_MESSAGE_AGE_MS), /too old/);
+    assert.ok(MAX_MAILBOX_MESSAGE_AGE_MS > MAX_MESSAGE_AGE_MS);
+  });
+
+  test('a restored guard remembers what was accepted', () => {
+    const guard = new ReplayGuard('bob', 'alice');
+    guard.accept(meta(0));
+    guard.accept(meta(1));
+    const restored = new ReplayGuard('bob', 'alice', JSON.parse(JSON.stringify(guard.exportState())));
+    assert.ok(restored.hasSeen(meta(1)));
+    assert.equal(restored.hasSeen(meta(2)), false);
+    assert.throws(() => restored.check(meta(0), now), /already received/);
+    restored.check(meta(2), now);
+  });
+
+  test('recognises a message by its id regardless of counter', () => {
+    const guard = new ReplayGuard('bob', 'alice');
+    guard.accept(meta(0));
+    // A new session's counters start over, so only the id marks a duplicate
+    assert.equal(guard.hasSeen(meta(0, { id: 'fresh' })), false);
+    assert.ok(guard.hasSeen(meta(9, { id: 'id0' })));
+  });
+});
@@ -0,0 +1,106 @@
+import { EnvelopeMetadata } from './cipherSuites';
+import { MAILBOX_TTL_MS } from '../shared/protocol';
+
+// Messages older than this are refused even if they would still decrypt
+export const MAX_MESSAGE_AGE_MS = 5 * 60 * 1000;
+// Messages delivered from the server mailbox may legitimately be as old as the mailbox keeps them
+export const MAX_MAILBOX_MESSAGE_AGE_MS = MAILBOX_TTL_MS;
+// Tolerance for peers whose clocks run ahead of ours
+export const MAX_CLOCK_SKEW_MS = 60 * 1000;
+// How far behind the newest counter a late message may arrive
+export const REORDER_WINDOW = 256;
+// Bounds on remembered message IDs and counters
+const MAX_SEEN_IDS = 1000;
+
+// What the guard has accepted so far, JSON-safe, so it can be restored along with the session
+export interface ReplayGuardSnapshot {
+  highestCounter: number;
+  seenCounters: number[];
+  seenIds: string[];
+}
+
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayError';
+  }
+}
+
+// Tracks what one session has already accepted from its peer. `check` runs before
+// decryption and `accept` only after the metadata has been authenticated, so forged
+// envelopes can never poison the seen sets.
+class ReplayGuard {
+  private localPublicKey: string;
+  private peerPublicKey: string;
+  private highestCounter = -1;
+  private seenCounters = new Set<number>();
+  private seenIds = new Set<string>();
+
+  constructor(localPublicKey: string, peerPublicKey: string, snapshot: ReplayGuardSnapshot | null = null) {
+    this.localPublicKey = localPublicKey;
+    this.peerPublicKey = peerPublicKey;
+    if (snapshot) {
+      this.highestCounter = snapshot.highestCounter;
+      this.seenCounters = new Set(snapshot.seenCounters);
+      this.seenIds = new Set(snapshot.seenIds);
+    }
+  }
+
+  check(meta: EnvelopeMetadata, now: number = Date.now(), maxAge: number = MAX_MESSAGE_AGE_MS) {
+    if (!meta || typeof meta.id !== 'string' || !Number.isInteger(meta.counter) || meta.counter < 0 ||
+        typeof meta.timestamp !== 'number') {
+      throw new ReplayError('Envelope metadata is malformed');
+    }
+    if (meta.recipient !== this.localPublicKey) {
+      throw new ReplayError('Message is addressed to a different recipient');
+    }
+    if (meta.sender !== this.peerPublicKey) {
+      throw new ReplayError('Message sender does not match the session peer');
+    }
+    if (now - meta.timestamp > maxAge) {
+      throw new ReplayError('Message is too old');
+    }
+    if (meta.timestamp - now > MAX_CLOCK_SKEW_MS) {
+      throw new ReplayError('Message timestamp is in the future');
+    }
+    if (meta.counter <= this.highestCounter - REORDER_WINDOW) {
+      throw new ReplayError('Message counter is outside the reorder window');
+    }
+    if (this.seenCounters.has(meta.counter) || this.seenIds.has(meta.id)) {
+      throw new ReplayError('Message was already received');
+    }
+  }
+
+  // True for a message this guard has already accepted. Goes by id alone: counters restart
+  // with every session, ids are random.
+  hasSeen(meta: EnvelopeMetadata): boolean {
+    return typeof meta?.id === 'string' && this.seenIds.has(meta.id);
+  }
+
+  accept(meta: EnvelopeMetadata) {
+    this.highestCounter = Math.max(this.highestCounter, meta.counter);
+    this.seenCounters.add(meta.counter);
+    this.seenIds.add(meta.id);
+
+    // Anything below the window is refused by `check` anyway, so it can be forgotten
+    this.seenCounters.forEach(counter => {
+      if (counter <= this.highestCounter - REORDER_WINDOW) {
+        this.seenCounters.delete(counter);
+      }
+    });
+    while (this.seenIds.size > MAX_SEEN_IDS) {
+      const oldest = this.seenIds.values().next().value as string;
+      this.seenIds.delete(oldest);
+    }
+  }
+
+  exportState(): ReplayGuardSnapshot {
+    return {
+      highestCounter: this.highestCounter,
+      seenCounters: Array.from(this.seenCounters),
+      seenIds: Array.from(this.seenIds)
+    };
+  }
+}
+
+export default ReplayGuard;
@@ -0,0 +1,47 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ed25519 } from '@noble/curves/ed25519';
+import { PublicKey } from '@solana/web3.js';
+import { MAX_ROOM_MEMBERS, signRoomManifest, verifyRoomManifest } from './RoomManifest';
+
+const privateKey = ed25519.utils.randomPrivateKey();
+const creator = new PublicKey(ed25519.getPublicKey(privateKey)).toBase58();
+const signMessage = async (message: Uint8Array) => ed25519.sign(message, privateKey);
+
+describe('verifyRoomManifest', () => {
+  test('accepts a manifest signed by its creator', async () => {
+    const manifest = await signRoomManifest({ roomId: 'room', creator, members: [creator, 'bob'], version: 1 }, signMessage);
+    assert.ok(verifyRoomManifest(manifest));
+  });
+
+  test('rejects values that are not manifests', () => {
+    [null, undefined, 'room', 42, [], {}].forEach(value => assert.equal(verifyRoomManifest(value), false));
+  });
+
+  test('rejects mistyped fields', async () => {
+    const manifest = await signRoomManifest({ roomId: 'room', creator, members: [creator], version: 1 }, signMessage);
+    const mistyped: unknown[] = [
+      { ...manifest, roomId: 7 },
+      { ...manifest, version: '1' },
+      { ...manifest, version: 1.5 },
+      { ...manifest, members: creator },
+      { ...manifest, members: [creator, 7] },
+      { ...manifest, signature: null }
+    ];
+    mistyped.forEach(value => assert.equal(verifyRoomManifest(value), false));
+  });
+
+  test('rejects tampered or oversized member lists', async () => {
+    const manifest = await signRoomManifest({ roomId: 'room', creator, members: [creator, 'bob'], version: 1 }, signMessage);
+    assert.equal(verifyRoomManifest({ ...manifest, members: [creator, 'mallory'] }), false);
+    assert.equal(verifyRoomManifest({ ...manifest, version: 2 }), false);
+
+    const duplicate = await signRoomManifest({ roomId: 'room', creator, members: [creator, 'bob', 'bob'], version: 1 }, signMessage);
+    assert.equal(verifyRoomManifest(duplicate), false);
+    const members = [creator, ...Array.from({ length: MAX_ROOM_MEMBERS }, (_, i) => `member${i}`)];
+    const oversized = await signRoomManifest({ roomId: 'room', creator, members, version: 1 }, signMessage);
+    assert.equal(verifyRoomManifest(oversized), false);
+    const withoutCreator = await signRoomManifest({ roomId: 'room', creator, members: ['bob'], version: 1 }, signMessage);
+    assert.equal(verifyRoomManifest(withoutCreator), false);
+  });
+});
@@ -0,0 +1,40 @@
+import { PublicKey } from '@solana/web3.js';
+import { ed25519 } from '@noble/curves/ed25519';
+import type { MessageSigner } from './EncryptionService';
+import { buildRoomManifestMessage, MAX_ROOM_MEMBERS, RoomManifest } from '../shared/protocol';
+import { createLogger } from '../shared/logger';
+
+const log = createLogger('RoomManifest');
+
+// The member list of a room, signed by the creator's wallet. Only the creator can publish
+// a new version, and a higher version always replaces a lower one. Every member keeps a
+// data channel to every other member, so rooms stay small.
+export { MAX_ROOM_MEMBERS };
+export type { RoomManifest };
+
+export async function signRoomManifest(manifest: Omit<RoomManifest, 'signature'>, signMessage: MessageSigner): Promise<RoomManifest> {
+  const signature = await signMessage(new TextEncoder().encode(buildRoomManifestMessage(manifest)));
+  return { ...manifest, signature: Buffer.from(signature).toString('base64') };
+}
+
+export function verifyRoomManifest(manifest: unknown): manifest is RoomManifest {
+  if (typeof manifest !== 'object' || manifest === null) {
+    return false;
+  }
+  const { roomId, creator, members, version, signature } = manifest as Record<string, unknown>;
+  if (typeof roomId !== 'string' || typeof creator !== 'string' || typeof version !== 'number' ||
+      !Number.isInteger(version) || typeof signature !== 'string' ||
+      !Array.isArray(members) || !members.every((member: unknown) => typeof member === 'string')) {
+    return false;
+  }
+  if (members.length > MAX_ROOM_MEMBERS || new Set(members).size !== members.length || !members.includes(creator)) {
+    return false;
+  }
+  try {
+    const message = new TextEncoder().encode(buildRoomManifestMessage({ roomId, creator, members, version }));
+    return ed25519.verify(Buffer.from(signature, 'base64'), message, new PublicKey(creator).toBytes());
+  } catch (error) {
+    log.error('Error verifying room manifest', { error });
+    return false;
+  }
+}
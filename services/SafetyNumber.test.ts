@@ -0,0 +1,45 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from '@noble/hashes/utils';
+import { computeSafetyNumber, SafetyNumberParty } from './SafetyNumber';
+
+function party(wallet: string): SafetyNumberParty {
+  return { wallet, identityKey: Buffer.from(randomBytes(32)).toString('base64') };
+}
+
+describe('computeSafetyNumber', () => {
+  test('is the same whichever side computes it', () => {
+    const alice = party('AliceWallet');
+    const bob = party('BobWallet');
+    assert.deepEqual(computeSafetyNumber(alice, bob), computeSafetyNumber(bob, alice));
+  });
+
+  test('is sixty digits in groups of five, repeated in the QR payload', () => {
+    const { digits, qrPayload } = computeSafetyNumber(party('AliceWallet'), party('BobWallet'));
+    assert.match(digits, /^\d{5}( \d{5}){11}$/);
+    assert.equal(qrPayload, `anrox-safety-number:v1:AliceWallet:BobWallet:${digits.replace(/ /g, '')}`);
+  });
+
+  test('changes when either identity key changes', () => {
+    const alice = party('AliceWallet');
+    const bob = party('BobWallet');
+    const { digits } = computeSafetyNumber(alice, bob);
+    const aliceDigits = digits.slice(0, 35);
+    const bobDigits = digits.slice(36);
+
+    const newAlice = computeSafetyNumber({ ...alice, identityKey: party('AliceWallet').identityKey }, bob).digits;
+    assert.notEqual(newAlice.slice(0, 35), aliceDigits);
+    assert.equal(newAlice.slice(36), bobDigits);
+
+    const newBob = computeSafetyNumber(alice, { ...bob, identityKey: party('BobWallet').identityKey }).digits;
+    assert.equal(newBob.slice(0, 35), aliceDigits);
+    assert.notEqual(newBob.slice(36), bobDigits);
+  });
+
+  test('binds the key to its wallet', () => {
+    const alice = party('AliceWallet');
+    const bob = party('BobWallet');
+    const { digits } = computeSafetyNumber(alice, bob);
+    assert.notEqual(computeSafetyNumber({ ...alice, wallet: 'CarolWallet' }, bob).digits, digits);
+  });
+});
@@ -0,0 +1,57 @@
+import { sha512 } from '@noble/hashes/sha512';
+
+// Bumped if the derivation changes; numbers from different versions never match
+export const SAFETY_NUMBER_VERSION = 1;
+
+// Iterated hashing makes it expensive to search for an identity key with a colliding number
+const ITERATIONS = 5200;
+// Each party contributes six groups of five digits
+const GROUPS_PER_PARTY = 6;
+
+export interface SafetyNumberParty {
+  wallet: string;
+  // Base64 Ed25519 identity key, as sent in the handshake
+  identityKey: string;
+}
+
+export interface SafetyNumber {
+  // Sixty digits in groups of five, the same on both sides of the conversation
+  digits: string;
+  // Encoded into the QR code; scanning the peer's code should yield exactly this string
+  qrPayload: string;
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+function partyDigits({ wallet, identityKey }: SafetyNumberParty): string[] {
+  const key = Buffer.from(identityKey, 'base64');
+  let hash = sha512(concatBytes(new Uint8Array([0, SAFETY_NUMBER_VERSION]), key, new TextEncoder().encode(wallet)));
+  for (let i = 0; i < ITERATIONS; i++) {
+    hash = sha512(concatBytes(hash, key));
+  }
+  const groups: string[] = [];
+  for (let i = 0; i < GROUPS_PER_PARTY; i++) {
+    // Five bytes per group, reduced to five digits
+    const chunk = hash.slice(i * 5, i * 5 + 5).reduce((value, byte) => value * 256 + byte, 0);
+    groups.push(String(chunk % 100000).padStart(5, '0'));
+  }
+  return groups;
+}
+
+// Both sides order the parties by wallet address, so they compute the same number
+export function computeSafetyNumber(local: SafetyNumberParty, remote: SafetyNumberParty): SafetyNumber {
+  const ordered = [local, remote].sort((a, b) => (a.wallet < b.wallet ? -1 : 1));
+  const groups = ordered.flatMap(partyDigits);
+  return {
+    digits: groups.join(' '),
+    qrPayload: `anrox-safety-number:v${SAFETY_NUMBER_VERSION}:${ordered.map(party => party.wallet).join(':')}:${groups.join('')}`
+  };
+}
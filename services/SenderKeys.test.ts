@@ -0,0 +1,107 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import SenderKeys, { GroupCiphertext, MAX_GROUP_SKIP, SenderKeyError } from './SenderKeys';
+
+const ROOM = 'room-1';
+
+// Alice owns a chain in the room and Bob has received her distribution
+function members(): { alice: SenderKeys; bob: SenderKeys } {
+  const alice = new SenderKeys('alice');
+  const bob = new SenderKeys('bob');
+  bob.processDistribution('alice', alice.rotate(ROOM));
+  return { alice, bob };
+}
+
+async function send(from: SenderKeys, count: number, prefix = 'm'): Promise<GroupCiphertext[]> {
+  const messages: GroupCiphertext[] = [];
+  for (let i = 0; i < count; i++) {
+    messages.push(await from.encrypt(ROOM, `${prefix}${i}`));
+  }
+  return messages;
+}
+
+describe('SenderKeys', () => {
+  test('delivers messages between two members in both directions', async () => {
+    const { alice, bob } = members();
+    alice.processDistribution('bob', bob.rotate(ROOM));
+    for (const message of await send(alice, 3, 'a')) {
+      assert.match(await bob.decrypt('alice', message), /^a\d$/);
+    }
+    const [reply] = await send(bob, 1, 'b');
+    assert.equal(await alice.decrypt('bob', reply), 'b0');
+    // A member's message does not pass as another member's
+    const [own] = await send(alice, 1);
+    await assert.rejects(alice.decrypt('bob', own), /failed authentication/);
+  });
+
+  test('decrypts out-of-order messages within the skip limit', async () => {
+    const { alice, bob } = members();
+    const messages = await send(alice, 4);
+    assert.equal(await bob.decrypt('alice', messages[3]), 'm3');
+    assert.equal(await bob.decrypt('alice', messages[1]), 'm1');
+    assert.equal(await bob.decrypt('alice', messages[0]), 'm0');
+    assert.equal(await bob.decrypt('alice', messages[2]), 'm2');
+  });
+
+  test(`refuses to skip more than ${MAX_GROUP_SKIP} messages`, async () => {
+    const { alice, bob } = members();
+    const messages = await send(alice, MAX_GROUP_SKIP + 2);
+    await assert.rejects(bob.decrypt('alice', messages[MAX_GROUP_SKIP + 1]), /Too many skipped group messages/);
+    // The refused message left the chain alone, so the gap that is allowed still works
+    assert.equal(await bob.decrypt('alice', messages[MAX_GROUP_SKIP]), `m${MAX_GROUP_SKIP}`);
+    assert.equal(await bob.decrypt('alice', messages[0]), 'm0');
+  });
+
+  test('rejects a replayed iteration', async () => {
+    const { alice, bob } = members();
+    const [first, second] = await send(alice, 2);
+    await bob.decrypt('alice', second);
+    await bob.decrypt('alice', first);
+    await assert.rejects(bob.decrypt('alice', first), /already received/);
+    await assert.rejects(bob.decrypt('alice', second), /already received/);
+  });
+
+  test('ignores a delayed distribution from an older epoch', async () => {
+    const alice = new SenderKeys('alice');
+    const bob = new SenderKeys('bob');
+    const old = alice.rotate(ROOM);
+    bob.processDistribution('alice', alice.rotate(ROOM));
+    const [message] = await send(alice, 1);
+    bob.processDistribution('alice', old);
+    assert.equal(message.epoch, 1);
+    assert.equal(await bob.decrypt('alice', message), 'm0');
+  });
+
+  test('does not advance the chain for a message that fails authentication', async () => {
+    const { alice, bob } = members();
+    const [message, next] = await send(alice, 2);
+    const ciphertext = Buffer.from(message.ciphertext, 'base64');
+    ciphertext[0] ^= 0x01;
+    await assert.rejects(bob.decrypt('alice', { ...message, ciphertext: ciphertext.toString('base64') }), SenderKeyError);
+    // Nor for one whose header was changed
+    await assert.rejects(bob.decrypt('alice', { ...next, iteration: 5 }), /failed authentication/);
+    assert.equal(await bob.decrypt('alice', message), 'm0');
+    assert.equal(await bob.decrypt('alice', next), 'm1');
+  });
+
+  test('a removed member cannot read the chain after it is forgotten and rotated', async () => {
+    const alice = new SenderKeys('alice');
+    const bob = new SenderKeys('bob');
+    const carol = new SenderKeys('carol');
+    const first = alice.rotate(ROOM);
+    bob.processDistribution('alice', first);
+    carol.processDistribution('alice', first);
+    const [before] = await send(alice, 1);
+    assert.equal(await carol.decrypt('alice', before), 'm0');
+
+    // Carol leaves: Alice drops Carol's chain and hands a new epoch to Bob only
+    alice.processDistribution('carol', carol.rotate(ROOM));
+    alice.forgetMember(ROOM, 'carol');
+    bob.processDistribution('alice', alice.rotate(ROOM));
+    const [after] = await send(alice, 1, 'n');
+    assert.equal(await bob.decrypt('alice', after), 'n0');
+    await assert.rejects(carol.decrypt('alice', after), /No sender key for this epoch/);
+    await assert.rejects(carol.decrypt('alice', { ...after, epoch: first.epoch }), SenderKeyError);
+    await assert.rejects(alice.decrypt('carol', await carol.encrypt(ROOM, 'still here')), /No sender key/);
+  });
+});
@@ -0,0 +1,214 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { hkdf } from '@noble/hashes/hkdf';
+import { hmac } from '@noble/hashes/hmac';
+import { randomBytes } from '@noble/hashes/utils';
+
+// Sender keys for group rooms: every member owns one symmetric hash chain per room and
+// hands its current chain key to the other members over their pairwise sessions. A new
+// epoch (fresh random chain) is started whenever the membership changes, so members who
+// left cannot read what comes next and new members cannot read what came before.
+
+// Largest gap we will fast-forward over within one sender's chain
+export const MAX_GROUP_SKIP = 256;
+// Upper bound on message keys kept for late, out-of-order group messages per sender
+const MAX_SKIPPED_GROUP_KEYS = 500;
+
+const MESSAGE_KDF_INFO = new TextEncoder().encode('AnRox sender key message v1');
+const MESSAGE_KEY_SEED = Uint8Array.of(0x01);
+const CHAIN_KEY_SEED = Uint8Array.of(0x02);
+
+export interface SenderKeyDistribution {
+  roomId: string;
+  epoch: number;
+  chainKey: string;
+  iteration: number;
+}
+
+export interface GroupCiphertext {
+  roomId: string;
+  epoch: number;
+  iteration: number;
+  ciphertext: string;
+}
+
+interface ChainState {
+  epoch: number;
+  chainKey: Uint8Array;
+  iteration: number;
+  skippedKeys: Map<number, Uint8Array>;
+}
+
+export class SenderKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SenderKeyError';
+  }
+}
+
+function kdfChain(chainKey: Uint8Array): [Uint8Array, Uint8Array] {
+  return [hmac(sha256, chainKey, CHAIN_KEY_SEED), hmac(sha256, chainKey, MESSAGE_KEY_SEED)];
+}
+
+async function importMessageKey(messageKey: Uint8Array): Promise<{ key: CryptoKey; iv: Uint8Array }> {
+  const okm = hkdf(sha256, messageKey, new Uint8Array(32), MESSAGE_KDF_INFO, 44);
+  const key = await globalThis.crypto.subtle.importKey(
+    'raw',
+    okm.slice(0, 32),
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  return { key, iv: okm.slice(32, 44) };
+}
+
+function associatedData(sender: string, message: Omit<GroupCiphertext, 'ciphertext'>): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify([message.roomId, sender, message.epoch, message.iteration]));
+}
+
+class SenderKeys {
+  private localPublicKey: string;
+  private ownChains = new Map<string, ChainState>();
+  // Keyed by `${roomId}:${sender}`
+  private peerChains = new Map<string, ChainState>();
+
+  constructor(localPublicKey: string) {
+    this.localPublicKey = localPublicKey;
+  }
+
+  // Starts a new epoch for our own chain in a room and returns what to hand to the members
+  rotate(roomId: string): SenderKeyDistribution {
+    const previous = this.ownChains.get(roomId);
+    const chain: ChainState = {
+      epoch: previous ? previous.epoch + 1 : 0,
+      chainKey: randomBytes(32),
+      iteration: 0,
+      skippedKeys: new Map()
+    };
+    this.ownChains.set(roomId, chain);
+    return this.describe(roomId, chain);
+  }
+
+  hasOwnKey(roomId: string): boolean {
+    return this.ownChains.has(roomId);
+  }
+
+  processDistribution(sender: string, distribution: SenderKeyDistribution) {
+    if (typeof distribution.roomId !== 'string' || !Number.isInteger(distribution.epoch) ||
+        !Number.isInteger(distribution.iteration) || typeof distribution.chainKey !== 'string') {
+      throw new SenderKeyError('Malformed sender key distribution');
+    }
+    const id = `${distribution.roomId}:${sender}`;
+    const current = this.peerChains.get(id);
+    if (current && current.epoch > distribution.epoch) {
+      // A delayed distribution from an older epoch must not roll the chain back
+      return;
+    }
+    this.peerChains.set(id, {
+      epoch: distribution.epoch,
+      chainKey: Buffer.from(distribution.chainKey, 'base64'),
+      iteration: distribution.iteration,
+      skippedKeys: new Map()
+    });
+  }
+
+  async encrypt(roomId: string, plaintext: string): Promise<GroupCiphertext> {
+    const chain = this.ownChains.get(roomId);
+    if (!chain) {
+      throw new SenderKeyError('No sender key for this room');
+    }
+    const [nextChainKey, messageKey] = kdfChain(chain.chainKey);
+    const header = { roomId, epoch: chain.epoch, iteration: chain.iteration };
+    chain.chainKey = nextChainKey;
+    chain.iteration += 1;
+
+    const { key, iv } = await importMessageKey(messageKey);
+    const ciphertext = await globalThis.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: associatedData(this.localPublicKey, header) },
+      key,
+      new TextEncoder().encode(plaintext)
+    );
+    return { ...header, ciphertext: Buffer.from(ciphertext).toString('base64') };
+  }
+
+  async decrypt(sender: string, message: GroupCiphertext): Promise<string> {
+    const chain = this.peerChains.get(`${message.roomId}:${sender}`);
+    if (!chain || chain.epoch !== message.epoch) {
+      throw new SenderKeyError('No sender key for this epoch');
+    }
+    if (!Number.isInteger(message.iteration) || message.iteration < 0) {
+      throw new SenderKeyError('Malformed group message');
+    }
+
+    let messageKey = chain.skippedKeys.get(message.iteration);
+    let nextChainKey = chain.chainKey;
+    let nextIteration = chain.iteration;
+    const skipped = new Map<number, Uint8Array>();
+    if (!messageKey) {
+      if (message.iteration < chain.iteration) {
+        throw new SenderKeyError('Group message was already received');
+      }
+      if (message.iteration - chain.iteration > MAX_GROUP_SKIP) {
+        throw new SenderKeyError('Too many skipped group messages');
+      }
+      while (nextIteration < message.iteration) {
+        const [chainKey, skippedKey] = kdfChain(nextChainKey);
+        skipped.set(nextIteration, skippedKey);
+        nextChainKey = chainKey;
+        nextIteration += 1;
+      }
+      const [chainKey, derivedKey] = kdfChain(nextChainKey);
+      nextChainKey = chainKey;
+      nextIteration += 1;
+      messageKey = derivedKey;
+    }
+
+    const { key, iv } = await importMessageKey(messageKey);
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await globalThis.crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv, additionalData: associatedData(sender, message) },
+        key,
+        Buffer.from(message.ciphertext, 'base64')
+      );
+    } catch {
+      throw new SenderKeyError('Group message failed authentication');
+    }
+
+    // Only advance the chain once the message has authenticated
+    if (chain.skippedKeys.has(message.iteration)) {
+      chain.skippedKeys.delete(message.iteration);
+    } else {
+      skipped.forEach((skippedKey, iteration) => chain.skippedKeys.set(iteration, skippedKey));
+      chain.chainKey = nextChainKey;
+      chain.iteration = nextIteration;
+    }
+    while (chain.skippedKeys.size > MAX_SKIPPED_GROUP_KEYS) {
+      const oldest = chain.skippedKeys.keys().next().value as number;
+      chain.skippedKeys.delete(oldest);
+    }
+    return new TextDecoder().decode(plaintext);
+  }
+
+  forgetRoom(roomId: string) {
+    this.ownChains.delete(roomId);
+    const prefix = `${roomId}:`;
+    Array.from(this.peerChains.keys())
+      .filter(id => id.startsWith(prefix))
+      .forEach(id => this.peerChains.delete(id));
+  }
+
+  forgetMember(roomId: string, member: string) {
+    this.peerChains.delete(`${roomId}:${member}`);
+  }
+
+  private describe(roomId: string, chain: ChainState): SenderKeyDistribution {
+    return {
+      roomId,
+      epoch: chain.epoch,
+      chainKey: Buffer.from(chain.chainKey).toString('base64'),
+      iteration: chain.iteration
+    };
+  }
+}
+
+export default SenderKeys;
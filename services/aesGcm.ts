@@ -0,0 +1,45 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { hkdf } from '@noble/hashes/hkdf';
+import { randomBytes } from '@noble/hashes/utils';
+
+// AES-256-GCM for data kept at rest under keys derived from a wallet signature. The additional
+// data names what a ciphertext is for, so one cannot be passed off as another.
+
+export async function importAesKey(secret: Uint8Array, info: string): Promise<CryptoKey> {
+  const raw = hkdf(sha256, secret, new Uint8Array(32), info, 32);
+  return globalThis.crypto.subtle.importKey('raw', raw, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+}
+
+export async function encrypt(key: CryptoKey, plaintext: string, additionalData: string): Promise<{ iv: Uint8Array; ciphertext: Uint8Array }> {
+  const iv = randomBytes(12);
+  const ciphertext = await globalThis.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(additionalData) },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  return { iv, ciphertext: new Uint8Array(ciphertext) };
+}
+
+export async function decrypt(key: CryptoKey, iv: Uint8Array, ciphertext: Uint8Array, additionalData: string): Promise<string> {
+  const plaintext = await globalThis.crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(additionalData) },
+    key,
+    ciphertext
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+// Small values sealed into one string, for localStorage: the base64 iv and ciphertext joined by a dot
+export async function seal(key: CryptoKey, label: string, plaintext: string): Promise<string> {
+  const { iv, ciphertext } = await encrypt(key, plaintext, label);
+  return `${Buffer.from(iv).toString('base64')}.${Buffer.from(ciphertext).toString('base64')}`;
+}
+
+// Returns null for a value that is not in sealed form at all
+export async function unseal(key: CryptoKey, label: string, sealed: string): Promise<string | null> {
+  const [iv, ciphertext, ...rest] = sealed.split('.');
+  if (!iv || !ciphertext || rest.length > 0) {
+    return null;
+  }
+  return decrypt(key, Buffer.from(iv, 'base64'), Buffer.from(ciphertext, 'base64'), label);
+}
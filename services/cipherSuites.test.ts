@@ -0,0 +1,79 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from '@noble/hashes/utils';
+import { EnvelopeMetadata, X25519_RATCHET_SUITE_ID, negotiateCipherSuite, x25519RatchetSuite } from './cipherSuites';
+
+function sessions(transcript = randomBytes(32), peerTranscript = transcript) {
+  const alice = x25519RatchetSuite.generateKeyPair();
+  const bob = x25519RatchetSuite.generateKeyPair();
+  return {
+    alice: x25519RatchetSuite.createSession({
+      privateKey: alice.privateKey,
+      peerPublicKey: bob.publicKey,
+      transcript,
+      isInitiator: true
+    }),
+    bob: x25519RatchetSuite.createSession({
+      privateKey: bob.privateKey,
+      peerPublicKey: alice.publicKey,
+      transcript: peerTranscript,
+      isInitiator: false
+    })
+  };
+}
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+const meta: EnvelopeMetadata = { sender: 'alice', recipient: 'bob', counter: 1, id: 'm1', timestamp: 1700000000000 };
+
+describe('negotiateCipherSuite', () => {
+  test('picks the first preferred suite the other side offers', () => {
+    assert.equal(negotiateCipherSuite(['c', 'b', 'a'], ['a', 'b']), 'b');
+    assert.equal(negotiateCipherSuite(['a', 'b'], ['c', 'b', 'a']), 'a');
+  });
+
+  test('returns null without a common suite', () => {
+    assert.equal(negotiateCipherSuite(['a'], ['b']), null);
+    assert.equal(negotiateCipherSuite([], ['a']), null);
+  });
+});
+
+describe('x25519RatchetSuite', () => {
+  test('rejects a peer key of the wrong length', () => {
+    const { privateKey } = x25519RatchetSuite.generateKeyPair();
+    assert.throws(() => x25519RatchetSuite.createSession({
+      privateKey,
+      peerPublicKey: randomBytes(31),
+      transcript: randomBytes(32),
+      isInitiator: true
+    }), /Invalid key length/);
+  });
+
+  test('sessions from the same handshake confirm each other and exchange messages', async () => {
+    const { alice, bob } = sessions();
+    assert.equal(alice.suite, X25519_RATCHET_SUITE_ID);
+    assert.ok(bob.verifyKeyConfirmation('alice', alice.createKeyConfirmation('alice')));
+    assert.ok(alice.verifyKeyConfirmation('bob', bob.createKeyConfirmation('bob')));
+    assert.equal(decode(await bob.decrypt(await alice.encrypt(encode('hello'), meta))), 'hello');
+  });
+
+  test('key confirmation fails for a different sender or a different transcript', () => {
+    const { alice, bob } = sessions();
+    assert.equal(bob.verifyKeyConfirmation('mallory', alice.createKeyConfirmation('alice')), false);
+    assert.equal(bob.verifyKeyConfirmation('alice', alice.createKeyConfirmation('mallory')), false);
+    assert.equal(bob.verifyKeyConfirmation('alice', ''), false);
+    assert.equal(bob.verifyKeyConfirmation('alice', undefined as unknown as string), false);
+
+    const split = sessions(randomBytes(32), randomBytes(32));
+    assert.equal(split.bob.verifyKeyConfirmation('alice', split.alice.createKeyConfirmation('alice')), false);
+  });
+
+  test('authenticates the envelope metadata', async () => {
+    const { alice, bob } = sessions();
+    const envelope = await alice.encrypt(encode('hello'), meta);
+    await assert.rejects(bob.decrypt({ ...envelope, meta: { ...meta, counter: 2 } }), /failed authentication/);
+    await assert.rejects(bob.decrypt({ ...envelope, meta: { ...meta, recipient: 'mallory' } }), /failed authentication/);
+    assert.equal(decode(await bob.decrypt(envelope)), 'hello');
+  });
+});
@@ -0,0 +1,209 @@
+import { x25519 } from '@noble/curves/ed25519';
+import { sha256 } from '@noble/hashes/sha256';
+import { hkdf } from '@noble/hashes/hkdf';
+import { hmac } from '@noble/hashes/hmac';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import DoubleRatchet, { RatchetHeader, RatchetSnapshot } from './DoubleRatchet';
+
+// Sent in the clear but authenticated as AES-GCM additional data, so it cannot be altered
+export interface EnvelopeMetadata {
+  sender: string;
+  recipient: string;
+  // Per-session, strictly increasing on the sending side
+  counter: number;
+  id: string;
+  timestamp: number;
+}
+
+export interface EncryptedEnvelope {
+  header: RatchetHeader;
+  meta: EnvelopeMetadata;
+  message: string;
+}
+
+export interface KeyPair {
+  privateKey: Uint8Array;
+  publicKey: Uint8Array;
+}
+
+export interface SessionParams {
+  privateKey: Uint8Array;
+  peerPublicKey: Uint8Array;
+  // Hash of everything both sides sent in the handshake; salts the key derivation
+  transcript: Uint8Array;
+  // True on exactly one side of the conversation
+  isInitiator: boolean;
+}
+
+// What a session needs to go on decrypting after a reload; the state is suite-specific and JSON-safe
+export interface SessionSnapshot {
+  suite: string;
+  state: unknown;
+}
+
+// An established, keyed conversation with one peer
+export interface SecureSession {
+  readonly suite: string;
+  createKeyConfirmation(sender: string): string;
+  verifyKeyConfirmation(sender: string, macBase64: string): boolean;
+  encrypt(plaintext: Uint8Array, meta: EnvelopeMetadata): Promise<EncryptedEnvelope>;
+  decrypt(envelope: EncryptedEnvelope): Promise<Uint8Array>;
+  exportReceivingState(): SessionSnapshot;
+}
+
+// A versioned combination of key agreement, key derivation and message encryption.
+// New suites get a new id; existing ids must never change their wire behaviour.
+export interface CipherSuite {
+  readonly id: string;
+  generateKeyPair(): KeyPair;
+  createSession(params: SessionParams): SecureSession;
+  // Rebuilds a session from exportReceivingState(); it can decrypt but never encrypt
+  restoreSession(state: unknown): SecureSession;
+}
+
+export const X25519_RATCHET_SUITE_ID = 'x25519-hkdf-sha256-aes256gcm-ratchet-v1';
+
+const SESSION_KEY_INFO = 'AnRox session keys v1';
+
+// Fixed field order, so both sides authenticate exactly the same bytes
+function encodeMetadata(meta: EnvelopeMetadata): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify([meta.sender, meta.recipient, meta.counter, meta.id, meta.timestamp]));
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a, 0);
+  result.set(b, a.length);
+  return result;
+}
+
+interface RatchetSessionState {
+  ratchet: RatchetSnapshot;
+  confirmationKey: string;
+  associatedData: string;
+}
+
+function isHexString(value: unknown): value is string {
+  return typeof value === 'string' && /^([0-9a-f]{2})*$/.test(value);
+}
+
+function isRatchetSessionState(value: unknown): value is RatchetSessionState {
+  const { ratchet, confirmationKey, associatedData } = (value ?? {}) as Record<string, unknown>;
+  if (!isHexString(confirmationKey) || !isHexString(associatedData) || typeof ratchet !== 'object' || ratchet === null) {
+    return false;
+  }
+  const { dhPrivateKey, peerDhKey, rootKey, receiveChainKey, receiveCount, skippedKeys } = ratchet as Record<string, unknown>;
+  return isHexString(dhPrivateKey) && isHexString(peerDhKey) && isHexString(rootKey) &&
+    (receiveChainKey === null || isHexString(receiveChainKey)) && Number.isInteger(receiveCount) &&
+    Array.isArray(skippedKeys) && skippedKeys.every(entry =>
+      Array.isArray(entry) && entry.length === 2 && typeof entry[0] === 'string' && isHexString(entry[1]));
+}
+
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+class RatchetSession implements SecureSession {
+  readonly suite = X25519_RATCHET_SUITE_ID;
+  private ratchet: DoubleRatchet;
+  private confirmationKey: Uint8Array;
+  private associatedData: Uint8Array;
+
+  constructor(ratchet: DoubleRatchet, confirmationKey: Uint8Array, associatedData: Uint8Array) {
+    this.ratchet = ratchet;
+    this.confirmationKey = confirmationKey;
+    this.associatedData = associatedData;
+  }
+
+  createKeyConfirmation(sender: string): string {
+    return Buffer.from(this.computeKeyConfirmation(sender)).toString('base64');
+  }
+
+  verifyKeyConfirmation(sender: string, macBase64: string): boolean {
+    if (typeof macBase64 !== 'string') {
+      return false;
+    }
+    return constantTimeEqual(this.computeKeyConfirmation(sender), Buffer.from(macBase64, 'base64'));
+  }
+
+  async encrypt(plaintext: Uint8Array, meta: EnvelopeMetadata): Promise<EncryptedEnvelope> {
+    const { header, ciphertext } = await this.ratchet.encrypt(
+      plaintext,
+      concatBytes(this.associatedData, encodeMetadata(meta))
+    );
+    return { header, meta, message: Buffer.from(ciphertext).toString('base64') };
+  }
+
+  decrypt(envelope: EncryptedEnvelope): Promise<Uint8Array> {
+    return this.ratchet.decrypt(
+      { header: envelope.header, ciphertext: Buffer.from(envelope.message, 'base64') },
+      concatBytes(this.associatedData, encodeMetadata(envelope.meta))
+    );
+  }
+
+  exportReceivingState(): SessionSnapshot {
+    const state: RatchetSessionState = {
+      ratchet: this.ratchet.exportReceivingState(),
+      confirmationKey: bytesToHex(this.confirmationKey),
+      associatedData: bytesToHex(this.associatedData)
+    };
+    return { suite: this.suite, state };
+  }
+
+  private computeKeyConfirmation(sender: string): Uint8Array {
+    return hmac(sha256, this.confirmationKey, new TextEncoder().encode(`AnRox key confirmation\n${sender}`));
+  }
+}
+
+// X25519 key agreement, HKDF-SHA256 into a Double Ratchet with AES-256-GCM message keys
+export const x25519RatchetSuite: CipherSuite = {
+  id: X25519_RATCHET_SUITE_ID,
+
+  generateKeyPair() {
+    const privateKey = x25519.utils.randomPrivateKey();
+    return { privateKey, publicKey: x25519.getPublicKey(privateKey) };
+  },
+
+  createSession({ privateKey, peerPublicKey, transcript, isInitiator }) {
+    if (peerPublicKey.length !== 32) {
+      throw new Error('Invalid key length');
+    }
+    const sharedSecret = x25519.getSharedSecret(privateKey, peerPublicKey);
+    const okm = hkdf(sha256, sharedSecret, transcript, new TextEncoder().encode(SESSION_KEY_INFO), 96);
+    const ratchet = new DoubleRatchet({
+      rootKey: okm.slice(0, 32),
+      responderChainKey: okm.slice(32, 64),
+      handshakePrivateKey: privateKey,
+      peerHandshakeKey: peerPublicKey,
+      isInitiator
+    });
+    return new RatchetSession(ratchet, okm.slice(64, 96), transcript);
+  },
+
+  restoreSession(state) {
+    if (!isRatchetSessionState(state)) {
+      throw new Error('Malformed session state');
+    }
+    return new RatchetSession(
+      new DoubleRatchet(state.ratchet),
+      hexToBytes(state.confirmationKey),
+      hexToBytes(state.associatedData)
+    );
+  }
+};
+
+// Most preferred first
+export const DEFAULT_CIPHER_SUITES: CipherSuite[] = [x25519RatchetSuite];
+
+// Picks the first suite in the preferring side's list that the other side also offers.
+// Both peers call this with the same argument order, so they always agree on the result.
+export function negotiateCipherSuite(preferred: string[], offered: string[]): string | null {
+  return preferred.find(suite => offered.includes(suite)) ?? null;
+}
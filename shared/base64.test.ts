@@ -0,0 +1,21 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from '@noble/hashes/utils';
+import { decodeBase64, encodeBase64 } from './base64';
+
+describe('base64', () => {
+  test('matches Node for every padding length', () => {
+    for (let length = 0; length < 40; length++) {
+      const bytes = randomBytes(length);
+      const expected = Buffer.from(bytes).toString('base64');
+      assert.equal(encodeBase64(bytes), expected);
+      assert.deepEqual(decodeBase64(expected), bytes);
+    }
+  });
+
+  test('rejects text that is not padded base64', () => {
+    ['abc', 'ab=c', 'ab c', 'a-_b', 'abcd==='].forEach(text => {
+      assert.throws(() => decodeBase64(text), /Invalid base64/);
+    });
+  });
+});
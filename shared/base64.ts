@@ -0,0 +1,34 @@
+// Standard, padded base64 without Buffer or btoa, so code shared by the browser and Node can use it
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const VALUES = new Map(Array.from(ALPHABET, (char, value): [string, number] => [char, value]));
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const remaining = bytes.length - i;
+    const chunk = (bytes[i] << 16) | (remaining > 1 ? bytes[i + 1] << 8 : 0) | (remaining > 2 ? bytes[i + 2] : 0);
+    text += ALPHABET[chunk >> 18] + ALPHABET[(chunk >> 12) & 63];
+    text += remaining > 1 ? ALPHABET[(chunk >> 6) & 63] : '=';
+    text += remaining > 2 ? ALPHABET[chunk & 63] : '=';
+  }
+  return text;
+}
+
+export function decodeBase64(text: string): Uint8Array {
+  if (text.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(text)) {
+    throw new Error('Invalid base64');
+  }
+  const padding = text.endsWith('==') ? 2 : text.endsWith('=') ? 1 : 0;
+  const bytes = new Uint8Array((text.length / 4) * 3 - padding);
+  let offset = 0;
+  for (let i = 0; i < text.length; i += 4) {
+    let chunk = 0;
+    for (let j = i; j < i + 4; j++) {
+      chunk = (chunk << 6) | (VALUES.get(text[j]) ?? 0);
+    }
+    bytes.set([chunk >> 16, (chunk >> 8) & 255, chunk & 255].slice(0, bytes.length - offset), offset);
+    offset += 3;
+  }
+  return bytes;
+}
@@ -0,0 +1,74 @@
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LogRecord, REDACTED_FIELDS, configureLogging, createLogger, prepareFields } from './logger';
+
+const secrets = Object.fromEntries(REDACTED_FIELDS.map(field => [field, `${field}-value`]));
+const masked = Object.fromEntries(REDACTED_FIELDS.map(field => [field, '[redacted]']));
+
+describe('prepareFields', () => {
+  test('masks every redacted field at the top level', () => {
+    assert.deepEqual(prepareFields(secrets, true), masked);
+  });
+
+  test('masks redacted fields inside nested objects and arrays', () => {
+    const prepared = prepareFields({
+      frame: { type: 'offer', offer: { type: 'offer', ...secrets } },
+      candidates: [secrets, { nested: [secrets] }]
+    }, true);
+    assert.deepEqual(prepared, {
+      frame: { type: 'offer', offer: { type: 'offer', ...masked } },
+      candidates: [masked, { nested: [masked] }]
+    });
+  });
+
+  test('masks a redacted field whatever its value', () => {
+    assert.deepEqual(prepareFields({ keys: { suite: 'a2V5' }, candidate: { candidate: 'candidate:1 1 udp 1 10.0.0.1' } }, true), {
+      keys: '[redacted]',
+      candidate: '[redacted]'
+    });
+  });
+
+  test('leaves ordinary fields alone and turns errors into plain objects', () => {
+    const error = new TypeError('Bad frame');
+    const prepared = prepareFields({ peer: 'alice', count: 3, ok: true, nothing: null, size: BigInt(7), error }, true);
+    assert.deepEqual(prepared, {
+      peer: 'alice',
+      count: 3,
+      ok: true,
+      nothing: null,
+      size: '7',
+      error: { name: 'TypeError', message: 'Bad frame', stack: error.stack }
+    });
+  });
+
+  test('keeps everything when redaction is off', () => {
+    assert.deepEqual(prepareFields({ frame: secrets }, false), { frame: secrets });
+  });
+
+  test('cuts off deep nesting', () => {
+    const cycle: Record<string, unknown> = {};
+    cycle.self = cycle;
+    assert.doesNotThrow(() => JSON.stringify(prepareFields(cycle, true)));
+  });
+});
+
+describe('Logger', () => {
+  afterEach(() => configureLogging({ level: 'info', redact: true, sink: null }));
+
+  test('redacts fields before the sink sees them, including the child fields', () => {
+    const records: LogRecord[] = [];
+    configureLogging({ level: 'debug', sink: record => records.push(record) });
+    createLogger('Test', { resumeToken: 't' }).child({ peer: 'bob' }).debug('Sent', { frame: { sdp: 'v=0', type: 'offer' } });
+    assert.equal(records.length, 1);
+    assert.deepEqual(records[0].fields, { resumeToken: '[redacted]', peer: 'bob', frame: { sdp: '[redacted]', type: 'offer' } });
+  });
+
+  test('drops records below the configured level', () => {
+    const records: LogRecord[] = [];
+    configureLogging({ level: 'warn', sink: record => records.push(record) });
+    const log = createLogger('Test');
+    log.info('Hidden');
+    log.error('Shown');
+    assert.deepEqual(records.map(({ message }) => message), ['Shown']);
+  });
+});
@@ -0,0 +1,152 @@
+// Leveled, structured logging shared by the client and the signaling server. Each record has a
+// scope, a message and a set of fields. Fields that carry key material, signatures or network
+// addresses are redacted by name before any output sees them.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+export type LogFormat = 'json' | 'pretty';
+export type LogFields = Record<string, unknown>;
+
+export interface LogRecord {
+  time: string;
+  level: Exclude<LogLevel, 'silent'>;
+  scope: string;
+  message: string;
+  fields: LogFields;
+}
+
+export type LogSink = (record: LogRecord) => void;
+
+export interface LogOptions {
+  // Records below this level are dropped
+  level: LogLevel;
+  format: LogFormat;
+  // Only worth turning off while debugging locally
+  redact: boolean;
+  // Replaces the console, e.g. to keep stdout free for other output
+  sink: LogSink | null;
+}
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+export const LOG_FORMATS: LogFormat[] = ['json', 'pretty'];
+
+// SDP and ICE candidates reveal IP addresses; the rest is key material, signatures or tokens.
+// Matched at any depth, so a whole frame can be logged as a field.
+export const REDACTED_FIELDS = [
+  'sdp',
+  'candidate',
+  'keys',
+  'dh',
+  'identityKey',
+  'certificate',
+  'privateKey',
+  'signature',
+  'mac',
+  'nonce',
+  'resumeToken',
+  'credential',
+  'secret'
+];
+
+const REDACTED = '[redacted]';
+// Nested deeper than this is cut off, which also guards against cycles
+const MAX_FIELD_DEPTH = 6;
+
+let options: LogOptions = { level: 'info', format: 'pretty', redact: true, sink: null };
+
+export function configureLogging(update: Partial<LogOptions>) {
+  options = { ...options, ...update };
+}
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return LOG_LEVELS.includes(value as LogLevel);
+}
+
+// Errors become plain objects, so they survive JSON output
+export function prepareFields(value: unknown, redact: boolean, depth = 0): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'bigint' ? value.toString() : value;
+  }
+  if (depth >= MAX_FIELD_DEPTH) {
+    return '[truncated]';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => prepareFields(item, redact, depth + 1));
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    redact && REDACTED_FIELDS.includes(key) ? REDACTED : prepareFields(item, redact, depth + 1)
+  ]));
+}
+
+// One line per record: `<time> <LEVEL> [<scope>] <message> <fields as JSON>`
+export function formatRecord(record: LogRecord): string {
+  const fields = Object.keys(record.fields).length > 0 ? ` ${JSON.stringify(record.fields)}` : '';
+  return `${record.time} ${record.level.toUpperCase()} [${record.scope}] ${record.message}${fields}`;
+}
+
+function consoleSink(record: LogRecord) {
+  const write = {
+    debug: console.debug,
+    info: console.info,
+    warn: console.warn,
+    error: console.error
+  }[record.level];
+  if (options.format === 'json') {
+    const { time, level, scope, message, fields } = record;
+    write(JSON.stringify({ ...fields, time, level, scope, message }));
+  } else {
+    write(formatRecord(record));
+  }
+}
+
+export class Logger {
+  private scope: string;
+  private fields: LogFields;
+
+  constructor(scope: string, fields: LogFields = {}) {
+    this.scope = scope;
+    this.fields = fields;
+  }
+
+  // A logger that adds these fields to every record, e.g. the peer a session talks to
+  child(fields: LogFields): Logger {
+    return new Logger(this.scope, { ...this.fields, ...fields });
+  }
+
+  debug(message: string, fields?: LogFields) {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields) {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields) {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields) {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogRecord['level'], message: string, fields: LogFields = {}) {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(options.level)) {
+      return;
+    }
+    const record: LogRecord = {
+      time: new Date().toISOString(),
+      level,
+      scope: this.scope,
+      message,
+      fields: prepareFields({ ...this.fields, ...fields }, options.redact) as LogFields
+    };
+    (options.sink ?? consoleSink)(record);
+  }
+}
+
+export function createLogger(scope: string, fields?: LogFields): Logger {
+  return new Logger(scope, fields);
+}
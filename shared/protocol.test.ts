@@ -0,0 +1,184 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ClientFrame,
+  DataChannelFrame,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  RoomManifest,
+  ServerFrame,
+  encodeBinaryFrame,
+  encodeFrame,
+  parseClientFrame,
+  parseDataChannelFrame,
+  parseServerFrame
+} from './protocol';
+
+type FramesByType<T extends { type: string }> = { [K in T['type']]: Extract<T, { type: K }> };
+
+const addressed = { sender: 'alice', recipient: 'bob' };
+const manifest: RoomManifest = { roomId: 'r1', creator: 'alice', members: ['alice', 'bob'], version: 2, signature: 'c2ln' };
+const peerFrames: FramesByType<ClientFrame & ServerFrame> = {
+  'initiate': { type: 'initiate', ...addressed },
+  'offer': { type: 'offer', ...addressed, offer: { type: 'offer', sdp: 'v=0' } },
+  'answer': { type: 'answer', ...addressed, answer: { type: 'answer', sdp: 'v=0' } },
+  'ice-candidate': {
+    type: 'ice-candidate',
+    ...addressed,
+    candidate: { candidate: 'candidate:1', sdpMid: '0', sdpMLineIndex: 0, usernameFragment: null }
+  },
+  'ecdh-public-key': {
+    type: 'ecdh-public-key',
+    ...addressed,
+    version: 2,
+    suites: ['x25519-ratchet-v1'],
+    keys: { 'x25519-ratchet-v1': 'a2V5' },
+    identityKey: 'aWQ=',
+    certificate: 'Y2VydA==',
+    certificateExpiresAt: 1700000000000,
+    signature: 'c2ln'
+  },
+  'key-confirmation': { type: 'key-confirmation', ...addressed, mac: 'bWFj' },
+  'conversation-closed': { type: 'conversation-closed', ...addressed },
+  'encrypted-message': {
+    type: 'encrypted-message',
+    ...addressed,
+    header: { dh: 'ab', pn: 0, n: 1 },
+    meta: { ...addressed, counter: 1, id: 'm1', timestamp: 1700000000000 },
+    message: 'AAEC',
+    deliveryId: 'd1'
+  }
+};
+const clientFrames: FramesByType<ClientFrame> = {
+  ...peerFrames,
+  'register': { type: 'register', publicKey: 'alice', resumeToken: 't' },
+  'authenticate': { type: 'authenticate', publicKey: 'alice', signature: 'c2ln' },
+  'mailbox-ack': { type: 'mailbox-ack', sender: 'alice', deliveryIds: ['d1', 'd2'] },
+  'room-join': { type: 'room-join', sender: 'alice', manifest },
+  'room-leave': { type: 'room-leave', sender: 'alice', roomId: 'r1' },
+  'presence-approve': { type: 'presence-approve', sender: 'alice', contacts: ['bob'] },
+  'presence-subscribe': { type: 'presence-subscribe', sender: 'alice', contacts: [] },
+  'presence-update': { type: 'presence-update', sender: 'alice', status: 'away' }
+};
+const serverFrames: FramesByType<ServerFrame> = {
+  ...peerFrames,
+  'challenge': { type: 'challenge', publicKey: 'alice', nonce: 'n' },
+  'registered': { type: 'registered', publicKey: 'alice', resumeToken: 't' },
+  'error': { type: 'error', code: 'rate-limited', message: 'Slow down' },
+  'ice-servers': {
+    type: 'ice-servers',
+    iceServers: [{ urls: 'stun:stun.example.com' }, { urls: ['turn:a', 'turn:b'], username: 'u', credential: 'c' }],
+    expiresAt: 1700000000000
+  },
+  'presence': { type: 'presence', contact: 'bob', status: 'offline', lastSeen: null },
+  'room-joined': { type: 'room-joined', roomId: 'r1', manifest, members: ['alice'] },
+  'room-member-joined': { type: 'room-member-joined', roomId: 'r1', member: 'bob', manifest },
+  'room-member-left': { type: 'room-member-left', roomId: 'r1', member: 'bob', manifest }
+};
+
+const raw = (frame: Record<string, unknown>) => JSON.stringify({ protocolVersion: PROTOCOL_VERSION, ...frame });
+
+const envelope: DataChannelFrame = {
+  type: 'encrypted-message',
+  header: { dh: 'ab', pn: 0, n: 1 },
+  meta: { sender: 'alice', recipient: 'bob', counter: 1, id: 'm1', timestamp: 1700000000000 },
+  message: Buffer.from([0, 1, 2, 250, 255]).toString('base64')
+};
+
+describe('client and server frames', () => {
+  test('every client frame survives encode and parse', () => {
+    Object.values(clientFrames).forEach(frame => assert.deepEqual(parseClientFrame(encodeFrame(frame)), frame));
+  });
+
+  test('every server frame survives encode and parse', () => {
+    Object.values(serverFrames).forEach(frame => assert.deepEqual(parseServerFrame(encodeFrame(frame)), frame));
+  });
+
+  test('optional fields may be left out', () => {
+    const frame: ClientFrame = { type: 'register', publicKey: 'alice' };
+    assert.deepEqual(parseClientFrame(encodeFrame(frame)), frame);
+  });
+
+  test('rejects other protocol versions', () => {
+    const frame = encodeFrame(clientFrames.initiate);
+    for (const version of [PROTOCOL_VERSION + 1, 0, '1', undefined]) {
+      const wrong = JSON.stringify({ ...JSON.parse(frame), protocolVersion: version });
+      assert.throws(() => parseClientFrame(wrong), { code: 'unsupported-protocol-version' });
+    }
+  });
+
+  test('rejects unknown types, missing types and invalid JSON', () => {
+    assert.throws(() => parseClientFrame(raw({ type: 'shutdown' })), { code: 'malformed-frame', message: /Unknown frame type/ });
+    assert.throws(() => parseClientFrame(raw({ type: 'toString' })), { code: 'malformed-frame' });
+    assert.throws(() => parseServerFrame(encodeFrame(clientFrames.register)), { code: 'malformed-frame' });
+    assert.throws(() => parseClientFrame(raw({ publicKey: 'alice' })), { code: 'malformed-frame' });
+    assert.throws(() => parseClientFrame('[1]'), { code: 'malformed-frame' });
+    assert.throws(() => parseClientFrame('{'), { code: 'malformed-frame' });
+  });
+
+  test('rejects peer frames from clients without a recipient', () => {
+    const { recipient: _recipient, ...frame } = clientFrames.offer;
+    assert.throws(() => parseClientFrame(raw(frame)), { code: 'missing-recipient' });
+    assert.throws(() => parseClientFrame(raw({ ...frame, recipient: 7 })), { code: 'missing-recipient' });
+    assert.throws(() => parseServerFrame(raw(frame)), { code: 'malformed-frame' });
+  });
+
+  test('rejects fields of the wrong type', () => {
+    const cases: Record<string, unknown>[] = [
+      { ...clientFrames.register, publicKey: 42 },
+      { ...clientFrames['mailbox-ack'], deliveryIds: ['d1', 2] },
+      { ...clientFrames['presence-update'], status: 'offline' },
+      { ...clientFrames['room-join'], manifest: { ...manifest, version: 1.5 } },
+      { ...clientFrames['ecdh-public-key'], keys: { suite: 1 } },
+      { ...clientFrames['ice-candidate'], candidate: 'candidate:1' },
+      { ...clientFrames['encrypted-message'], meta: { ...clientFrames['encrypted-message'].meta, counter: '1' } },
+      { ...clientFrames['encrypted-message'], header: null }
+    ];
+    cases.forEach(frame => assert.throws(() => parseClientFrame(raw(frame)), { code: 'malformed-frame' }));
+    assert.throws(() => parseServerFrame(raw({ ...serverFrames.presence, lastSeen: undefined })), { code: 'malformed-frame' });
+    assert.throws(() => parseServerFrame(raw({ ...serverFrames['ice-servers'], iceServers: [{ urls: [1] }] })), {
+      code: 'malformed-frame'
+    });
+  });
+
+  test('drops fields the frame does not declare, at every level', () => {
+    const frame = clientFrames['encrypted-message'];
+    const parsed = parseClientFrame(raw({
+      ...frame,
+      html: '<script>',
+      header: { ...frame.header, extra: 1 },
+      meta: { ...frame.meta, note: 'x' }
+    }));
+    assert.deepEqual(parsed, frame);
+    assert.equal('protocolVersion' in parsed, false);
+
+    const servers = parseServerFrame(raw({ ...serverFrames['ice-servers'], iceServers: [{ urls: 'stun:a', extra: 1 }] }));
+    assert.deepEqual(servers, { ...serverFrames['ice-servers'], iceServers: [{ urls: 'stun:a' }] });
+  });
+});
+
+describe('data channel frames', () => {
+  test('round-trip as text and as binary', () => {
+    assert.deepEqual(parseDataChannelFrame(encodeFrame(envelope)), envelope);
+    assert.deepEqual(parseDataChannelFrame(encodeBinaryFrame(envelope)), envelope);
+  });
+
+  test('binary frames carry the ciphertext as raw bytes', () => {
+    const ciphertext = Buffer.from(envelope.message, 'base64');
+    const bytes = encodeBinaryFrame(envelope);
+    assert.deepEqual(bytes.subarray(bytes.length - ciphertext.length), new Uint8Array(ciphertext));
+    assert.equal(new TextDecoder().decode(bytes).includes(envelope.message), false);
+  });
+
+  test('rejects truncated or inconsistent binary frames', () => {
+    const bytes = encodeBinaryFrame(envelope);
+    assert.throws(() => parseDataChannelFrame(bytes.subarray(0, 3)), ProtocolError);
+    assert.throws(() => parseDataChannelFrame(bytes.subarray(0, 10)), /truncated/);
+
+    const json = new TextEncoder().encode(JSON.stringify({ ...envelope, protocolVersion: PROTOCOL_VERSION }));
+    const doubled = new Uint8Array(4 + json.length);
+    new DataView(doubled.buffer).setUint32(0, json.length);
+    doubled.set(json, 4);
+    assert.throws(() => parseDataChannelFrame(doubled), /message twice/);
+  });
+});
@@ -0,0 +1,490 @@
+// The wire protocol between clients and the signaling server, and between peers over the
+// data channel. Both sides import this file, so it must stay free of browser and Node APIs.
+
+import { decodeBase64, encodeBase64 } from './base64';
+
+// Bumped whenever a frame changes shape; frames from any other version are rejected
+export const PROTOCOL_VERSION = 2;
+
+export const MAX_ROOM_MEMBERS = 8;
+
+// How long the server holds an undelivered encrypted message for its recipient
+export const MAILBOX_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Longest contact list a client may approve or subscribe to
+export const MAX_PRESENCE_CONTACTS = 500;
+
+export type ErrorCode =
+  | 'unsupported-protocol-version'
+  | 'malformed-frame'
+  | 'invalid-public-key'
+  | 'no-challenge'
+  | 'authentication-failed'
+  | 'unauthenticated'
+  | 'sender-mismatch'
+  | 'session-replaced'
+  | 'invalid-room-manifest'
+  | 'not-a-room-member'
+  | 'stale-room-manifest'
+  | 'mailbox-full'
+  | 'frame-too-large'
+  | 'rate-limited'
+  | 'missing-recipient'
+  | 'recipient-unavailable'
+  | 'too-many-contacts';
+
+// Shapes carried inside frames
+
+export interface SessionDescription {
+  type: string;
+  sdp?: string;
+}
+
+export interface IceCandidate {
+  candidate?: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+  usernameFragment?: string | null;
+}
+
+export interface HandshakeFields {
+  version: number;
+  suites: string[];
+  keys: Record<string, string>;
+  identityKey: string;
+  certificate: string;
+  certificateExpiresAt: number;
+  signature: string;
+}
+
+export interface EnvelopeFields {
+  header: { dh: string; pn: number; n: number };
+  meta: { sender: string; recipient: string; counter: number; id: string; timestamp: number };
+  message: string;
+}
+
+// Matches RTCIceServer, which is not available outside the browser
+export interface IceServer {
+  urls: string | string[];
+  username?: string;
+  credential?: string;
+}
+
+// 'offline' is also what a contact sees once they are no longer approved
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+export interface RoomManifest {
+  roomId: string;
+  creator: string;
+  members: string[];
+  version: number;
+  signature: string;
+}
+
+// Frames a client sends to the server
+
+export interface RegisterFrame {
+  type: 'register';
+  publicKey: string;
+  resumeToken?: string;
+}
+
+export interface AuthenticateFrame {
+  type: 'authenticate';
+  publicKey: string;
+  signature: string;
+}
+
+export interface MailboxAckFrame {
+  type: 'mailbox-ack';
+  sender: string;
+  deliveryIds: string[];
+}
+
+export interface RoomJoinFrame {
+  type: 'room-join';
+  sender: string;
+  manifest: RoomManifest;
+}
+
+export interface RoomLeaveFrame {
+  type: 'room-leave';
+  sender: string;
+  roomId: string;
+}
+
+// Replaces the list of contacts allowed to see the sender's presence
+export interface PresenceApproveFrame {
+  type: 'presence-approve';
+  sender: string;
+  contacts: string[];
+}
+
+// Replaces the list of contacts whose presence the sender wants to follow
+export interface PresenceSubscribeFrame {
+  type: 'presence-subscribe';
+  sender: string;
+  contacts: string[];
+}
+
+export interface PresenceUpdateFrame {
+  type: 'presence-update';
+  sender: string;
+  status: Exclude<PresenceStatus, 'offline'>;
+}
+
+// Frames the server relays from one client to another, addressed by wallet address
+
+interface Addressed {
+  sender: string;
+  recipient: string;
+}
+
+export interface InitiateFrame extends Addressed {
+  type: 'initiate';
+}
+
+export interface OfferFrame extends Addressed {
+  type: 'offer';
+  offer: SessionDescription;
+}
+
+export interface AnswerFrame extends Addressed {
+  type: 'answer';
+  answer: SessionDescription;
+}
+
+export interface IceCandidateFrame extends Addressed {
+  type: 'ice-candidate';
+  candidate: IceCandidate;
+}
+
+export interface HandshakeFrame extends Addressed, HandshakeFields {
+  type: 'ecdh-public-key';
+}
+
+export interface KeyConfirmationFrame extends Addressed {
+  type: 'key-confirmation';
+  mac: string;
+}
+
+export interface ConversationClosedFrame extends Addressed {
+  type: 'conversation-closed';
+}
+
+export interface RelayedEncryptedMessageFrame extends Addressed, EnvelopeFields {
+  type: 'encrypted-message';
+  // Set by the server's mailbox; acknowledged with a mailbox-ack
+  deliveryId?: string;
+}
+
+export type PeerFrame =
+  | InitiateFrame
+  | OfferFrame
+  | AnswerFrame
+  | IceCandidateFrame
+  | HandshakeFrame
+  | KeyConfirmationFrame
+  | ConversationClosedFrame
+  | RelayedEncryptedMessageFrame;
+
+// A peer frame before ConnectionManager fills in its sender and recipient
+type Unaddressed<T> = T extends PeerFrame ? Omit<T, 'sender' | 'recipient'> : never;
+export type UnaddressedPeerFrame = Unaddressed<PeerFrame>;
+
+// Frames the server sends on its own behalf
+
+export interface ChallengeFrame {
+  type: 'challenge';
+  publicKey: string;
+  nonce: string;
+}
+
+export interface RegisteredFrame {
+  type: 'registered';
+  publicKey: string;
+  resumeToken: string;
+}
+
+export interface ErrorFrame {
+  type: 'error';
+  code: ErrorCode;
+  message: string;
+}
+
+// Short-lived TURN credentials, sent after registration and again before they expire
+export interface IceServersFrame {
+  type: 'ice-servers';
+  iceServers: IceServer[];
+  // Milliseconds since the epoch
+  expiresAt: number;
+}
+
+// Only sent about contacts who have approved the recipient
+export interface PresenceFrame {
+  type: 'presence';
+  contact: string;
+  status: PresenceStatus;
+  // Milliseconds since the epoch of the contact's last status change; null if never seen
+  lastSeen: number | null;
+}
+
+export interface RoomJoinedFrame {
+  type: 'room-joined';
+  roomId: string;
+  manifest: RoomManifest;
+  members: string[];
+}
+
+export interface RoomMemberJoinedFrame {
+  type: 'room-member-joined';
+  roomId: string;
+  member: string;
+  manifest: RoomManifest;
+}
+
+export interface RoomMemberLeftFrame {
+  type: 'room-member-left';
+  roomId: string;
+  member: string;
+  manifest: RoomManifest;
+}
+
+// Frames sent peer to peer over the data channel
+
+export interface EncryptedMessageFrame extends EnvelopeFields {
+  type: 'encrypted-message';
+}
+
+export type ClientFrame =
+  | RegisterFrame
+  | AuthenticateFrame
+  | MailboxAckFrame
+  | RoomJoinFrame
+  | RoomLeaveFrame
+  | PresenceApproveFrame
+  | PresenceSubscribeFrame
+  | PresenceUpdateFrame
+  | PeerFrame;
+export type ServerFrame =
+  | ChallengeFrame
+  | RegisteredFrame
+  | ErrorFrame
+  | IceServersFrame
+  | PresenceFrame
+  | RoomJoinedFrame
+  | RoomMemberJoinedFrame
+  | RoomMemberLeftFrame
+  | PeerFrame;
+export type DataChannelFrame = EncryptedMessageFrame;
+
+export class ProtocolError extends Error {
+  readonly code: ErrorCode;
+
+  constructor(code: ErrorCode, message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+    this.code = code;
+  }
+}
+
+// Runtime validation. Each parser returns the value with undeclared fields dropped, or INVALID,
+// so nothing a sender adds to a frame is ever relayed or acted on.
+
+const INVALID = Symbol('invalid');
+type Parser = (value: unknown) => unknown;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const check = (test: (value: unknown) => boolean): Parser => value => test(value) ? value : INVALID;
+const isString = check(value => typeof value === 'string');
+const isInteger = check(value => Number.isInteger(value));
+const oneOf = (...values: string[]): Parser => check(value => typeof value === 'string' && values.includes(value));
+const optional = (parse: Parser): Parser => value => value === undefined ? undefined : parse(value);
+const nullable = (parse: Parser): Parser => value => value === null ? null : parse(value);
+const either = (...parsers: Parser[]): Parser => value =>
+  parsers.map(parse => parse(value)).find(parsed => parsed !== INVALID) ?? INVALID;
+const arrayOf = (parse: Parser): Parser => value => {
+  if (!Array.isArray(value)) return INVALID;
+  const items = value.map(parse);
+  return items.includes(INVALID) ? INVALID : items;
+};
+const recordOf = (parse: Parser): Parser => value => {
+  if (!isRecord(value)) return INVALID;
+  const entries = Object.entries(value).map(([key, item]) => [key, parse(item)]);
+  return entries.some(([, item]) => item === INVALID) ? INVALID : Object.fromEntries(entries);
+};
+const shape = (fields: Record<string, Parser>): Parser => value => {
+  if (!isRecord(value)) return INVALID;
+  const result: Record<string, unknown> = {};
+  for (const [field, parse] of Object.entries(fields)) {
+    const parsed = parse(value[field]);
+    if (parsed === INVALID) return INVALID;
+    if (parsed !== undefined) result[field] = parsed;
+  }
+  return result;
+};
+
+const sessionDescription = shape({ type: isString, sdp: optional(isString) });
+const iceCandidate = shape({
+  candidate: optional(isString),
+  sdpMid: optional(nullable(isString)),
+  sdpMLineIndex: optional(nullable(isInteger)),
+  usernameFragment: optional(nullable(isString))
+});
+const iceServer = shape({
+  urls: either(isString, arrayOf(isString)),
+  username: optional(isString),
+  credential: optional(isString)
+});
+const roomManifest = shape({
+  roomId: isString,
+  creator: isString,
+  members: arrayOf(isString),
+  version: isInteger,
+  signature: isString
+});
+const envelope = {
+  header: shape({ dh: isString, pn: isInteger, n: isInteger }),
+  meta: shape({ sender: isString, recipient: isString, counter: isInteger, id: isString, timestamp: isInteger }),
+  message: isString
+};
+const addressed = { sender: isString, recipient: isString };
+
+const PEER_FRAME_FIELDS: Record<PeerFrame['type'], Record<string, Parser>> = {
+  'initiate': addressed,
+  'offer': { ...addressed, offer: sessionDescription },
+  'answer': { ...addressed, answer: sessionDescription },
+  'ice-candidate': { ...addressed, candidate: iceCandidate },
+  'ecdh-public-key': {
+    ...addressed,
+    version: isInteger,
+    suites: arrayOf(isString),
+    keys: recordOf(isString),
+    identityKey: isString,
+    certificate: isString,
+    certificateExpiresAt: isInteger,
+    signature: isString
+  },
+  'key-confirmation': { ...addressed, mac: isString },
+  'conversation-closed': addressed,
+  'encrypted-message': { ...addressed, ...envelope, deliveryId: optional(isString) }
+};
+
+const CLIENT_FRAME_FIELDS: Record<ClientFrame['type'], Record<string, Parser>> = {
+  ...PEER_FRAME_FIELDS,
+  'register': { publicKey: isString, resumeToken: optional(isString) },
+  'authenticate': { publicKey: isString, signature: isString },
+  'mailbox-ack': { sender: isString, deliveryIds: arrayOf(isString) },
+  'room-join': { sender: isString, manifest: roomManifest },
+  'room-leave': { sender: isString, roomId: isString },
+  'presence-approve': { sender: isString, contacts: arrayOf(isString) },
+  'presence-subscribe': { sender: isString, contacts: arrayOf(isString) },
+  'presence-update': { sender: isString, status: oneOf('online', 'away') }
+};
+
+const SERVER_FRAME_FIELDS: Record<ServerFrame['type'], Record<string, Parser>> = {
+  ...PEER_FRAME_FIELDS,
+  'challenge': { publicKey: isString, nonce: isString },
+  'registered': { publicKey: isString, resumeToken: isString },
+  'error': { code: isString, message: isString },
+  'ice-servers': { iceServers: arrayOf(iceServer), expiresAt: isInteger },
+  'presence': { contact: isString, status: oneOf('online', 'away', 'offline'), lastSeen: nullable(isInteger) },
+  'room-joined': { roomId: isString, manifest: roomManifest, members: arrayOf(isString) },
+  'room-member-joined': { roomId: isString, member: isString, manifest: roomManifest },
+  'room-member-left': { roomId: isString, member: isString, manifest: roomManifest }
+};
+
+const DATA_CHANNEL_FRAME_FIELDS: Record<DataChannelFrame['type'], Record<string, Parser>> = {
+  'encrypted-message': envelope
+};
+
+function decodeJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new ProtocolError('malformed-frame', 'Frame is not valid JSON');
+  }
+}
+
+function parseFrame<T>(frame: unknown, fieldsByType: Record<string, Record<string, Parser>>, requireRecipient: boolean = false): T {
+  if (!isRecord(frame) || typeof frame.type !== 'string') {
+    throw new ProtocolError('malformed-frame', 'Frame has no type');
+  }
+  if (frame.protocolVersion !== PROTOCOL_VERSION) {
+    throw new ProtocolError(
+      'unsupported-protocol-version',
+      `Expected protocol version ${PROTOCOL_VERSION}, got ${String(frame.protocolVersion)}`
+    );
+  }
+  if (!Object.prototype.hasOwnProperty.call(fieldsByType, frame.type)) {
+    throw new ProtocolError('malformed-frame', `Unknown frame type '${frame.type}'`);
+  }
+  // Peer frames from clients are only ever relayed to one recipient, never broadcast. Data
+  // channel frames need no recipient: the channel only has one.
+  if (requireRecipient && Object.prototype.hasOwnProperty.call(PEER_FRAME_FIELDS, frame.type) && typeof frame.recipient !== 'string') {
+    throw new ProtocolError('missing-recipient', `Frame '${frame.type}' has no recipient`);
+  }
+  const fields = shape(fieldsByType[frame.type])(frame);
+  if (fields === INVALID) {
+    throw new ProtocolError('malformed-frame', `Frame '${frame.type}' has missing or invalid fields`);
+  }
+  return { type: frame.type, ...(fields as Record<string, unknown>) } as T;
+}
+
+export function encodeFrame(frame: ClientFrame | ServerFrame | DataChannelFrame): string {
+  return JSON.stringify({ ...frame, protocolVersion: PROTOCOL_VERSION });
+}
+
+// Data channel frames may also be binary, which spares base64 for bulk data such as file
+// chunks: a 4-byte big-endian length, that many bytes of the frame's JSON without `message`,
+// then the raw ciphertext
+export function encodeBinaryFrame(frame: DataChannelFrame): Uint8Array {
+  const { message, ...rest } = frame;
+  const json = new TextEncoder().encode(JSON.stringify({ ...rest, protocolVersion: PROTOCOL_VERSION }));
+  const ciphertext = decodeBase64(message);
+  const bytes = new Uint8Array(4 + json.length + ciphertext.length);
+  new DataView(bytes.buffer).setUint32(0, json.length);
+  bytes.set(json, 4);
+  bytes.set(ciphertext, 4 + json.length);
+  return bytes;
+}
+
+export function parseClientFrame(raw: string): ClientFrame {
+  return parseFrame<ClientFrame>(decodeJson(raw), CLIENT_FRAME_FIELDS, true);
+}
+
+export function parseServerFrame(raw: string): ServerFrame {
+  return parseFrame<ServerFrame>(decodeJson(raw), SERVER_FRAME_FIELDS);
+}
+
+// Accepts both text frames and binary ones from encodeBinaryFrame
+export function parseDataChannelFrame(raw: string | Uint8Array): DataChannelFrame {
+  if (typeof raw === 'string') {
+    return parseFrame<DataChannelFrame>(decodeJson(raw), DATA_CHANNEL_FRAME_FIELDS);
+  }
+  const length = raw.length >= 4 ? new DataView(raw.buffer, raw.byteOffset, raw.byteLength).getUint32(0) : -1;
+  if (length < 0 || 4 + length > raw.length) {
+    throw new ProtocolError('malformed-frame', 'Binary frame is truncated');
+  }
+  const frame = decodeJson(new TextDecoder().decode(raw.subarray(4, 4 + length)));
+  if (isRecord(frame) && 'message' in frame) {
+    throw new ProtocolError('malformed-frame', 'Binary frame carries its message twice');
+  }
+  const message = encodeBase64(raw.subarray(4 + length));
+  return parseFrame<DataChannelFrame>(isRecord(frame) ? { ...frame, message } : frame, DATA_CHANNEL_FRAME_FIELDS);
+}
+
+export function isPeerFrame(frame: ClientFrame | ServerFrame): frame is PeerFrame {
+  return Object.prototype.hasOwnProperty.call(PEER_FRAME_FIELDS, frame.type);
+}
+
+// Signed by the wallet to answer the server's challenge
+export function buildAuthenticationMessage(publicKey: string, nonce: string): string {
+  return `AnRox signaling authentication\nPublic key: ${publicKey}\nNonce: ${nonce}`;
+}
+
+// Signed by a room creator's wallet
+export function buildRoomManifestMessage(manifest: Omit<RoomManifest, 'signature'>): string {
+  return `AnRox room manifest\nRoom: ${manifest.roomId}\nCreator: ${manifest.creator}\nVersion: ${manifest.version}\nMembers: ${manifest.members.join(',')}`;
+}
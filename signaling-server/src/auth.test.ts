@@ -0,0 +1,168 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import bs58 from 'bs58';
+import { ed25519 } from '@noble/curves/ed25519';
+import { Challenge, createChallenge, verifyChallengeSignature } from './auth';
+import { TestClient, TestServer, startTestServer } from './testing';
+import { buildAuthenticationMessage } from '../../shared/protocol';
+
+function keypair() {
+  const privateKey = ed25519.utils.randomPrivateKey();
+  return { privateKey, publicKey: bs58.encode(ed25519.getPublicKey(privateKey)) };
+}
+
+function sign(challenge: Challenge, privateKey: Uint8Array, nonce = challenge.nonce): string {
+  const message = new TextEncoder().encode(buildAuthenticationMessage(challenge.publicKey, nonce));
+  return Buffer.from(ed25519.sign(message, privateKey)).toString('base64');
+}
+
+describe('verifyChallengeSignature', () => {
+  test('accepts the key owner signing the nonce it was given', () => {
+    const { privateKey, publicKey } = keypair();
+    const challenge = createChallenge(publicKey);
+    assert.equal(verifyChallengeSignature(challenge, sign(challenge, privateKey)), true);
+  });
+
+  test('rejects another nonce, another key, an expired challenge and garbage', () => {
+    const { privateKey, publicKey } = keypair();
+    const challenge = createChallenge(publicKey);
+    assert.equal(verifyChallengeSignature(challenge, sign(challenge, privateKey, createChallenge(publicKey).nonce)), false);
+    assert.equal(verifyChallengeSignature(challenge, sign(challenge, keypair().privateKey)), false);
+    assert.equal(verifyChallengeSignature({ ...challenge, expiresAt: Date.now() - 1 }, sign(challenge, privateKey)), false);
+    assert.equal(verifyChallengeSignature(challenge, 'c2ln'), false);
+    assert.equal(verifyChallengeSignature({ ...challenge, publicKey: 'not-a-key' }, sign(challenge, privateKey)), false);
+  });
+});
+
+describe('registration', () => {
+  let server: TestServer;
+  before(async () => {
+    server = await startTestServer();
+  });
+  after(() => server.stop());
+
+  test('a valid signature binds the key to the socket', async () => {
+    const alice = await TestClient.connect(server.url);
+    const bob = await TestClient.connect(server.url);
+    assert.match(await alice.register(), /^[0-9a-f]{64}$/);
+    await bob.register();
+
+    alice.send({ type: 'initiate', sender: alice.publicKey, recipient: bob.publicKey });
+    assert.equal((await bob.next('initiate')).sender, alice.publicKey);
+    await alice.close();
+    await bob.close();
+  });
+
+  test('rejects a signature over another nonce or from another key', async () => {
+    const client = await TestClient.connect(server.url);
+    const other = await TestClient.connect(server.url);
+
+    client.send({ type: 'register', publicKey: client.publicKey });
+    const challenge = await client.next('challenge');
+    client.send({ type: 'authenticate', publicKey: client.publicKey, signature: client.sign(client.publicKey, 'another nonce') });
+    assert.equal((await client.next('error')).code, 'authentication-failed');
+
+    client.send({ type: 'register', publicKey: client.publicKey });
+    const second = await client.next('challenge');
+    assert.notEqual(second.nonce, challenge.nonce);
+    client.send({ type: 'authenticate', publicKey: client.publicKey, signature: other.sign(client.publicKey, second.nonce) });
+    assert.equal((await client.next('error')).code, 'authentication-failed');
+    await client.close();
+    await other.close();
+  });
+
+  test('a challenge can only be answered once', async () => {
+    const client = await TestClient.connect(server.url);
+    client.send({ type: 'register', publicKey: client.publicKey });
+    const { nonce } = await client.next('challenge');
+    client.send({ type: 'authenticate', publicKey: client.publicKey, signature: 'c2ln' });
+    assert.equal((await client.next('error')).code, 'authentication-failed');
+
+    // The right answer is too late once the nonce is spent
+    client.send({ type: 'authenticate', publicKey: client.publicKey, signature: client.sign(client.publicKey, nonce) });
+    assert.equal((await client.next('error')).code, 'no-challenge');
+    await client.close();
+  });
+
+  test('refuses to authenticate without a challenge, or for a key the challenge was not for', async () => {
+    const client = await TestClient.connect(server.url);
+    client.send({ type: 'authenticate', publicKey: client.publicKey, signature: 'c2ln' });
+    assert.equal((await client.next('error')).code, 'no-challenge');
+
+    const other = keypair().publicKey;
+    client.send({ type: 'register', publicKey: client.publicKey });
+    const { nonce } = await client.next('challenge');
+    client.send({ type: 'authenticate', publicKey: other, signature: client.sign(other, nonce) });
+    assert.equal((await client.next('error')).code, 'no-challenge');
+    await client.close();
+  });
+
+  test('peer frames need an authenticated socket whose key matches the sender', async () => {
+    const alice = await TestClient.connect(server.url);
+    const bob = await TestClient.connect(server.url);
+    await bob.register();
+
+    alice.send({ type: 'initiate', sender: alice.publicKey, recipient: bob.publicKey });
+    assert.equal((await alice.next('error')).code, 'unauthenticated');
+
+    await alice.register();
+    alice.send({ type: 'initiate', sender: bob.publicKey, recipient: alice.publicKey });
+    assert.equal((await alice.next('error')).code, 'sender-mismatch');
+    alice.send({ type: 'presence-update', sender: bob.publicKey, status: 'away' });
+    assert.equal((await alice.next('error')).code, 'sender-mismatch');
+    assert.deepEqual(await alice.collect('initiate'), []);
+    await alice.close();
+    await bob.close();
+  });
+
+  test('a second socket cannot take over an address it cannot sign for', async () => {
+    const alice = await TestClient.connect(server.url);
+    const bob = await TestClient.connect(server.url);
+    const mallory = await TestClient.connect(server.url);
+    await alice.register();
+    await bob.register();
+
+    mallory.send({ type: 'register', publicKey: alice.publicKey });
+    const { nonce } = await mallory.next('challenge');
+    mallory.send({ type: 'authenticate', publicKey: alice.publicKey, signature: mallory.sign(alice.publicKey, nonce) });
+    assert.equal((await mallory.next('error')).code, 'authentication-failed');
+
+    // A made-up resume token only earns another challenge
+    mallory.send({ type: 'register', publicKey: alice.publicKey, resumeToken: '00'.repeat(32) });
+    await mallory.next('challenge');
+    mallory.send({ type: 'initiate', sender: alice.publicKey, recipient: bob.publicKey });
+    assert.equal((await mallory.next('error')).code, 'unauthenticated');
+
+    bob.send({ type: 'initiate', sender: bob.publicKey, recipient: alice.publicKey });
+    await alice.next('initiate');
+    assert.deepEqual(await mallory.collect('initiate'), []);
+    assert.equal(alice.isOpen, true);
+    await Promise.all([alice.close(), bob.close(), mallory.close()]);
+  });
+
+  test('the key owner registering again replaces the old socket', async () => {
+    const first = await TestClient.connect(server.url);
+    await first.register();
+    const second = await TestClient.connect(server.url, { privateKey: first.privateKey });
+    await second.register();
+    assert.equal((await first.next('error')).code, 'session-replaced');
+    await first.closed();
+    await second.close();
+  });
+
+  test('a resume token registers once without a signature', async () => {
+    const first = await TestClient.connect(server.url);
+    const resumeToken = await first.register();
+    await first.close();
+
+    const resumed = await TestClient.connect(server.url, { privateKey: first.privateKey });
+    resumed.send({ type: 'register', publicKey: resumed.publicKey, resumeToken });
+    await resumed.next('registered');
+    await resumed.close();
+
+    const replayed = await TestClient.connect(server.url, { privateKey: first.privateKey });
+    replayed.send({ type: 'register', publicKey: replayed.publicKey, resumeToken });
+    await replayed.next('challenge');
+    await replayed.close();
+  });
+});
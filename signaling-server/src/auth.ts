@@ -0,0 +1,74 @@
+import { randomBytes } from 'crypto';
+import { ed25519 } from '@noble/curves/ed25519';
+import bs58 from 'bs58';
+import { StoreConnection } from './store';
+import { buildAuthenticationMessage } from '../../shared/protocol';
+import { createLogger } from '../../shared/logger';
+
+const log = createLogger('auth');
+
+// How long a client has to answer a challenge before it must request a new one
+export const CHALLENGE_TTL_MS = 60 * 1000;
+// How long a reconnecting client may skip the challenge by presenting its resume token
+export const RESUME_TOKEN_TTL_MS = 10 * 60 * 1000;
+
+export interface Challenge {
+  publicKey: string;
+  nonce: string;
+  expiresAt: number;
+}
+
+// Single-use tokens handed out after a successful authentication, mapped to their public key.
+// They live in the store, so a client can resume on any node, and expire with their key.
+const RESUME_TOKEN_PREFIX = 'anrox:resume:';
+
+export function createChallenge(publicKey: string): Challenge {
+  return {
+    publicKey,
+    nonce: randomBytes(32).toString('hex'),
+    expiresAt: Date.now() + CHALLENGE_TTL_MS
+  };
+}
+
+export function decodePublicKey(publicKey: string): Uint8Array | null {
+  try {
+    const bytes = bs58.decode(publicKey);
+    return bytes.length === 32 ? bytes : null;
+  } catch {
+    return null;
+  }
+}
+
+export function verifyChallengeSignature(challenge: Challenge, signatureBase64: string): boolean {
+  if (Date.now() > challenge.expiresAt) {
+    return false;
+  }
+
+  const publicKeyBytes = decodePublicKey(challenge.publicKey);
+  if (!publicKeyBytes) {
+    return false;
+  }
+
+  try {
+    const signature = Buffer.from(signatureBase64, 'base64');
+    if (signature.length !== 64) {
+      return false;
+    }
+    const message = new TextEncoder().encode(buildAuthenticationMessage(challenge.publicKey, challenge.nonce));
+    return ed25519.verify(signature, message, publicKeyBytes);
+  } catch (error) {
+    log.error('Error verifying challenge signature', { error });
+    return false;
+  }
+}
+
+export async function issueResumeToken(store: StoreConnection, publicKey: string): Promise<string> {
+  const token = randomBytes(32).toString('hex');
+  await store.set(`${RESUME_TOKEN_PREFIX}${token}`, publicKey, 'PX', RESUME_TOKEN_TTL_MS);
+  return token;
+}
+
+// Consumes the token either way, so a leaked token cannot be replayed after its first use
+export async function redeemResumeToken(store: StoreConnection, publicKey: string, token: string): Promise<boolean> {
+  return (await store.getdel(`${RESUME_TOKEN_PREFIX}${token}`)) === publicKey;
+}
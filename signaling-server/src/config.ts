@@ -0,0 +1,92 @@
+import { LOG_FORMATS, LOG_LEVELS, LogFormat, LogLevel } from '../../shared/logger';
+
+// Server settings and limits, overridable through environment variables
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive number, got '${value}'`);
+  }
+  return parsed;
+}
+
+function stringFromEnv(name: string): string | undefined {
+  const value = process.env[name];
+  return value === undefined || value === '' ? undefined : value;
+}
+
+function choiceFromEnv<T extends string>(name: string, choices: readonly T[], fallback: T): T {
+  const value = stringFromEnv(name);
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!choices.includes(value as T)) {
+    throw new Error(`${name} must be one of ${choices.join(', ')}, got '${value}'`);
+  }
+  return value as T;
+}
+
+function listFromEnv(name: string): string[] {
+  return (stringFromEnv(name) ?? '').split(',').map(item => item.trim()).filter(item => item !== '');
+}
+
+export const PORT = numberFromEnv('PORT', 8080);
+// Unset listens on every interface
+export const HOST = stringFromEnv('HOST');
+
+// With both set the server speaks wss:// itself; otherwise terminate TLS in a reverse proxy
+export const TLS_CERT_FILE = stringFromEnv('TLS_CERT_FILE');
+export const TLS_KEY_FILE = stringFromEnv('TLS_KEY_FILE');
+
+// Serves /metrics on its own port, which listens on METRICS_HOST: localhost unless set, since
+// relay counts and rate-limit hits are not for the public. Unset serves no metrics there.
+export const METRICS_PORT = stringFromEnv('METRICS_PORT') === undefined ? undefined : numberFromEnv('METRICS_PORT', 0);
+export const METRICS_HOST = stringFromEnv('METRICS_HOST') ?? '127.0.0.1';
+// Set to true to also serve /metrics on the WebSocket port, where anyone who can reach the
+// server can read it
+export const METRICS_PUBLIC = stringFromEnv('METRICS_PUBLIC') === 'true';
+
+// Frame contents are only logged at debug
+export const LOG_LEVEL: LogLevel = choiceFromEnv('LOG_LEVEL', LOG_LEVELS, 'info');
+export const LOG_FORMAT: LogFormat = choiceFromEnv('LOG_FORMAT', LOG_FORMATS, 'json');
+// Set to false to log SDP, ICE candidates and key material while debugging locally
+export const LOG_REDACT = stringFromEnv('LOG_REDACT') !== 'false';
+
+// Set to share routing with other nodes through a Redis-compatible server, e.g.
+// redis://localhost:6379; unset keeps this node on its own
+export const REDIS_URL = stringFromEnv('REDIS_URL');
+
+// Shared with coturn's `static-auth-secret`; TURN credentials are only issued when it and
+// TURN_URLS are set
+export const TURN_SECRET = stringFromEnv('TURN_SECRET');
+export const TURN_URLS = listFromEnv('TURN_URLS');
+export const TURN_CREDENTIAL_TTL_SECONDS = numberFromEnv('TURN_CREDENTIAL_TTL_SECONDS', 60 * 60);
+
+// Largest frame, in bytes, the server will parse; anything bigger is refused unread
+export const MAX_FRAME_BYTES = numberFromEnv('MAX_FRAME_BYTES', 64 * 1024);
+
+export interface RateLimit {
+  // Frames that may arrive back to back
+  burst: number;
+  // Sustained frames per second
+  perSecond: number;
+}
+
+// Applies to every socket, authenticated or not
+export const SOCKET_RATE_LIMIT: RateLimit = {
+  burst: numberFromEnv('SOCKET_RATE_BURST', 60),
+  perSecond: numberFromEnv('SOCKET_RATE_PER_SECOND', 20)
+};
+
+// Applies to a public key across all of its connections, so reconnecting does not reset it
+export const KEY_RATE_LIMIT: RateLimit = {
+  burst: numberFromEnv('KEY_RATE_BURST', 120),
+  perSecond: numberFromEnv('KEY_RATE_PER_SECOND', 30)
+};
+
+// A socket that has not answered the previous ping by the next one is terminated
+export const HEARTBEAT_INTERVAL_MS = numberFromEnv('HEARTBEAT_INTERVAL_MS', 30 * 1000);
@@ -0,0 +1,77 @@
+import { randomBytes } from 'crypto';
+import { StoreConnection } from './store';
+import { MAILBOX_TTL_MS, RelayedEncryptedMessageFrame } from '../../shared/protocol';
+import { createLogger } from '../../shared/logger';
+
+const log = createLogger('mailbox');
+
+export { MAILBOX_TTL_MS };
+// Most messages held for one recipient at a time
+export const MAILBOX_QUOTA = 200;
+
+export interface MailboxEntry {
+  deliveryId: string;
+  // Only the fields of an `encrypted-message` frame are kept: the ciphertext, its ratchet
+  // header and the envelope metadata. Nothing the server stores can be decrypted by it.
+  frame: RelayedEncryptedMessageFrame;
+  expiresAt: number;
+}
+
+// Each recipient's mailbox is a hash in the store from delivery ID to entry, shared by every
+// node, so the recipient can fetch and acknowledge its messages wherever it connects
+function mailboxKey(recipient: string): string {
+  return `anrox:mailbox:${recipient}`;
+}
+
+// Returns null when the recipient's mailbox is full
+export async function storeMessage(store: StoreConnection, message: RelayedEncryptedMessageFrame): Promise<MailboxEntry | null> {
+  const mailbox = await pendingMessages(store, message.recipient);
+  if (mailbox.length >= MAILBOX_QUOTA) {
+    return null;
+  }
+  const entry: MailboxEntry = {
+    deliveryId: randomBytes(16).toString('hex'),
+    frame: {
+      type: 'encrypted-message',
+      sender: message.sender,
+      recipient: message.recipient,
+      header: message.header,
+      meta: message.meta,
+      message: message.message
+    },
+    expiresAt: Date.now() + MAILBOX_TTL_MS
+  };
+  const key = mailboxKey(message.recipient);
+  await store.hset(key, entry.deliveryId, JSON.stringify(entry));
+  // The newest entry keeps the whole mailbox alive; older ones are dropped as they are read
+  await store.pexpire(key, MAILBOX_TTL_MS);
+  return entry;
+}
+
+// Entries stay until the recipient acknowledges them, so they are redelivered on every
+// registration until then. Oldest first.
+export async function pendingMessages(store: StoreConnection, recipient: string): Promise<MailboxEntry[]> {
+  const key = mailboxKey(recipient);
+  const now = Date.now();
+  const entries = Object.values(await store.hgetall(key)).flatMap(parseEntry);
+  const expired = entries.filter(entry => now > entry.expiresAt);
+  if (expired.length > 0) {
+    await store.hdel(key, ...expired.map(entry => entry.deliveryId));
+  }
+  return entries.filter(entry => now <= entry.expiresAt).sort((a, b) => a.expiresAt - b.expiresAt);
+}
+
+export async function acknowledgeMessages(store: StoreConnection, recipient: string, deliveryIds: string[]) {
+  if (deliveryIds.length > 0) {
+    await store.hdel(mailboxKey(recipient), ...deliveryIds);
+  }
+}
+
+function parseEntry(stored: string): MailboxEntry[] {
+  try {
+    return [JSON.parse(stored)];
+  } catch (error) {
+    log.error('Dropping unreadable mailbox entry', { error });
+    return [];
+  }
+}
@@ -0,0 +1,189 @@
+import { EventEmitter } from 'events';
+import { PubSubConnection } from './router';
+import { StoreConnection } from './store';
+
+// An in-process stand-in for a Redis server. Routers and stores that connect to the same
+// instance behave like signaling nodes sharing one Redis, which is handy for tests and local
+// experiments. Messages arrive asynchronously, as they would over the network.
+export class MemoryPubSub {
+  private channels = new Map<string, Set<MemoryPubSubConnection>>();
+  private keys = new Map<string, StoredKey>();
+
+  connect(): PubSubConnection & StoreConnection {
+    return new MemoryPubSubConnection(this);
+  }
+
+  publish(channel: string, message: string): number {
+    const subscribers = Array.from(this.channels.get(channel) ?? []);
+    subscribers.forEach(connection => setImmediate(() => connection.emit('message', channel, message)));
+    return subscribers.length;
+  }
+
+  subscribe(connection: MemoryPubSubConnection, channel: string) {
+    const subscribers = this.channels.get(channel) ?? new Set<MemoryPubSubConnection>();
+    subscribers.add(connection);
+    this.channels.set(channel, subscribers);
+  }
+
+  unsubscribe(connection: MemoryPubSubConnection, channel: string) {
+    const subscribers = this.channels.get(channel);
+    subscribers?.delete(connection);
+    if (subscribers?.size === 0) {
+      this.channels.delete(channel);
+    }
+  }
+
+  disconnect(connection: MemoryPubSubConnection) {
+    Array.from(this.channels.keys()).forEach(channel => this.unsubscribe(connection, channel));
+  }
+
+  // Expired keys are dropped when they are next read; this drops the ones nobody reads again
+  pruneExpired() {
+    Array.from(this.keys.keys()).forEach(key => this.lookup(key));
+  }
+
+  lookup(key: string): StoredKey | undefined {
+    const stored = this.keys.get(key);
+    if (stored && stored.expiresAt !== null && Date.now() >= stored.expiresAt) {
+      this.keys.delete(key);
+      return undefined;
+    }
+    return stored;
+  }
+
+  // Like Redis, writing a plain value clears its expiry, and a key whose hash or set becomes
+  // empty no longer exists
+  write(key: string, value: StoredValue, expiresAt: number | null = null) {
+    if (typeof value !== 'string' && value.size === 0) {
+      this.keys.delete(key);
+    } else {
+      this.keys.set(key, { value, expiresAt });
+    }
+  }
+
+  remove(key: string): boolean {
+    const existed = this.lookup(key) !== undefined;
+    this.keys.delete(key);
+    return existed;
+  }
+}
+
+type StoredValue = string | Map<string, string> | Set<string>;
+
+interface StoredKey {
+  value: StoredValue;
+  // Milliseconds since the epoch, or null to keep the key until it is deleted
+  expiresAt: number | null;
+}
+
+class MemoryPubSubConnection extends EventEmitter implements PubSubConnection, StoreConnection {
+  private server: MemoryPubSub;
+
+  constructor(server: MemoryPubSub) {
+    super();
+    this.server = server;
+  }
+
+  async publish(channel: string, message: string): Promise<number> {
+    return this.server.publish(channel, message);
+  }
+
+  async subscribe(channel: string) {
+    this.server.subscribe(this, channel);
+  }
+
+  async unsubscribe(channel: string) {
+    this.server.unsubscribe(this, channel);
+  }
+
+  async quit() {
+    this.server.disconnect(this);
+    this.removeAllListeners();
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.read(key, 'string') ?? null;
+  }
+
+  async set(key: string, value: string, _millisecondsToken?: 'PX', milliseconds?: number) {
+    this.server.write(key, value, milliseconds === undefined ? null : Date.now() + milliseconds);
+    return 'OK';
+  }
+
+  async getdel(key: string): Promise<string | null> {
+    const value = this.read(key, 'string') ?? null;
+    this.server.remove(key);
+    return value;
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    return keys.filter(key => this.server.remove(key)).length;
+  }
+
+  async pexpire(key: string, milliseconds: number): Promise<number> {
+    const stored = this.server.lookup(key);
+    if (!stored) {
+      return 0;
+    }
+    stored.expiresAt = Date.now() + milliseconds;
+    return 1;
+  }
+
+  async hset(key: string, field: string, value: string): Promise<number> {
+    const hash = new Map(this.read(key, 'hash'));
+    const added = hash.has(field) ? 0 : 1;
+    hash.set(field, value);
+    this.update(key, hash);
+    return added;
+  }
+
+  async hdel(key: string, ...fields: string[]): Promise<number> {
+    const hash = new Map(this.read(key, 'hash'));
+    const removed = fields.filter(field => hash.delete(field)).length;
+    this.update(key, hash);
+    return removed;
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.read(key, 'hash') ?? []);
+  }
+
+  async sadd(key: string, ...members: string[]): Promise<number> {
+    const set = new Set(this.read(key, 'set'));
+    const added = members.filter(member => !set.has(member) && set.add(member)).length;
+    this.update(key, set);
+    return added;
+  }
+
+  async srem(key: string, ...members: string[]): Promise<number> {
+    const set = new Set(this.read(key, 'set'));
+    const removed = members.filter(member => set.delete(member)).length;
+    this.update(key, set);
+    return removed;
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    return Array.from(this.read(key, 'set') ?? []);
+  }
+
+  async sismember(key: string, member: string): Promise<number> {
+    return this.read(key, 'set')?.has(member) ? 1 : 0;
+  }
+
+  private read(key: string, type: 'string'): string | undefined;
+  private read(key: string, type: 'hash'): Map<string, string> | undefined;
+  private read(key: string, type: 'set'): Set<string> | undefined;
+  private read(key: string, type: 'string' | 'hash' | 'set'): StoredValue | undefined {
+    const value = this.server.lookup(key)?.value;
+    const actual = typeof value === 'string' ? 'string' : value instanceof Map ? 'hash' : 'set';
+    if (value !== undefined && actual !== type) {
+      throw new Error('WRONGTYPE Operation against a key holding the wrong kind of value');
+    }
+    return value;
+  }
+
+  // Changing a hash or set keeps the key's expiry
+  private update(key: string, value: Map<string, string> | Set<string>) {
+    this.server.write(key, value, this.server.lookup(key)?.expiresAt ?? null);
+  }
+}
@@ -0,0 +1,84 @@
+// Counters and gauges for the /metrics endpoint, in the Prometheus text exposition format
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+const metrics: Metric[] = [];
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  return `{${entries.map(([name, value]) => `${name}="${escape(value)}"`).join(',')}}`;
+}
+
+export class Counter implements Metric {
+  private name: string;
+  private help: string;
+  // Keyed by the rendered label set
+  private values = new Map<string, number>();
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+    metrics.push(this);
+  }
+
+  inc(labels: Labels = {}, amount = 1) {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  render(): string[] {
+    const samples = this.values.size > 0 ? Array.from(this.values) : [['', 0] as const];
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...samples.map(([labels, value]) => `${this.name}${labels} ${value}`)
+    ];
+  }
+}
+
+// Read when scraped, so it never goes stale
+export class Gauge implements Metric {
+  private name: string;
+  private help: string;
+  private collect: () => number;
+
+  constructor(name: string, help: string, collect: () => number) {
+    this.name = name;
+    this.help = help;
+    this.collect = collect;
+    metrics.push(this);
+  }
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`, `${this.name} ${this.collect()}`];
+  }
+}
+
+export const relayedFrames = new Counter(
+  'anrox_relayed_frames_total',
+  'Frames relayed to their recipient or stored in its mailbox, by frame type'
+);
+export const relayFailures = new Counter(
+  'anrox_relay_failures_total',
+  'Frames that could not be relayed, by frame type and reason'
+);
+export const rateLimitedFrames = new Counter(
+  'anrox_rate_limited_frames_total',
+  'Frames dropped by a rate limit, by the bucket that ran out'
+);
+export const rejectedFrames = new Counter(
+  'anrox_rejected_frames_total',
+  'Frames refused before handling, by error code'
+);
+
+export function renderMetrics(): string {
+  return `${metrics.flatMap(metric => metric.render()).join('\n')}\n`;
+}
@@ -0,0 +1,56 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TestClient, TestServer, startTestServer } from './testing';
+
+describe('presence', () => {
+  let server: TestServer;
+  before(async () => {
+    server = await startTestServer();
+  });
+  after(() => server.stop());
+
+  async function clients() {
+    const [alice, bob, carol] = await Promise.all([1, 2, 3].map(() => TestClient.connect(server.url)));
+    await Promise.all([alice.register(), bob.register(), carol.register()]);
+    return { alice, bob, carol };
+  }
+
+  test('only contacts the owner approved see real presence', async () => {
+    const { alice, bob, carol } = await clients();
+    bob.send({ type: 'presence-subscribe', sender: bob.publicKey, contacts: [alice.publicKey] });
+    carol.send({ type: 'presence-subscribe', sender: carol.publicKey, contacts: [alice.publicKey] });
+    // Alice is online, but nobody may know yet
+    assert.deepEqual(await bob.next('presence'), { type: 'presence', contact: alice.publicKey, status: 'offline', lastSeen: null });
+    assert.deepEqual(await carol.next('presence'), { type: 'presence', contact: alice.publicKey, status: 'offline', lastSeen: null });
+
+    alice.send({ type: 'presence-approve', sender: alice.publicKey, contacts: [bob.publicKey] });
+    const approved = await bob.next('presence');
+    assert.equal(approved.status, 'online');
+    assert.equal(typeof approved.lastSeen, 'number');
+
+    alice.send({ type: 'presence-update', sender: alice.publicKey, status: 'away' });
+    assert.equal((await bob.next('presence')).status, 'away');
+    assert.deepEqual(await carol.collect('presence'), []);
+
+    // Subscribing later does not get around the approval either
+    carol.send({ type: 'presence-subscribe', sender: carol.publicKey, contacts: [alice.publicKey] });
+    assert.equal((await carol.next('presence')).status, 'offline');
+    await Promise.all([alice.close(), bob.close(), carol.close()]);
+  });
+
+  test('revoking approval shows the owner offline and stops updates', async () => {
+    const { alice, bob, carol } = await clients();
+    bob.send({ type: 'presence-subscribe', sender: bob.publicKey, contacts: [alice.publicKey] });
+    await bob.next('presence');
+    alice.send({ type: 'presence-approve', sender: alice.publicKey, contacts: [bob.publicKey] });
+    assert.equal((await bob.next('presence')).status, 'online');
+
+    alice.send({ type: 'presence-approve', sender: alice.publicKey, contacts: [carol.publicKey] });
+    assert.deepEqual(await bob.next('presence'), { type: 'presence', contact: alice.publicKey, status: 'offline', lastSeen: null });
+
+    alice.send({ type: 'presence-update', sender: alice.publicKey, status: 'away' });
+    await alice.close();
+    assert.deepEqual(await bob.collect('presence'), []);
+    await Promise.all([bob.close(), carol.close()]);
+  });
+});
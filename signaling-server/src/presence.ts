@@ -0,0 +1,79 @@
+import { StoreConnection } from './store';
+import { PresenceStatus } from '../../shared/protocol';
+
+export interface Presence {
+  status: PresenceStatus;
+  lastSeen: number | null;
+}
+
+// Everything lives in the store so that contacts on different nodes see each other:
+// - presence: each public key's status and when it last changed
+// - approvals: who each public key lets see its presence. Kept after disconnecting, so approved
+//   contacts can still see when someone was last online.
+// - subscriptions: who each connected public key follows, and watchers, the reverse index for
+//   fan-out
+const KEYS = {
+  presence: (publicKey: string) => `anrox:presence:${publicKey}`,
+  approvals: (publicKey: string) => `anrox:approvals:${publicKey}`,
+  subscriptions: (publicKey: string) => `anrox:subscriptions:${publicKey}`,
+  watchers: (publicKey: string) => `anrox:watchers:${publicKey}`
+};
+
+export async function getPresence(store: StoreConnection, publicKey: string): Promise<Presence> {
+  const stored = await store.get(KEYS.presence(publicKey));
+  return stored ? JSON.parse(stored) : { status: 'offline', lastSeen: null };
+}
+
+export async function setPresence(store: StoreConnection, publicKey: string, status: PresenceStatus) {
+  const presence: Presence = { status, lastSeen: Date.now() };
+  await store.set(KEYS.presence(publicKey), JSON.stringify(presence));
+}
+
+export async function isApproved(store: StoreConnection, owner: string, viewer: string): Promise<boolean> {
+  return (await store.sismember(KEYS.approvals(owner), viewer)) === 1;
+}
+
+// Returns the contacts whose visibility changed, so the caller can tell them
+export async function setApprovedContacts(store: StoreConnection, owner: string, contacts: string[]): Promise<{ granted: string[]; revoked: string[] }> {
+  const key = KEYS.approvals(owner);
+  const previous = new Set(await store.smembers(key));
+  const next = new Set(contacts.filter(contact => contact !== owner));
+  await store.del(key);
+  if (next.size > 0) {
+    await store.sadd(key, ...Array.from(next));
+  }
+  return {
+    granted: Array.from(next).filter(contact => !previous.has(contact)),
+    revoked: Array.from(previous).filter(contact => !next.has(contact))
+  };
+}
+
+export async function setSubscriptions(store: StoreConnection, subscriber: string, contacts: string[]) {
+  await clearSubscriptions(store, subscriber);
+  const next = Array.from(new Set(contacts.filter(contact => contact !== subscriber)));
+  if (next.length === 0) {
+    return;
+  }
+  await store.sadd(KEYS.subscriptions(subscriber), ...next);
+  await Promise.all(next.map(contact => store.sadd(KEYS.watchers(contact), subscriber)));
+}
+
+// Subscriptions only last as long as the subscriber's connection
+export async function clearSubscriptions(store: StoreConnection, subscriber: string) {
+  const contacts = await store.smembers(KEYS.subscriptions(subscriber));
+  await Promise.all(contacts.map(contact => store.srem(KEYS.watchers(contact), subscriber)));
+  await store.del(KEYS.subscriptions(subscriber));
+}
+
+export async function isSubscribed(store: StoreConnection, subscriber: string, contact: string): Promise<boolean> {
+  return (await store.sismember(KEYS.watchers(contact), subscriber)) === 1;
+}
+
+// Subscribers to a public key that it has approved
+export async function visibleWatchers(store: StoreConnection, publicKey: string): Promise<string[]> {
+  const [watchers, approved] = await Promise.all([
+    store.smembers(KEYS.watchers(publicKey)),
+    store.smembers(KEYS.approvals(publicKey))
+  ]);
+  return watchers.filter(watcher => approved.includes(watcher));
+}
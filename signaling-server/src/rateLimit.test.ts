@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TokenBucket } from './rateLimit';
+
+describe('TokenBucket', () => {
+  beforeEach(() => mock.timers.enable({ apis: ['Date'], now: 0 }));
+  afterEach(() => mock.timers.reset());
+
+  test('lets a burst through and then refuses', () => {
+    const bucket = new TokenBucket({ burst: 3, perSecond: 1 });
+    assert.deepEqual([1, 2, 3, 4].map(() => bucket.take()), [true, true, true, false]);
+  });
+
+  test('refills at the sustained rate', () => {
+    const bucket = new TokenBucket({ burst: 2, perSecond: 4 });
+    bucket.take();
+    bucket.take();
+    mock.timers.tick(200);
+    assert.equal(bucket.take(), false);
+    mock.timers.tick(50);
+    assert.equal(bucket.take(), true);
+    assert.equal(bucket.take(), false);
+  });
+
+  test('never holds more than the burst', () => {
+    const bucket = new TokenBucket({ burst: 2, perSecond: 10 });
+    mock.timers.tick(60 * 1000);
+    assert.equal(bucket.isFull(), true);
+    assert.deepEqual([1, 2, 3].map(() => bucket.take()), [true, true, false]);
+    assert.equal(bucket.isFull(), false);
+  });
+});
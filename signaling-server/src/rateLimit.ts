@@ -0,0 +1,56 @@
+import { KEY_RATE_LIMIT, RateLimit } from './config';
+
+// Classic token bucket: holds up to `burst` tokens and refills at `perSecond`
+export class TokenBucket {
+  private limit: RateLimit;
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(limit: RateLimit) {
+    this.limit = limit;
+    this.tokens = limit.burst;
+    this.lastRefill = Date.now();
+  }
+
+  take(): boolean {
+    this.refill();
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens -= 1;
+    return true;
+  }
+
+  // A full bucket carries no state worth keeping
+  isFull(): boolean {
+    this.refill();
+    return this.tokens >= this.limit.burst;
+  }
+
+  private refill() {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.limit.burst, this.tokens + elapsedSeconds * this.limit.perSecond);
+    this.lastRefill = now;
+  }
+}
+
+// Keyed by public key and kept across reconnects, so dropping the socket does not refill it
+const keyBuckets = new Map<string, TokenBucket>();
+
+export function allowFrameFromKey(publicKey: string): boolean {
+  let bucket = keyBuckets.get(publicKey);
+  if (!bucket) {
+    bucket = new TokenBucket(KEY_RATE_LIMIT);
+    keyBuckets.set(publicKey, bucket);
+  }
+  return bucket.take();
+}
+
+export function pruneKeyBuckets() {
+  Array.from(keyBuckets.entries()).forEach(([publicKey, bucket]) => {
+    if (bucket.isFull()) {
+      keyBuckets.delete(publicKey);
+    }
+  });
+}
@@ -0,0 +1,66 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { decodePublicKey } from './auth';
+import { StoreConnection } from './store';
+import { buildRoomManifestMessage, MAX_ROOM_MEMBERS, RoomManifest } from '../../shared/protocol';
+import { createLogger } from '../../shared/logger';
+
+const log = createLogger('rooms');
+
+// The manifest's shape is already checked by the protocol layer
+export function verifyRoomManifest(manifest: RoomManifest): boolean {
+  const members = manifest.members;
+  if (members.length > MAX_ROOM_MEMBERS || new Set(members).size !== members.length || !members.includes(manifest.creator)) {
+    return false;
+  }
+
+  const creatorKey = decodePublicKey(manifest.creator);
+  if (!creatorKey) {
+    return false;
+  }
+  try {
+    const signature = Buffer.from(manifest.signature, 'base64');
+    if (signature.length !== 64) {
+      return false;
+    }
+    const message = new TextEncoder().encode(buildRoomManifestMessage(manifest));
+    return ed25519.verify(signature, message, creatorKey);
+  } catch (error) {
+    log.error('Error verifying room manifest', { error });
+    return false;
+  }
+}
+
+// A room's latest manifest, and which of its members are connected to any node, live in the
+// store. Both go once the last member leaves.
+const KEYS = {
+  manifest: (roomId: string) => `anrox:room:${roomId}`,
+  joined: (roomId: string) => `anrox:room-joined:${roomId}`
+};
+
+export async function getRoomManifest(store: StoreConnection, roomId: string): Promise<RoomManifest | null> {
+  const stored = await store.get(KEYS.manifest(roomId));
+  return stored ? JSON.parse(stored) : null;
+}
+
+export async function saveRoomManifest(store: StoreConnection, manifest: RoomManifest) {
+  await store.set(KEYS.manifest(manifest.roomId), JSON.stringify(manifest));
+}
+
+// Members currently connected to the room, a subset of the manifest's members
+export async function joinedMembers(store: StoreConnection, roomId: string): Promise<string[]> {
+  return store.smembers(KEYS.joined(roomId));
+}
+
+// Resolves false if the member had already joined
+export async function addJoinedMember(store: StoreConnection, roomId: string, member: string): Promise<boolean> {
+  return (await store.sadd(KEYS.joined(roomId), member)) === 1;
+}
+
+// Resolves false if the member had not joined
+export async function removeJoinedMember(store: StoreConnection, roomId: string, member: string): Promise<boolean> {
+  return (await store.srem(KEYS.joined(roomId), member)) === 1;
+}
+
+export async function deleteRoom(store: StoreConnection, roomId: string) {
+  await store.del(KEYS.manifest(roomId), KEYS.joined(roomId));
+}
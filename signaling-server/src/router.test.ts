@@ -0,0 +1,165 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryPubSub } from './memoryPubSub';
+import { PubSubRouter } from './router';
+import { StoreConnection } from './store';
+import { issueResumeToken, redeemResumeToken } from './auth';
+import { acknowledgeMessages, pendingMessages, storeMessage } from './mailbox';
+import { getPresence, setApprovedContacts, setPresence, setSubscriptions, visibleWatchers } from './presence';
+import { addJoinedMember, getRoomManifest, joinedMembers, saveRoomManifest } from './rooms';
+import { RelayedEncryptedMessageFrame, RoomManifest, ServerFrame } from '../../shared/protocol';
+
+interface Node {
+  router: PubSubRouter;
+  store: StoreConnection;
+  delivered: { publicKey: string; frame: ServerFrame }[];
+  evicted: string[];
+}
+
+// One MemoryPubSub standing in for the Redis server that two signaling nodes share
+function cluster(): [Node, Node] {
+  const pubsub = new MemoryPubSub();
+  const node = (): Node => {
+    const delivered: Node['delivered'] = [];
+    const evicted: Node['evicted'] = [];
+    const router = new PubSubRouter({
+      deliver: (publicKey, frame) => delivered.push({ publicKey, frame }),
+      evict: publicKey => evicted.push(publicKey)
+    }, pubsub.connect(), pubsub.connect());
+    return { router, store: pubsub.connect(), delivered, evicted };
+  };
+  return [node(), node()];
+}
+
+// Routed frames arrive asynchronously, as they would from Redis
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+function message(sender: string, recipient: string, id: string): RelayedEncryptedMessageFrame {
+  return {
+    type: 'encrypted-message',
+    sender,
+    recipient,
+    header: { dh: 'ab', pn: 0, n: 0 },
+    meta: { sender, recipient, counter: 0, id, timestamp: Date.now() },
+    message: 'AAEC'
+  };
+}
+
+describe('PubSubRouter', () => {
+  test('delivers to a key connected to another node', async () => {
+    const [a, b] = cluster();
+    await b.router.register('bob');
+    const frame: ServerFrame = { type: 'initiate', sender: 'alice', recipient: 'bob' };
+    assert.equal(await a.router.deliver('bob', frame), true);
+    await settle();
+    assert.deepEqual(b.delivered, [{ publicKey: 'bob', frame }]);
+    assert.deepEqual(a.delivered, []);
+  });
+
+  test('reports a key connected to no node', async () => {
+    const [a, b] = cluster();
+    await b.router.register('bob');
+    await b.router.unregister('bob');
+    assert.equal(await a.router.deliver('bob', { type: 'initiate', sender: 'alice', recipient: 'bob' }), false);
+  });
+
+  test('evicts a key from its node when it registers on another', async () => {
+    const [a, b] = cluster();
+    await a.router.register('bob');
+    await b.router.register('bob');
+    await settle();
+    assert.deepEqual(a.evicted, ['bob']);
+    assert.deepEqual(b.evicted, []);
+    await a.router.deliver('bob', { type: 'initiate', sender: 'alice', recipient: 'bob' });
+    await settle();
+    assert.equal(b.delivered.length, 1);
+  });
+});
+
+describe('state shared between nodes', () => {
+  test('a message stored for an offline recipient is fetched and acknowledged on another node', async () => {
+    const [a, b] = cluster();
+    const entry = await storeMessage(a.store, message('alice', 'bob', 'm1'));
+    assert.ok(entry);
+    assert.equal(await a.router.deliver('bob', { ...entry.frame, deliveryId: entry.deliveryId }), false);
+
+    await b.router.register('bob');
+    const pending = await pendingMessages(b.store, 'bob');
+    assert.deepEqual(pending.map(stored => stored.deliveryId), [entry.deliveryId]);
+    await acknowledgeMessages(b.store, 'bob', [entry.deliveryId]);
+    assert.deepEqual(await pendingMessages(a.store, 'bob'), []);
+  });
+
+  test('a message for an online recipient reaches its node with a delivery ID that node can acknowledge', async () => {
+    const [a, b] = cluster();
+    await b.router.register('bob');
+    const entry = (await storeMessage(a.store, message('alice', 'bob', 'm1')))!;
+    assert.equal(await a.router.deliver('bob', { ...entry.frame, deliveryId: entry.deliveryId }), true);
+    await settle();
+    const delivered = b.delivered[0].frame;
+    assert.equal(delivered.type === 'encrypted-message' && delivered.deliveryId, entry.deliveryId);
+    await acknowledgeMessages(b.store, 'bob', [entry.deliveryId]);
+    assert.deepEqual(await pendingMessages(a.store, 'bob'), []);
+  });
+
+  test('presence reaches approved subscribers on another node', async () => {
+    const [a, b] = cluster();
+    await b.router.register('bob');
+    await setSubscriptions(b.store, 'bob', ['alice']);
+    await setSubscriptions(b.store, 'carol', ['alice']);
+    await setApprovedContacts(a.store, 'alice', ['bob']);
+
+    await setPresence(a.store, 'alice', 'away');
+    const watchers = await visibleWatchers(a.store, 'alice');
+    assert.deepEqual(watchers, ['bob']);
+    const { status, lastSeen } = await getPresence(b.store, 'alice');
+    await Promise.all(watchers.map(watcher => a.router.deliver(watcher, { type: 'presence', contact: 'alice', status, lastSeen })));
+    await settle();
+    assert.equal(b.delivered.length, 1);
+    assert.deepEqual(b.delivered[0].frame, { type: 'presence', contact: 'alice', status: 'away', lastSeen });
+  });
+
+  test('a resume token issued on one node is redeemed once on another', async () => {
+    const [a, b] = cluster();
+    const token = await issueResumeToken(a.store, 'bob');
+    assert.equal(await redeemResumeToken(b.store, 'mallory', token), false);
+    const second = await issueResumeToken(a.store, 'bob');
+    assert.equal(await redeemResumeToken(b.store, 'bob', second), true);
+    assert.equal(await redeemResumeToken(a.store, 'bob', second), false);
+  });
+
+  test('room manifests and members are seen by every node', async () => {
+    const [a, b] = cluster();
+    const manifest: RoomManifest = { roomId: 'r1', creator: 'alice', members: ['alice', 'bob'], version: 1, signature: 'c2ln' };
+    await saveRoomManifest(a.store, manifest);
+    assert.equal(await addJoinedMember(a.store, 'r1', 'alice'), true);
+    assert.equal(await addJoinedMember(b.store, 'r1', 'bob'), true);
+    assert.equal(await addJoinedMember(b.store, 'r1', 'bob'), false);
+    assert.deepEqual(await getRoomManifest(b.store, 'r1'), manifest);
+    assert.deepEqual((await joinedMembers(a.store, 'r1')).sort(), ['alice', 'bob']);
+  });
+});
+
+describe('MemoryPubSub store', () => {
+  test('expires keys and hands a value to only one getdel', async () => {
+    const store = new MemoryPubSub().connect();
+    await store.set('short', 'v', 'PX', 1);
+    await store.set('long', 'v', 'PX', 60 * 1000);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    assert.equal(await store.get('short'), null);
+    assert.equal(await store.getdel('long'), 'v');
+    assert.equal(await store.getdel('long'), null);
+  });
+
+  test('drops hashes and sets once they are empty', async () => {
+    const store = new MemoryPubSub().connect();
+    await store.hset('hash', 'field', 'v');
+    await store.pexpire('hash', 60 * 1000);
+    assert.equal(await store.hdel('hash', 'field', 'missing'), 1);
+    assert.equal(await store.pexpire('hash', 1000), 0);
+    await store.sadd('set', 'a', 'b');
+    await store.srem('set', 'a', 'b');
+    assert.deepEqual(await store.smembers('set'), []);
+    await assert.rejects(store.sadd('hash-as-set', 'a').then(() => store.hgetall('hash-as-set')), /WRONGTYPE/);
+  });
+});
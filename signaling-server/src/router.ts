@@ -0,0 +1,167 @@
+import { randomBytes } from 'crypto';
+import Redis from 'ioredis';
+import { REDIS_URL } from './config';
+import { ServerFrame } from '../../shared/protocol';
+import { createLogger } from '../../shared/logger';
+
+const log = createLogger('router');
+
+// What a router calls back into the server with
+export interface RouterHandlers {
+  // A frame for a public key whose socket is on this node
+  deliver(publicKey: string, frame: ServerFrame): void;
+  // The key registered on another node, so its socket here has to go
+  evict(publicKey: string): void;
+}
+
+// Tracks which public keys are connected to this node and gets frames to keys connected
+// anywhere. Sockets themselves stay with the server.
+export interface Router {
+  // Claims the key for this node; any other node holding it evicts its socket
+  register(publicKey: string): Promise<void>;
+  unregister(publicKey: string): Promise<void>;
+  // Resolves false when the key is not connected to any node
+  deliver(publicKey: string, frame: ServerFrame): Promise<boolean>;
+  close(): Promise<void>;
+}
+
+// The Redis commands the pub/sub router uses. ioredis provides them, and so does
+// MemoryPubSub for running several routers in one process.
+export interface PubSubConnection {
+  // Resolves to the number of subscribers that received the message
+  publish(channel: string, message: string): Promise<number>;
+  subscribe(channel: string): Promise<unknown>;
+  unsubscribe(channel: string): Promise<unknown>;
+  on(event: 'message', listener: (channel: string, message: string) => void): unknown;
+  quit(): Promise<unknown>;
+}
+
+// Each connected public key has its own channel, which only the node holding the key subscribes to
+const CHANNEL_PREFIX = 'anrox:route:';
+
+interface RouteMessage {
+  // The publishing node, so a node ignores its own evictions
+  node: string;
+  frame?: ServerFrame;
+  evict?: boolean;
+}
+
+// A single node: keys are either connected here or nowhere
+export class MemoryRouter implements Router {
+  protected handlers: RouterHandlers;
+  protected local = new Set<string>();
+
+  constructor(handlers: RouterHandlers) {
+    this.handlers = handlers;
+  }
+
+  async register(publicKey: string) {
+    this.local.add(publicKey);
+  }
+
+  async unregister(publicKey: string) {
+    this.local.delete(publicKey);
+  }
+
+  async deliver(publicKey: string, frame: ServerFrame): Promise<boolean> {
+    if (!this.local.has(publicKey)) {
+      return false;
+    }
+    this.handlers.deliver(publicKey, frame);
+    return true;
+  }
+
+  async close() {}
+}
+
+// Several nodes behind a load balancer, sharing a Redis-compatible server. Frames for keys on
+// this node skip the round trip; the rest are published on the recipient's channel. A node
+// that crashes loses its subscriptions with its connection, so no routing entry outlives it.
+export class PubSubRouter extends MemoryRouter {
+  private nodeId = randomBytes(8).toString('hex');
+  private publisher: PubSubConnection;
+  // Redis connections in subscriber mode cannot publish, hence the pair
+  private subscriber: PubSubConnection;
+
+  constructor(handlers: RouterHandlers, publisher: PubSubConnection, subscriber: PubSubConnection) {
+    super(handlers);
+    this.publisher = publisher;
+    this.subscriber = subscriber;
+    this.subscriber.on('message', (channel, message) => this.handleMessage(channel, message));
+  }
+
+  // Evicts before subscribing, so this node never hears its own eviction
+  async register(publicKey: string) {
+    if (this.local.has(publicKey)) {
+      return;
+    }
+    await super.register(publicKey);
+    await this.publish(publicKey, { node: this.nodeId, evict: true });
+    await this.subscriber.subscribe(channelFor(publicKey));
+  }
+
+  async unregister(publicKey: string) {
+    if (!this.local.has(publicKey)) {
+      return;
+    }
+    await super.unregister(publicKey);
+    await this.subscriber.unsubscribe(channelFor(publicKey));
+  }
+
+  async deliver(publicKey: string, frame: ServerFrame): Promise<boolean> {
+    if (await super.deliver(publicKey, frame)) {
+      return true;
+    }
+    return (await this.publish(publicKey, { node: this.nodeId, frame })) > 0;
+  }
+
+  async close() {
+    await Promise.all([this.publisher.quit(), this.subscriber.quit()]);
+  }
+
+  private publish(publicKey: string, message: RouteMessage): Promise<number> {
+    return this.publisher.publish(channelFor(publicKey), JSON.stringify(message));
+  }
+
+  private handleMessage(channel: string, message: string) {
+    if (!channel.startsWith(CHANNEL_PREFIX)) {
+      return;
+    }
+    const publicKey = channel.slice(CHANNEL_PREFIX.length);
+    let routed: RouteMessage;
+    try {
+      routed = JSON.parse(message);
+    } catch (error) {
+      log.error('Dropping unreadable routed message', { error });
+      return;
+    }
+    if (routed.node === this.nodeId || !this.local.has(publicKey)) {
+      return;
+    }
+    if (routed.evict) {
+      log.info('Key registered on another node', { publicKey });
+      this.unregister(publicKey).catch(error => log.error('Failed to unsubscribe', { publicKey, error }));
+      this.handlers.evict(publicKey);
+    } else if (routed.frame) {
+      this.handlers.deliver(publicKey, routed.frame);
+    }
+  }
+}
+
+function channelFor(publicKey: string): string {
+  return `${CHANNEL_PREFIX}${publicKey}`;
+}
+
+// Uses Redis when REDIS_URL is set, and otherwise keeps everything in this process
+export function createRouter(handlers: RouterHandlers): Router {
+  if (!REDIS_URL) {
+    return new MemoryRouter(handlers);
+  }
+  const publisher = new Redis(REDIS_URL);
+  const subscriber = publisher.duplicate();
+  [publisher, subscriber].forEach(connection => {
+    connection.on('error', error => log.error('Redis error', { error }));
+  });
+  log.info('Routing through Redis');
+  return new PubSubRouter(handlers, publisher, subscriber);
+}
@@ -0,0 +1,104 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TestClient, TestServer, startTestServer } from './testing';
+
+const candidate = { candidate: 'candidate:1 1 udp 2122260223 192.0.2.1 54400 typ host', sdpMid: '0', sdpMLineIndex: 0 };
+
+describe('server limits', () => {
+  let server: TestServer;
+  before(async () => {
+    server = await startTestServer({
+      MAX_FRAME_BYTES: '1024',
+      SOCKET_RATE_BURST: '8',
+      SOCKET_RATE_PER_SECOND: '0.01',
+      KEY_RATE_BURST: '3',
+      KEY_RATE_PER_SECOND: '0.01',
+      HEARTBEAT_INTERVAL_MS: '200'
+    });
+  });
+  after(() => server.stop());
+
+  test('answers an oversized frame with an error and closes the socket for a far bigger one', async () => {
+    const client = await TestClient.connect(server.url);
+    client.sendRaw('x'.repeat(2000));
+    assert.equal((await client.next('error')).code, 'frame-too-large');
+    assert.equal(client.isOpen, true);
+
+    client.sendRaw('x'.repeat(5000));
+    await client.closed();
+  });
+
+  test('drops frames over the socket limit with a single error', async () => {
+    const client = await TestClient.connect(server.url);
+    for (let i = 0; i < 12; i++) {
+      client.send({ type: 'authenticate', publicKey: client.publicKey, signature: 'c2ln' });
+    }
+    const errors = await client.collect('error');
+    assert.deepEqual(errors.map(({ code }) => code), [...Array(8).fill('no-challenge'), 'rate-limited']);
+    await client.close();
+  });
+
+  test('limits a public key across its connections', async () => {
+    const alice = await TestClient.connect(server.url);
+    const bob = await TestClient.connect(server.url);
+    await alice.register();
+    await bob.register();
+
+    for (let i = 0; i < 5; i++) {
+      alice.send({ type: 'ice-candidate', sender: alice.publicKey, recipient: bob.publicKey, candidate });
+    }
+    assert.equal((await bob.collect('ice-candidate')).length, 3);
+    assert.deepEqual((await alice.collect('error')).map(({ code }) => code), ['rate-limited']);
+
+    // A fresh socket has a full socket bucket but not a fresh key bucket
+    const reconnected = await TestClient.connect(server.url, { privateKey: alice.privateKey });
+    await reconnected.register();
+    reconnected.send({ type: 'ice-candidate', sender: alice.publicKey, recipient: bob.publicKey, candidate });
+    assert.equal((await reconnected.next('error')).code, 'rate-limited');
+    assert.deepEqual(await bob.collect('ice-candidate'), []);
+    await Promise.all([alice.closed(), reconnected.close(), bob.close()]);
+  });
+
+  test('terminates a socket that stops answering pings', async () => {
+    const silent = await TestClient.connect(server.url, { autoPong: false });
+    const responsive = await TestClient.connect(server.url);
+    await silent.closed();
+    assert.equal(responsive.isOpen, true);
+    await responsive.close();
+  });
+});
+
+describe('relaying', () => {
+  let server: TestServer;
+  before(async () => {
+    server = await startTestServer();
+  });
+  after(() => server.stop());
+
+  test('reports an offline recipient once per offer, not for every candidate', async () => {
+    const alice = await TestClient.connect(server.url);
+    const offline = await TestClient.connect(server.url);
+    await alice.register();
+
+    const recipient = offline.publicKey;
+    alice.send({ type: 'initiate', sender: alice.publicKey, recipient });
+    alice.send({ type: 'offer', sender: alice.publicKey, recipient, offer: { type: 'offer', sdp: 'v=0' } });
+    for (let i = 0; i < 5; i++) {
+      alice.send({ type: 'ice-candidate', sender: alice.publicKey, recipient, candidate });
+    }
+    alice.send({ type: 'key-confirmation', sender: alice.publicKey, recipient, mac: 'bWFj' });
+
+    const errors = await alice.collect('error');
+    assert.deepEqual(errors.map(({ code }) => code), ['recipient-unavailable']);
+    await Promise.all([alice.close(), offline.close()]);
+  });
+
+  test('reports an answer that cannot be delivered', async () => {
+    const bob = await TestClient.connect(server.url);
+    const offline = await TestClient.connect(server.url);
+    await bob.register();
+    bob.send({ type: 'answer', sender: bob.publicKey, recipient: offline.publicKey, answer: { type: 'answer', sdp: 'v=0' } });
+    assert.equal((await bob.next('error')).code, 'recipient-unavailable');
+    await Promise.all([bob.close(), offline.close()]);
+  });
+});
@@ -1,91 +1,645 @@
+import { readFileSync } from 'fs';
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from 'http';
+import { createServer as createHttpsServer } from 'https';
 import WebSocket, { WebSocketServer } from 'ws';
+import {
+  Challenge,
+  createChallenge,
+  decodePublicKey,
+  issueResumeToken,
+  redeemResumeToken,
+  verifyChallengeSignature
+} from './auth';
+import {
+  addJoinedMember,
+  deleteRoom,
+  getRoomManifest,
+  joinedMembers,
+  removeJoinedMember,
+  saveRoomManifest,
+  verifyRoomManifest
+} from './rooms';
+import {
+  HEARTBEAT_INTERVAL_MS,
+  HOST,
+  LOG_FORMAT,
+  LOG_LEVEL,
+  LOG_REDACT,
+  MAX_FRAME_BYTES,
+  METRICS_HOST,
+  METRICS_PORT,
+  METRICS_PUBLIC,
+  PORT,
+  SOCKET_RATE_LIMIT,
+  TLS_CERT_FILE,
+  TLS_KEY_FILE,
+  TURN_CREDENTIAL_TTL_SECONDS
+} from './config';
+import { isTurnConfigured, issueTurnCredentials } from './turn';
+import {
+  clearSubscriptions,
+  getPresence,
+  isApproved,
+  isSubscribed,
+  setApprovedContacts,
+  setPresence,
+  setSubscriptions,
+  visibleWatchers
+} from './presence';
+import { allowFrameFromKey, pruneKeyBuckets, TokenBucket } from './rateLimit';
+import { createRouter } from './router';
+import { createStore } from './store';
+import { Gauge, rateLimitedFrames, rejectedFrames, relayedFrames, relayFailures, renderMetrics } from './metrics';
+import { acknowledgeMessages, pendingMessages, storeMessage } from './mailbox';
+import {
+  ClientFrame,
+  encodeFrame,
+  ErrorCode,
+  MAX_PRESENCE_CONTACTS,
+  PeerFrame,
+  PresenceStatus,
+  ProtocolError,
+  RelayedEncryptedMessageFrame,
+  RoomManifest,
+  ServerFrame,
+  parseClientFrame
+} from '../../shared/protocol';
+import { configureLogging, createLogger } from '../../shared/logger';
 
-interface Client {
-  ws: WebSocket;
-  publicKey: string;
+configureLogging({ level: LOG_LEVEL, format: LOG_FORMAT, redact: LOG_REDACT });
+const log = createLogger('server');
+
+// Per-socket state kept from the moment it connects, authenticated or not
+interface Connection {
+  // Cleared before each ping and set again by the pong
+  isAlive: boolean;
+  rateLimit: TokenBucket;
+  // Set once a rate-limited error has been sent, so a flood does not get one reply per frame
+  rateLimited: boolean;
+}
+
+const wss = createWebSocketServer();
+// Authenticated sockets on this node, indexed both ways
+const sockets = new Map<string, WebSocket>();
+const publicKeys = new Map<WebSocket, string>();
+// Finds the node each key is connected to; see router.ts
+const router = createRouter({ deliver: deliverLocally, evict: evictClient });
+// Mailboxes, presence, rooms and resume tokens, shared with any other nodes; see store.ts
+const store = createStore();
+// Outstanding challenges for sockets that have asked to register but not yet proven key ownership
+const pendingChallenges = new Map<WebSocket, Challenge>();
+// The rooms each key connected here has joined, so they can be left when it disconnects
+const joinedRooms = new Map<string, Set<string>>();
+
+// Only these tell the sender that its peer is away. A connection attempt also trickles ICE
+// candidates and handshake frames, and an error for each of them would bury that one report.
+const REPORTED_UNAVAILABLE = new Set<PeerFrame['type']>(['offer', 'answer']);
+const connections = new Map<WebSocket, Connection>();
+
+new Gauge('anrox_open_sockets', 'Open WebSocket connections, authenticated or not', () => connections.size);
+new Gauge('anrox_connected_clients', 'Authenticated public keys connected to this node', () => sockets.size);
+new Gauge('anrox_rooms', 'Rooms with at least one member connected to this node', () =>
+  new Set(Array.from(joinedRooms.values()).flatMap(roomIds => Array.from(roomIds))).size);
+
+// Frames over MAX_FRAME_BYTES are answered with an error; ones too large to be worth reading
+// make ws close the socket outright
+function createWebSocketServer(): WebSocketServer {
+  const maxPayload = MAX_FRAME_BYTES * 4;
+  const server = TLS_CERT_FILE && TLS_KEY_FILE
+    ? createHttpsServer({ cert: readFileSync(TLS_CERT_FILE), key: readFileSync(TLS_KEY_FILE) }, handleHttpRequest)
+    : createHttpServer(handleHttpRequest);
+  server.listen(PORT, HOST);
+  if (METRICS_PORT !== undefined) {
+    createHttpServer(handleMetricsRequest).listen(METRICS_PORT, METRICS_HOST);
+  }
+  return new WebSocketServer({ server, maxPayload });
 }
 
-const wss = new WebSocketServer({ port: 8080 });
-const clients: Client[] = [];
+// Plain HTTP requests get the metrics if they are public, and otherwise the same answer ws gives
+function handleHttpRequest(request: IncomingMessage, response: ServerResponse) {
+  if (METRICS_PUBLIC && isMetricsRequest(request)) {
+    sendMetrics(response);
+    return;
+  }
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('Upgrade Required');
+}
+
+function handleMetricsRequest(request: IncomingMessage, response: ServerResponse) {
+  if (isMetricsRequest(request)) {
+    sendMetrics(response);
+    return;
+  }
+  response.writeHead(404, { 'Content-Type': 'text/plain' });
+  response.end('Not Found');
+}
+
+function isMetricsRequest(request: IncomingMessage): boolean {
+  return request.method === 'GET' && request.url?.split('?')[0] === '/metrics';
+}
+
+function sendMetrics(response: ServerResponse) {
+  response.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+  response.end(renderMetrics());
+}
 
 wss.on('connection', (ws: WebSocket) => {
-  console.log('Client connected');
+  log.debug('Client connected');
+  const connection: Connection = { isAlive: true, rateLimit: new TokenBucket(SOCKET_RATE_LIMIT), rateLimited: false };
+  connections.set(ws, connection);
+
+  ws.on('pong', () => {
+    connection.isAlive = true;
+  });
 
   ws.on('message', (message: WebSocket.RawData) => {
-    const messageString = message.toString();
-    console.log('Received:', messageString);
+    if (rawDataLength(message) > MAX_FRAME_BYTES) {
+      log.info('Rejected oversized frame', { bytes: rawDataLength(message) });
+      rejectedFrames.inc({ code: 'frame-too-large' });
+      sendError(ws, 'frame-too-large', `Frames are limited to ${MAX_FRAME_BYTES} bytes`);
+      return;
+    }
+    if (!allowFrame(ws, connection)) {
+      return;
+    }
+    let frame: ClientFrame;
     try {
-      const parsedMessage = JSON.parse(messageString);
-      console.log('Parsed message type:', parsedMessage.type);
-      
-      switch (parsedMessage.type) {
-        case 'register':
-          registerClient(ws, parsedMessage.publicKey);
+      frame = parseClientFrame(message.toString());
+    } catch (error) {
+      if (error instanceof ProtocolError) {
+        log.info('Rejected frame', { code: error.code, reason: error.message });
+        rejectedFrames.inc({ code: error.code });
+        sendError(ws, error.code, error.message);
+      } else {
+        log.error('Error parsing frame', { error });
+      }
+      return;
+    }
+    log.debug('Received frame', { frame });
+
+    switch (frame.type) {
+      case 'register':
+        if (frame.resumeToken !== undefined) {
+          resumeClient(ws, frame.publicKey, frame.resumeToken).catch(logFailure('resume registration'));
+        } else {
+          issueChallenge(ws, frame.publicKey);
+        }
+        break;
+      case 'authenticate':
+        authenticateClient(ws, frame.publicKey, frame.signature);
+        break;
+      case 'offer':
+      case 'answer':
+      case 'ice-candidate':
+      case 'ecdh-public-key':
+      case 'initiate':
+      case 'key-confirmation':
+      case 'conversation-closed':
+        if (!isAuthorizedSender(ws, frame.sender)) {
           break;
-        case 'offer':
-        case 'answer':
-        case 'ice-candidate':
-        case 'ecdh-public-key':  // Change this from 'public-key' to 'ecdh-public-key'
-        case 'initiate':
-        case 'encryption-ready':  // Add this case
-          relayMessage(parsedMessage);
+        }
+        relayMessage(ws, frame);
+        break;
+      case 'encrypted-message':
+        if (!isAuthorizedSender(ws, frame.sender)) {
           break;
-      }
-    } catch (error) {
-      console.error('Error parsing message:', error);
+        }
+        forwardEncryptedMessage(ws, frame);
+        break;
+      case 'mailbox-ack':
+        if (!isAuthorizedSender(ws, frame.sender)) {
+          break;
+        }
+        acknowledgeMessages(store, frame.sender, frame.deliveryIds).catch(logFailure('acknowledge messages'));
+        break;
+      case 'room-join':
+        if (!isAuthorizedSender(ws, frame.sender)) {
+          break;
+        }
+        joinRoom(ws, frame.sender, frame.manifest).catch(logFailure('join room'));
+        break;
+      case 'room-leave':
+        if (!isAuthorizedSender(ws, frame.sender)) {
+          break;
+        }
+        leaveRoom(frame.sender, frame.roomId).catch(logFailure('leave room'));
+        break;
+      case 'presence-approve':
+        if (!isAuthorizedSender(ws, frame.sender) || !checkContactCount(ws, frame.contacts)) {
+          break;
+        }
+        approveContacts(frame.sender, frame.contacts).catch(logFailure('approve contacts'));
+        break;
+      case 'presence-subscribe':
+        if (!isAuthorizedSender(ws, frame.sender) || !checkContactCount(ws, frame.contacts)) {
+          break;
+        }
+        subscribeToContacts(ws, frame.sender, frame.contacts).catch(logFailure('subscribe to contacts'));
+        break;
+      case 'presence-update':
+        if (!isAuthorizedSender(ws, frame.sender)) {
+          break;
+        }
+        updatePresence(frame.sender, frame.status).catch(logFailure('update presence'));
+        break;
     }
   });
 
   ws.on('close', () => {
-    console.log('Client disconnected');
-    const index = clients.findIndex(client => client.ws === ws);
-    if (index > -1) {
-      clients.splice(index, 1);
+    log.debug('Client disconnected');
+    connections.delete(ws);
+    pendingChallenges.delete(ws);
+    const publicKey = publicKeys.get(ws);
+    if (publicKey !== undefined) {
+      publicKeys.delete(ws);
+      sockets.delete(publicKey);
+      router.unregister(publicKey).catch(error => log.error('Failed to unregister route', { publicKey, error }));
+      leaveAllRooms(publicKey).catch(logFailure('leave rooms'));
+      clearSubscriptions(store, publicKey).catch(logFailure('clear subscriptions'));
+      updatePresence(publicKey, 'offline').catch(logFailure('update presence'));
     }
   });
 
   ws.on('error', (error) => {
-    console.error('WebSocket error:', error);
+    log.error('WebSocket error', { error });
   });
 });
 
+function sendFrame(ws: WebSocket, frame: ServerFrame) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(encodeFrame(frame));
+  }
+}
+
+function sendError(ws: WebSocket, code: ErrorCode, message: string) {
+  sendFrame(ws, { type: 'error', code, message });
+}
+
+// Handlers that touch the store are asynchronous; a failed one is logged and its frame dropped
+function logFailure(action: string): (error: unknown) => void {
+  return error => log.error(`Failed to ${action}`, { error });
+}
+
+function rawDataLength(data: WebSocket.RawData): number {
+  if (Array.isArray(data)) {
+    return data.reduce((total, chunk) => total + chunk.length, 0);
+  }
+  return data instanceof ArrayBuffer ? data.byteLength : data.length;
+}
+
+// Every frame costs a token from the socket's bucket and, once the socket is authenticated,
+// from its public key's bucket as well
+function allowFrame(ws: WebSocket, connection: Connection): boolean {
+  const publicKey = publicKeys.get(ws);
+  const socketAllowed = connection.rateLimit.take();
+  if (socketAllowed && (publicKey === undefined || allowFrameFromKey(publicKey))) {
+    connection.rateLimited = false;
+    return true;
+  }
+  rateLimitedFrames.inc({ bucket: socketAllowed ? 'key' : 'socket' });
+  if (!connection.rateLimited) {
+    connection.rateLimited = true;
+    log.info('Rate limited', { publicKey: publicKey ?? null });
+    sendError(ws, 'rate-limited', 'Too many frames; slow down and retry');
+  }
+  return false;
+}
+
+function issueChallenge(ws: WebSocket, publicKey: string) {
+  if (!decodePublicKey(publicKey)) {
+    sendError(ws, 'invalid-public-key', 'Public key is not a valid base58 ed25519 key');
+    return;
+  }
+
+  const challenge = createChallenge(publicKey);
+  pendingChallenges.set(ws, challenge);
+  sendFrame(ws, { type: 'challenge', publicKey, nonce: challenge.nonce });
+  log.debug('Issued challenge', { publicKey });
+}
+
+function authenticateClient(ws: WebSocket, publicKey: string, signature: string) {
+  const challenge = pendingChallenges.get(ws);
+  if (!challenge || challenge.publicKey !== publicKey) {
+    sendError(ws, 'no-challenge', 'Request a challenge with a register message before authenticating');
+    return;
+  }
+
+  // A challenge may only be answered once, whether or not the answer is valid
+  pendingChallenges.delete(ws);
+
+  if (!verifyChallengeSignature(challenge, signature)) {
+    log.info('Authentication failed', { publicKey });
+    sendError(ws, 'authentication-failed', 'Challenge signature is invalid or expired');
+    return;
+  }
+
+  completeRegistration(ws, publicKey).catch(logFailure('complete registration'));
+}
+
+// Lets a client that lost its connection re-register without another wallet signature.
+// An unknown or expired token falls back to a fresh challenge.
+async function resumeClient(ws: WebSocket, publicKey: string, resumeToken: string) {
+  if (!(await redeemResumeToken(store, publicKey, resumeToken))) {
+    log.debug('Resume token rejected, issuing challenge', { publicKey });
+    issueChallenge(ws, publicKey);
+    return;
+  }
+
+  log.debug('Resumed registration', { publicKey });
+  await completeRegistration(ws, publicKey);
+}
+
+async function completeRegistration(ws: WebSocket, publicKey: string) {
+  registerClient(ws, publicKey);
+  sendFrame(ws, { type: 'registered', publicKey, resumeToken: await issueResumeToken(store, publicKey) });
+  sendTurnCredentials(ws, publicKey);
+  await updatePresence(publicKey, 'online');
+  await deliverMailbox(ws, publicKey);
+}
+
+function sendTurnCredentials(ws: WebSocket, publicKey: string) {
+  const frame = issueTurnCredentials(publicKey);
+  if (frame) {
+    sendFrame(ws, frame);
+  }
+}
+
+// Reissued at half their lifetime so a client always holds a valid set for ICE restarts
+function refreshTurnCredentials() {
+  sockets.forEach((ws, publicKey) => sendTurnCredentials(ws, publicKey));
+}
+
 function registerClient(ws: WebSocket, publicKey: string) {
-  const existingClient = clients.find(client => client.publicKey === publicKey);
-  if (existingClient) {
-    existingClient.ws = ws;
-  } else {
-    clients.push({ ws, publicKey });
-  }
-  console.log(`Registered client with public key: ${publicKey}`);
-  console.log(`Total clients connected: ${clients.length}`);
-}
-
-function relayMessage(message: any) {
-  if (!message.recipient) {
-    console.log(`Message type '${message.type}' doesn't have a recipient, broadcasting to all clients`);
-    clients.forEach(client => {
-      if (client.publicKey !== message.sender) {
-        client.ws.send(JSON.stringify(message));
+  const existing = sockets.get(publicKey);
+  if (existing && existing !== ws) {
+    // The new socket has proven ownership of the key, so the old one loses its binding
+    sendError(existing, 'session-replaced', 'This public key was registered from another connection');
+    publicKeys.delete(existing);
+    existing.close();
+  }
+  sockets.set(publicKey, ws);
+  publicKeys.set(ws, publicKey);
+  // Other nodes holding the key evict their socket the same way
+  router.register(publicKey).catch(error => log.error('Failed to register route', { publicKey, error }));
+  log.info('Registered client', { publicKey, clients: sockets.size });
+}
+
+// The key registered on another node. As with a replaced session here, the key is not marked
+// offline. Its rooms, subscriptions and presence in the store now belong to the new
+// connection, so only this node's own bookkeeping goes.
+function evictClient(publicKey: string) {
+  const ws = sockets.get(publicKey);
+  if (!ws) {
+    return;
+  }
+  sockets.delete(publicKey);
+  publicKeys.delete(ws);
+  joinedRooms.delete(publicKey);
+  sendError(ws, 'session-replaced', 'This public key was registered from another connection');
+  ws.close();
+}
+
+// Frames the router has brought to a key connected here
+function deliverLocally(publicKey: string, frame: ServerFrame) {
+  const ws = sockets.get(publicKey);
+  if (ws) {
+    sendFrame(ws, frame);
+  }
+}
+
+function routeFrame(publicKey: string, frame: ServerFrame) {
+  router.deliver(publicKey, frame).catch(error => log.error('Failed to route frame', { type: frame.type, error }));
+}
+
+function isAuthorizedSender(ws: WebSocket, sender: string): boolean {
+  const publicKey = publicKeys.get(ws);
+  if (publicKey === undefined) {
+    sendError(ws, 'unauthenticated', 'Authenticate before sending messages');
+    return false;
+  }
+  if (publicKey !== sender) {
+    sendError(ws, 'sender-mismatch', 'Message sender does not match the authenticated public key');
+    return false;
+  }
+  return true;
+}
+
+function relayMessage(ws: WebSocket, message: PeerFrame) {
+  router.deliver(message.recipient, message)
+    .catch(error => {
+      log.error('Failed to route frame', { type: message.type, error });
+      return false;
+    })
+    .then(delivered => {
+      if (delivered) {
+        log.debug('Relayed frame', { type: message.type, sender: message.sender, recipient: message.recipient });
+        relayedFrames.inc({ type: message.type });
+      } else {
+        log.debug('Recipient not connected', { type: message.type, recipient: message.recipient });
+        relayFailures.inc({ type: message.type, reason: 'recipient-unavailable' });
+        if (REPORTED_UNAVAILABLE.has(message.type)) {
+          sendError(ws, 'recipient-unavailable', `Recipient ${message.recipient} is not connected`);
+        }
       }
     });
+}
+
+// Every encrypted message goes into the recipient's mailbox, even when the recipient is
+// online, and stays there until the recipient acknowledges it by its delivery ID. Mailboxes
+// are in the shared store, so the recipient gets them from whichever node it connects to.
+function forwardEncryptedMessage(ws: WebSocket, message: RelayedEncryptedMessageFrame) {
+  if (!decodePublicKey(message.recipient)) {
+    sendError(ws, 'invalid-public-key', 'Recipient is not a valid base58 ed25519 key');
+    return;
+  }
+  // Only mailboxes hand out delivery IDs
+  const { deliveryId: _deliveryId, ...frame } = message;
+  storeMessage(store, frame)
+    .then(async entry => {
+      if (!entry) {
+        log.info('Mailbox full', { recipient: message.recipient });
+        relayFailures.inc({ type: frame.type, reason: 'mailbox-full' });
+        sendError(ws, 'mailbox-full', 'The recipient has too many undelivered messages');
+        return;
+      }
+      relayedFrames.inc({ type: frame.type });
+      if (await router.deliver(message.recipient, { ...entry.frame, deliveryId: entry.deliveryId })) {
+        log.debug('Relayed encrypted message', { sender: message.sender, recipient: message.recipient });
+      } else {
+        log.debug('Stored encrypted message for offline recipient', { sender: message.sender, recipient: message.recipient });
+      }
+    })
+    .catch(logFailure('forward encrypted message'));
+}
+
+async function deliverMailbox(ws: WebSocket, publicKey: string) {
+  const entries = await pendingMessages(store, publicKey);
+  if (entries.length === 0) {
+    return;
+  }
+  log.debug('Delivering stored messages', { publicKey, count: entries.length });
+  entries.forEach(entry => {
+    sendFrame(ws, { ...entry.frame, deliveryId: entry.deliveryId });
+  });
+}
+
+function sendToMember(publicKey: string, frame: ServerFrame) {
+  routeFrame(publicKey, frame);
+}
+
+// Joining with a manifest newer than the stored one also publishes it; only the creator
+// can sign one, and members it no longer lists are removed from the room.
+async function joinRoom(ws: WebSocket, publicKey: string, manifest: RoomManifest) {
+  if (!verifyRoomManifest(manifest)) {
+    sendError(ws, 'invalid-room-manifest', 'Room manifest is malformed or not signed by its creator');
+    return;
+  }
+  if (!manifest.members.includes(publicKey)) {
+    sendError(ws, 'not-a-room-member', 'The room manifest does not list this public key');
+    return;
+  }
+
+  const roomId = manifest.roomId;
+  const current = await getRoomManifest(store, roomId);
+  if (current && (current.creator !== manifest.creator || current.version > manifest.version)) {
+    sendError(ws, 'stale-room-manifest', 'The room has a newer manifest or a different creator');
+    return;
+  }
+  if (!current) {
+    log.debug('Created room', { roomId });
+  }
+  await saveRoomManifest(store, manifest);
+
+  let joined = await joinedMembers(store, roomId);
+  for (const member of joined.filter(other => !manifest.members.includes(other))) {
+    joined.forEach(other => sendToMember(other, { type: 'room-member-left', roomId, member, manifest }));
+    await removeJoinedMember(store, roomId, member);
+    joined = joined.filter(other => other !== member);
+  }
+
+  const isNewMember = await addJoinedMember(store, roomId, publicKey);
+  const roomIds = joinedRooms.get(publicKey) ?? new Set<string>();
+  roomIds.add(roomId);
+  joinedRooms.set(publicKey, roomIds);
+  joined = await joinedMembers(store, roomId);
+  sendToMember(publicKey, { type: 'room-joined', roomId, manifest, members: joined });
+  joined.forEach(member => {
+    if (member !== publicKey && isNewMember) {
+      sendToMember(member, { type: 'room-member-joined', roomId, member: publicKey, manifest });
+    }
+  });
+  log.debug('Joined room', { publicKey, roomId, connected: joined.length });
+}
+
+async function leaveRoom(publicKey: string, roomId: string) {
+  const roomIds = joinedRooms.get(publicKey);
+  roomIds?.delete(roomId);
+  if (roomIds?.size === 0) {
+    joinedRooms.delete(publicKey);
+  }
+  if (!(await removeJoinedMember(store, roomId, publicKey))) {
     return;
   }
+  log.debug('Left room', { publicKey, roomId });
+  const joined = await joinedMembers(store, roomId);
+  if (joined.length === 0) {
+    await deleteRoom(store, roomId);
+    log.debug('Closed empty room', { roomId });
+    return;
+  }
+  const manifest = await getRoomManifest(store, roomId);
+  if (manifest) {
+    joined.forEach(member => sendToMember(member, { type: 'room-member-left', roomId, member: publicKey, manifest }));
+  }
+}
+
+async function leaveAllRooms(publicKey: string) {
+  await Promise.all(Array.from(joinedRooms.get(publicKey) ?? []).map(roomId => leaveRoom(publicKey, roomId)));
+}
 
-  console.log(`Attempting to relay message to: ${message.recipient}`);
-  console.log(`Current clients: ${clients.map(c => c.publicKey).join(', ')}`);
-  const recipientClient = clients.find(client => client.publicKey === message.recipient);
-  if (recipientClient) {
-    recipientClient.ws.send(JSON.stringify(message));
-    console.log(`Relayed message to recipient: ${message.recipient}`);
-  } else {
-    console.log(`Recipient not found: ${message.recipient}`);
+function checkContactCount(ws: WebSocket, contacts: string[]): boolean {
+  if (contacts.length > MAX_PRESENCE_CONTACTS) {
+    sendError(ws, 'too-many-contacts', `Presence is limited to ${MAX_PRESENCE_CONTACTS} contacts`);
+    return false;
   }
+  return true;
+}
+
+// A contact that has not approved the viewer looks exactly like one that has never been online
+async function presenceFrame(viewer: string, contact: string): Promise<ServerFrame> {
+  const { status, lastSeen } = (await isApproved(store, contact, viewer))
+    ? await getPresence(store, contact)
+    : { status: 'offline' as const, lastSeen: null };
+  return { type: 'presence', contact, status, lastSeen };
+}
+
+async function sendPresence(viewer: string, contact: string) {
+  sendToMember(viewer, await presenceFrame(viewer, contact));
 }
 
+async function updatePresence(publicKey: string, status: PresenceStatus) {
+  await setPresence(store, publicKey, status);
+  const watchers = await visibleWatchers(store, publicKey);
+  await Promise.all(watchers.map(watcher => sendPresence(watcher, publicKey)));
+}
+
+// Newly approved subscribers learn the current presence; revoked ones see the contact go
+// offline with no last-seen time and hear nothing more
+async function approveContacts(publicKey: string, contacts: string[]) {
+  const { granted, revoked } = await setApprovedContacts(store, publicKey, contacts);
+  await Promise.all([...granted, ...revoked].map(async contact => {
+    if (await isSubscribed(store, contact, publicKey)) {
+      await sendPresence(contact, publicKey);
+    }
+  }));
+}
+
+async function subscribeToContacts(ws: WebSocket, publicKey: string, contacts: string[]) {
+  await setSubscriptions(store, publicKey, contacts);
+  const frames = await Promise.all(contacts.map(contact => presenceFrame(publicKey, contact)));
+  frames.forEach(frame => sendFrame(ws, frame));
+}
+
+// Sockets that never answered the last ping are dead; terminating them fires 'close', which
+// removes their binding and takes them out of their rooms
+function checkHeartbeats() {
+  connections.forEach((connection, ws) => {
+    if (!connection.isAlive) {
+      log.info('Terminating unresponsive client', { publicKey: publicKeys.get(ws) ?? null });
+      ws.terminate();
+      return;
+    }
+    connection.isAlive = false;
+    ws.ping();
+  });
+}
+
+const heartbeatInterval = setInterval(checkHeartbeats, HEARTBEAT_INTERVAL_MS);
+setInterval(pruneKeyBuckets, 60 * 1000);
+if (isTurnConfigured()) {
+  setInterval(refreshTurnCredentials, TURN_CREDENTIAL_TTL_SECONDS * 1000 / 2);
+}
+
+wss.on('close', () => {
+  clearInterval(heartbeatInterval);
+  router.close().catch(error => log.error('Failed to close router', { error }));
+  store.quit().catch(error => log.error('Failed to close store', { error }));
+});
+
 wss.on('listening', () => {
-  console.log('Signaling server is running on ws://localhost:8080');
+  const scheme = TLS_CERT_FILE && TLS_KEY_FILE ? 'wss' : 'ws';
+  log.info(`Signaling server is running on ${scheme}://${HOST ?? 'localhost'}:${PORT}`);
+  if (METRICS_PORT !== undefined) {
+    log.info(`Metrics are served on ${METRICS_HOST}:${METRICS_PORT} at /metrics`);
+  }
+  if (METRICS_PUBLIC) {
+    log.warn(`Metrics are served publicly on port ${PORT} at /metrics`);
+  }
+  if (!isTurnConfigured()) {
+    log.warn('TURN_SECRET or TURN_URLS not set; clients will not receive TURN credentials');
+  }
 });
 
 wss.on('error', (error) => {
-  console.error('WebSocket server error:', error);
+  log.error('WebSocket server error', { error });
 });
\ No newline at end of file
@@ -0,0 +1,39 @@
+import Redis from 'ioredis';
+import { REDIS_URL } from './config';
+import { MemoryPubSub } from './memoryPubSub';
+import { createLogger } from '../../shared/logger';
+
+const log = createLogger('store');
+
+// The Redis commands the server keeps its shared state with: mailboxes, presence, rooms and
+// resume tokens. ioredis provides them, and so does MemoryPubSub. Nodes sharing a store see
+// each other's state, so a client can reconnect to any node.
+export interface StoreConnection {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<unknown>;
+  set(key: string, value: string, millisecondsToken: 'PX', milliseconds: number): Promise<unknown>;
+  // Reads and deletes in one step, so only one caller ever gets the value
+  getdel(key: string): Promise<string | null>;
+  del(...keys: string[]): Promise<number>;
+  pexpire(key: string, milliseconds: number): Promise<number>;
+  hset(key: string, field: string, value: string): Promise<number>;
+  hdel(key: string, ...fields: string[]): Promise<number>;
+  hgetall(key: string): Promise<Record<string, string>>;
+  sadd(key: string, ...members: string[]): Promise<number>;
+  srem(key: string, ...members: string[]): Promise<number>;
+  smembers(key: string): Promise<string[]>;
+  sismember(key: string, member: string): Promise<number>;
+  quit(): Promise<unknown>;
+}
+
+// Uses Redis when REDIS_URL is set, and otherwise keeps everything in this process
+export function createStore(): StoreConnection {
+  if (!REDIS_URL) {
+    const memory = new MemoryPubSub();
+    setInterval(() => memory.pruneExpired(), 60 * 1000).unref();
+    return memory.connect();
+  }
+  const connection = new Redis(REDIS_URL);
+  connection.on('error', error => log.error('Redis error', { error }));
+  return connection;
+}
@@ -0,0 +1,160 @@
+import { spawn } from 'child_process';
+import { AddressInfo, createServer } from 'net';
+import { join } from 'path';
+import WebSocket from 'ws';
+import bs58 from 'bs58';
+import { ed25519 } from '@noble/curves/ed25519';
+import { PROTOCOL_VERSION, ServerFrame, buildAuthenticationMessage, parseServerFrame } from '../../shared/protocol';
+
+// Helpers for tests that talk to a real server over WebSockets
+
+export interface TestServer {
+  url: string;
+  stop(): Promise<void>;
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+// Runs server.ts in a child process on a free port. `env` overrides settings such as the rate
+// limits; nothing is shared with other test servers.
+export async function startTestServer(env: Record<string, string> = {}): Promise<TestServer> {
+  const port = await freePort();
+  const child = spawn(process.execPath, ['--import', 'tsx', join(__dirname, 'server.ts')], {
+    cwd: join(__dirname, '..'),
+    env: { ...process.env, HOST: '127.0.0.1', PORT: String(port), LOG_LEVEL: 'info', LOG_FORMAT: 'json', ...env },
+    stdio: ['ignore', 'pipe', 'ignore']
+  });
+  const exited = new Promise<void>(resolve => child.once('exit', () => resolve()));
+  await new Promise<void>((resolve, reject) => {
+    let output = '';
+    child.stdout.on('data', (chunk: Buffer) => {
+      output += chunk.toString();
+      if (output.includes('Signaling server is running')) {
+        resolve();
+      }
+    });
+    child.once('exit', code => reject(new Error(`Test server exited with code ${code}: ${output}`)));
+  });
+  child.stdout.resume();
+  return {
+    url: `ws://127.0.0.1:${port}`,
+    stop: async () => {
+      child.kill();
+      await exited;
+    }
+  };
+}
+
+export interface TestClientOptions extends WebSocket.ClientOptions {
+  // Reuses another client's key, as the same wallet reconnecting would
+  privateKey?: Uint8Array;
+  // False leaves the server's pings unanswered. ws has the option but @types/ws does not list it yet.
+  autoPong?: boolean;
+}
+
+// A client with an ed25519 key that keeps every frame it receives until a test takes it
+export class TestClient {
+  readonly publicKey: string;
+  readonly privateKey: Uint8Array;
+  private ws: WebSocket;
+  private frames: ServerFrame[] = [];
+  private waiters: (() => void)[] = [];
+
+  private constructor(ws: WebSocket, privateKey: Uint8Array) {
+    this.privateKey = privateKey;
+    this.publicKey = bs58.encode(ed25519.getPublicKey(this.privateKey));
+    this.ws = ws;
+    ws.on('message', data => {
+      this.frames.push(parseServerFrame(data.toString()));
+      this.waiters.splice(0).forEach(wake => wake());
+    });
+  }
+
+  static connect(url: string, options: TestClientOptions = {}): Promise<TestClient> {
+    const { privateKey = ed25519.utils.randomPrivateKey(), ...wsOptions } = options;
+    const ws = new WebSocket(url, wsOptions);
+    const client = new TestClient(ws, privateKey);
+    return new Promise((resolve, reject) => {
+      ws.once('open', () => resolve(client));
+      ws.once('error', reject);
+    });
+  }
+
+  get isOpen(): boolean {
+    return this.ws.readyState === WebSocket.OPEN;
+  }
+
+  send(frame: Record<string, unknown>) {
+    this.ws.send(JSON.stringify({ protocolVersion: PROTOCOL_VERSION, ...frame }));
+  }
+
+  sendRaw(data: string) {
+    this.ws.send(data);
+  }
+
+  // Signs the challenge for `publicKey` with this client's key, whichever key that claims
+  sign(publicKey: string, nonce: string): string {
+    const message = new TextEncoder().encode(buildAuthenticationMessage(publicKey, nonce));
+    return Buffer.from(ed25519.sign(message, this.privateKey)).toString('base64');
+  }
+
+  // Runs the challenge and resolves with the resume token
+  async register(): Promise<string> {
+    this.send({ type: 'register', publicKey: this.publicKey });
+    const challenge = await this.next('challenge');
+    this.send({ type: 'authenticate', publicKey: this.publicKey, signature: this.sign(this.publicKey, challenge.nonce) });
+    return (await this.next('registered')).resumeToken;
+  }
+
+  // Takes the oldest frame of this type, waiting for one if needed
+  async next<T extends ServerFrame['type']>(type: T, timeoutMs = 5000): Promise<Extract<ServerFrame, { type: T }>> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const index = this.frames.findIndex(frame => frame.type === type);
+      if (index >= 0) {
+        return this.frames.splice(index, 1)[0] as Extract<ServerFrame, { type: T }>;
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new Error(`No ${type} frame within ${timeoutMs}ms`);
+      }
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, remaining);
+        this.waiters.push(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+  }
+
+  // Every frame of this type received within `ms`
+  async collect<T extends ServerFrame['type']>(type: T, ms = 300): Promise<Extract<ServerFrame, { type: T }>[]> {
+    await new Promise(resolve => setTimeout(resolve, ms));
+    const matching = this.frames.filter(frame => frame.type === type);
+    this.frames = this.frames.filter(frame => frame.type !== type);
+    return matching as Extract<ServerFrame, { type: T }>[];
+  }
+
+  closed(): Promise<void> {
+    if (this.ws.readyState === WebSocket.CLOSED) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.ws.once('close', () => resolve()));
+  }
+
+  close(): Promise<void> {
+    const closed = this.closed();
+    this.ws.close();
+    return closed;
+  }
+}
@@ -0,0 +1,24 @@
+import { createHmac } from 'crypto';
+import { TURN_CREDENTIAL_TTL_SECONDS, TURN_SECRET, TURN_URLS } from './config';
+import { IceServersFrame } from '../../shared/protocol';
+
+export function isTurnConfigured(): boolean {
+  return !!TURN_SECRET && TURN_URLS.length > 0;
+}
+
+// coturn's REST API scheme: the username is `<expiry>:<user>` and the password is the
+// base64 HMAC-SHA1 of the username under the shared secret, so coturn can check it without
+// talking to us. Returns null when TURN is not configured.
+export function issueTurnCredentials(publicKey: string): IceServersFrame | null {
+  if (!TURN_SECRET || TURN_URLS.length === 0) {
+    return null;
+  }
+  const expiresAt = Math.floor(Date.now() / 1000) + TURN_CREDENTIAL_TTL_SECONDS;
+  const username = `${expiresAt}:${publicKey}`;
+  const credential = createHmac('sha1', TURN_SECRET).update(username).digest('base64');
+  return {
+    type: 'ice-servers',
+    iceServers: [{ urls: TURN_URLS, username, credential }],
+    expiresAt: expiresAt * 1000
+  };
+}
@@ -0,0 +1,398 @@
+import { EventEmitter } from 'events';
+import { randomBytes, bytesToHex } from '@noble/hashes/utils';
+import type PeerSession from './PeerSession';
+import type { SessionPayload } from './PeerSession';
+import type { ClientTransports } from './transports';
+import { createLogger } from '../shared/logger';
+
+const log = createLogger('Calls');
+
+export const CALL_CONTROL_TYPES = ['call-offer', 'call-accept', 'call-decline', 'call-hangup'];
+
+// An unanswered call is given up after this long
+const RING_TIMEOUT_MS = 45 * 1000;
+
+export type CallState = 'outgoing' | 'incoming' | 'active' | 'ended';
+
+export interface CallSummary {
+  callId: string;
+  peer: string;
+  direction: 'incoming' | 'outgoing';
+  state: CallState;
+  // Whether the caller asked for video; either side can turn its camera on or off later
+  video: boolean;
+  muted: boolean;
+  cameraOn: boolean;
+  screenSharing: boolean;
+}
+
+// What calls need from the ConnectionManager that owns them
+export interface CallsContext {
+  localPublicKey: string;
+  getSession(peer: string): PeerSession | undefined;
+  sendControl(peer: string, payload: SessionPayload): Promise<void>;
+  mediaDevices: ClientTransports['mediaDevices'];
+}
+
+interface Call extends CallSummary {
+  ringTimer: ReturnType<typeof setTimeout> | null;
+  // Microphone and camera
+  localStream: MediaStream | null;
+  screenStream: MediaStream | null;
+  // Our tracks on the peer connection, by track id
+  senders: Map<string, RTCRtpSender>;
+  remoteStreams: Map<string, MediaStream>;
+}
+
+// One-to-one audio and video calls over a conversation's peer connection. Call signaling
+// travels as encrypted control payloads, and each side sends its DTLS fingerprint along.
+// The media is keyed by DTLS, so checking the fingerprint ties it to the wallet handshake,
+// even though the SDP itself passes through the signaling server. Only one call at a time.
+class Calls extends EventEmitter {
+  private context: CallsContext;
+  private call: Call | null = null;
+
+  constructor(context: CallsContext) {
+    super();
+    this.context = context;
+  }
+
+  getCall(): CallSummary | null {
+    return this.call ? this.summarize(this.call) : null;
+  }
+
+  async startCall(peer: string, video: boolean) {
+    if (this.call) {
+      throw new Error('Already in a call');
+    }
+    const fingerprint = this.getLocalFingerprint(peer);
+    const localStream = await this.getUserMedia({ audio: true, video });
+    if (this.call) {
+      localStream.getTracks().forEach(track => track.stop());
+      throw new Error('Already in a call');
+    }
+    const call = this.createCall(bytesToHex(randomBytes(16)), peer, 'outgoing', video);
+    call.localStream = localStream;
+    call.cameraOn = video;
+    this.emit('localStream', { peer, callId: call.callId, stream: localStream, screen: false });
+    this.emitState(call);
+    await this.context.sendControl(peer, { type: 'call-offer', callId: call.callId, video, fingerprint });
+  }
+
+  async acceptCall() {
+    const call = this.call;
+    if (!call || call.state !== 'incoming') {
+      throw new Error('There is no incoming call');
+    }
+    const fingerprint = this.getLocalFingerprint(call.peer);
+    const localStream = await this.getUserMedia({ audio: true, video: call.video });
+    if (this.call !== call || call.state !== 'incoming') {
+      // Hung up while the browser was asking for the microphone
+      localStream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    this.clearRingTimer(call);
+    call.localStream = localStream;
+    call.cameraOn = call.video;
+    call.state = 'active';
+    this.emit('localStream', { peer: call.peer, callId: call.callId, stream: localStream, screen: false });
+    this.addTracks(call, localStream);
+    this.emitState(call);
+    await this.context.sendControl(call.peer, { type: 'call-accept', callId: call.callId, fingerprint });
+  }
+
+  declineCall() {
+    const call = this.call;
+    if (call && call.state === 'incoming') {
+      this.context.sendControl(call.peer, { type: 'call-decline', callId: call.callId, reason: 'declined' });
+      this.end(call, 'Declined');
+    }
+  }
+
+  hangUp() {
+    const call = this.call;
+    if (call) {
+      this.context.sendControl(call.peer, { type: 'call-hangup', callId: call.callId });
+      this.end(call, 'Hung up');
+    }
+  }
+
+  setMuted(muted: boolean) {
+    const call = this.call;
+    if (!call || !call.localStream) {
+      return;
+    }
+    call.localStream.getAudioTracks().forEach(track => {
+      track.enabled = !muted;
+    });
+    call.muted = muted;
+    this.emitState(call);
+  }
+
+  // Adds or removes the camera track, which renegotiates the connection
+  async setCameraEnabled(enabled: boolean) {
+    const call = this.call;
+    if (!call || call.state === 'ended' || !call.localStream || call.cameraOn === enabled) {
+      return;
+    }
+    if (enabled) {
+      const [track] = (await this.getUserMedia({ video: true })).getVideoTracks();
+      if (this.call !== call) {
+        track.stop();
+        return;
+      }
+      call.localStream.addTrack(track);
+      if (call.state === 'active') {
+        this.addTrack(call, track, call.localStream);
+      }
+    } else {
+      call.localStream.getVideoTracks().forEach(track => {
+        this.removeTrack(call, track);
+        call.localStream?.removeTrack(track);
+      });
+    }
+    call.cameraOn = enabled;
+    this.emitState(call);
+  }
+
+  // Screen sharing adds a second video track, in a stream of its own
+  async startScreenShare() {
+    const call = this.call;
+    if (!call || call.state !== 'active' || call.screenStream) {
+      return;
+    }
+    if (!this.context.mediaDevices) {
+      throw new Error('Screen sharing is not supported here');
+    }
+    const screenStream = await this.context.mediaDevices.getDisplayMedia({ video: true });
+    if (this.call !== call || call.state !== 'active') {
+      screenStream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    call.screenStream = screenStream;
+    call.screenSharing = true;
+    screenStream.getVideoTracks().forEach(track => {
+      // The browser's own "stop sharing" button ends the track
+      track.onended = () => this.stopScreenShare();
+    });
+    this.addTracks(call, screenStream);
+    this.emit('localStream', { peer: call.peer, callId: call.callId, stream: screenStream, screen: true });
+    this.emitState(call);
+  }
+
+  stopScreenShare() {
+    const call = this.call;
+    if (!call || !call.screenStream) {
+      return;
+    }
+    call.screenStream.getTracks().forEach(track => this.removeTrack(call, track));
+    call.screenStream = null;
+    call.screenSharing = false;
+    this.emitState(call);
+  }
+
+  handleControl(peer: string, payload: SessionPayload) {
+    const callId = payload.callId;
+    if (typeof callId !== 'string') {
+      return;
+    }
+    if (payload.type === 'call-offer') {
+      this.handleOffer(peer, callId, payload.video === true, payload.fingerprint);
+      return;
+    }
+    const call = this.call;
+    if (!call || call.peer !== peer || call.callId !== callId) {
+      return;
+    }
+    switch (payload.type) {
+      case 'call-accept':
+        this.handleAccept(call, payload.fingerprint);
+        break;
+      case 'call-decline':
+        this.end(call, payload.reason === 'busy' ? 'Busy' : 'Declined');
+        break;
+      case 'call-hangup':
+        this.end(call, 'The other side hung up');
+        break;
+    }
+  }
+
+  // Tracks can arrive just before the peer's call-accept: the renegotiation offer goes through
+  // the signaling server, while the accept goes over the data channel
+  handleRemoteTrack(peer: string, track: MediaStreamTrack, streams: readonly MediaStream[]) {
+    const call = this.call;
+    if (!call || call.peer !== peer || call.state === 'ended') {
+      return;
+    }
+    const stream = streams[0] ?? new MediaStream([track]);
+    if (call.remoteStreams.has(stream.id)) {
+      return;
+    }
+    call.remoteStreams.set(stream.id, stream);
+    stream.onremovetrack = () => {
+      if (stream.getTracks().length === 0 && call.remoteStreams.delete(stream.id)) {
+        this.emit('remoteStreamEnded', { peer, callId: call.callId, streamId: stream.id });
+      }
+    };
+    this.emit('remoteStream', { peer, callId: call.callId, stream });
+  }
+
+  // The peer connection carrying the call is gone, so there is nobody left to tell
+  handleConnectionLost(peer: string) {
+    if (this.call && this.call.peer === peer) {
+      this.end(this.call, 'Connection lost');
+    }
+  }
+
+  cleanup() {
+    if (this.call) {
+      this.end(this.call, 'Closed');
+    }
+    this.removeAllListeners();
+  }
+
+  private handleOffer(peer: string, callId: string, video: boolean, fingerprint: unknown) {
+    const current = this.call;
+    if (current && current.peer === peer && current.state === 'outgoing' && this.context.localPublicKey < peer) {
+      // Both sides called each other; the lower wallet address keeps its call, and the
+      // other side accepts it in place of its own
+      return;
+    }
+    if (current && !(current.peer === peer && current.state === 'outgoing')) {
+      this.context.sendControl(peer, { type: 'call-decline', callId, reason: 'busy' });
+      return;
+    }
+    if (current) {
+      this.end(current, 'Replaced by the call from the other side');
+    }
+    const call = this.createCall(callId, peer, 'incoming', video);
+    if (!this.checkFingerprint(call, fingerprint)) {
+      return;
+    }
+    this.emitState(call);
+    if (current) {
+      this.acceptCall().catch(error => log.error('Failed to accept the crossing call', { error }));
+    }
+  }
+
+  private handleAccept(call: Call, fingerprint: unknown) {
+    if (call.state !== 'outgoing' || !this.checkFingerprint(call, fingerprint)) {
+      return;
+    }
+    this.clearRingTimer(call);
+    call.state = 'active';
+    if (call.localStream) {
+      this.addTracks(call, call.localStream);
+    }
+    this.emitState(call);
+  }
+
+  // Hangs up when the fingerprint sent over the ratchet is not the one in the remote SDP
+  private checkFingerprint(call: Call, fingerprint: unknown): boolean {
+    const remote = this.context.getSession(call.peer)?.getDtlsFingerprints().remote;
+    if (typeof fingerprint === 'string' && remote && fingerprint.toUpperCase() === remote) {
+      return true;
+    }
+    log.error('DTLS fingerprint does not match the one sent over the secure session');
+    this.context.sendControl(call.peer, { type: 'call-hangup', callId: call.callId });
+    this.end(call, 'The media connection could not be verified');
+    return false;
+  }
+
+  private getLocalFingerprint(peer: string): string {
+    const session = this.context.getSession(peer);
+    const fingerprint = session?.isReady() ? session.getDtlsFingerprints().local : null;
+    if (!fingerprint) {
+      throw new Error('The conversation must be connected before calling');
+    }
+    return fingerprint;
+  }
+
+  private getUserMedia(constraints: MediaStreamConstraints): Promise<MediaStream> {
+    if (!this.context.mediaDevices) {
+      return Promise.reject(new Error('Calls are not supported here'));
+    }
+    return this.context.mediaDevices.getUserMedia(constraints);
+  }
+
+  private createCall(callId: string, peer: string, direction: 'incoming' | 'outgoing', video: boolean): Call {
+    const call: Call = {
+      callId,
+      peer,
+      direction,
+      state: direction,
+      video,
+      muted: false,
+      cameraOn: false,
+      screenSharing: false,
+      ringTimer: null,
+      localStream: null,
+      screenStream: null,
+      senders: new Map(),
+      remoteStreams: new Map()
+    };
+    call.ringTimer = setTimeout(() => {
+      call.ringTimer = null;
+      if (direction === 'outgoing') {
+        this.context.sendControl(peer, { type: 'call-hangup', callId });
+      }
+      this.end(call, 'No answer');
+    }, RING_TIMEOUT_MS);
+    this.call = call;
+    return call;
+  }
+
+  private addTracks(call: Call, stream: MediaStream) {
+    stream.getTracks().forEach(track => this.addTrack(call, track, stream));
+  }
+
+  private addTrack(call: Call, track: MediaStreamTrack, stream: MediaStream) {
+    const sender = this.context.getSession(call.peer)?.addTrack(track, stream);
+    if (sender) {
+      call.senders.set(track.id, sender);
+    }
+  }
+
+  private removeTrack(call: Call, track: MediaStreamTrack) {
+    const sender = call.senders.get(track.id);
+    if (sender) {
+      call.senders.delete(track.id);
+      this.context.getSession(call.peer)?.removeTrack(sender);
+    }
+    track.stop();
+  }
+
+  private clearRingTimer(call: Call) {
+    if (call.ringTimer) {
+      clearTimeout(call.ringTimer);
+      call.ringTimer = null;
+    }
+  }
+
+  private end(call: Call, reason: string) {
+    if (call.state === 'ended') {
+      return;
+    }
+    this.clearRingTimer(call);
+    [call.localStream, call.screenStream].forEach(stream => {
+      stream?.getTracks().forEach(track => this.removeTrack(call, track));
+    });
+    call.localStream = null;
+    call.screenStream = null;
+    call.state = 'ended';
+    if (this.call === call) {
+      this.call = null;
+    }
+    this.emitState(call, reason);
+  }
+
+  private emitState(call: Call, reason?: string) {
+    this.emit('callStateChanged', { ...this.summarize(call), ...(reason ? { reason } : {}) });
+  }
+
+  private summarize({ callId, peer, direction, state, video, muted, cameraOn, screenSharing }: Call): CallSummary {
+    return { callId, peer, direction, state, video, muted, cameraOn, screenSharing };
+  }
+}
+
+export default Calls;
@@ -0,0 +1,61 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import ChatMessages from './ChatMessages';
+import type PeerSession from './PeerSession';
+
+// A session whose sends succeed or fail as the test says
+function chat(results: boolean[]) {
+  const sent: string[] = [];
+  const session = {
+    canEncrypt: () => true,
+    sendChatMessage: async (_id: string, text: string) => {
+      const ok = results.shift() ?? true;
+      if (ok) sent.push(text);
+      return ok;
+    },
+    sendControl: async () => {},
+    sendDirect: async () => true
+  } as unknown as PeerSession;
+  const statuses: { id: string; status: string; reason?: string }[] = [];
+  const messages = new ChatMessages({ getSession: () => session, messageTtlMs: 60 * 1000, persistQueue: () => {} });
+  messages.on('messageStatus', event => statuses.push(event));
+  return { messages, sent, statuses };
+}
+
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('ChatMessages', () => {
+  test('sends queued messages in order', async () => {
+    const { messages, sent } = chat([]);
+    const first = messages.send('bob', 'one');
+    messages.send('bob', 'two');
+    await settle();
+    assert.deepEqual(sent, ['one', 'two']);
+    assert.equal(messages.getStatus(first), 'sent');
+    messages.cleanup();
+  });
+
+  test('marks a failed send as failed with a reason, and it can be retried at once', async () => {
+    const { messages, sent, statuses } = chat([false]);
+    const id = messages.send('bob', 'one');
+    await settle();
+    assert.equal(messages.getStatus(id), 'failed');
+    assert.deepEqual(statuses.at(-1), { peer: 'bob', id, status: 'failed', reason: 'send-failed' });
+    assert.deepEqual(messages.getQueuedPeers(), []);
+
+    assert.equal(messages.retry(id), true);
+    await settle();
+    assert.deepEqual(sent, ['one']);
+    assert.equal(messages.getStatus(id), 'sent');
+    messages.cleanup();
+  });
+
+  test('only retries failed messages', async () => {
+    const { messages } = chat([]);
+    const id = messages.send('bob', 'one');
+    await settle();
+    assert.equal(messages.retry(id), false);
+    assert.equal(messages.retry('unknown'), false);
+    messages.cleanup();
+  });
+});
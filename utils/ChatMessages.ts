@@ -0,0 +1,343 @@
+import { EventEmitter } from 'events';
+import { randomBytes, bytesToHex } from '@noble/hashes/utils';
+import type PeerSession from './PeerSession';
+import type { SessionPayload } from './PeerSession';
+
+// Control payload types handled here rather than by rooms or file transfers
+export const CHAT_CONTROL_TYPES = ['receipt', 'typing'];
+
+export type MessageStatus = 'queued' | 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
+
+// While the user keeps typing, 'typing' is re-sent this often so the peer's indicator stays on
+const TYPING_REFRESH_MS = 3 * 1000;
+// No keystroke for this long counts as having stopped typing
+const TYPING_IDLE_MS = 5 * 1000;
+// A peer's indicator is cleared if neither a refresh nor a stop arrives in time
+const TYPING_TIMEOUT_MS = 8 * 1000;
+// Bounds on per-peer bookkeeping
+const MAX_TRACKED_MESSAGES = 1000;
+const MAX_SEEN_MESSAGE_IDS = 500;
+const MAX_QUEUED_MESSAGES = 500;
+const EXPIRY_CHECK_INTERVAL_MS = 30 * 1000;
+
+// Receipts only ever move a message forward
+const STATUS_ORDER: MessageStatus[] = ['queued', 'sending', 'sent', 'delivered', 'read'];
+
+// A message waiting for its conversation to become secure
+export interface QueuedMessage {
+  id: string;
+  peer: string;
+  text: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+// What chat delivery needs from the ConnectionManager that owns it
+export interface ChatMessagesContext {
+  getSession(peer: string): PeerSession | undefined;
+  // How long a message may wait in the queue before it fails as expired
+  messageTtlMs: number;
+  // Called with the whole queue, in order, whenever it changes
+  persistQueue(messages: QueuedMessage[]): void;
+}
+
+interface OutgoingMessage {
+  peer: string;
+  text: string;
+  status: MessageStatus;
+}
+
+interface TypingState {
+  lastSent: number;
+  idleTimer: ReturnType<typeof setTimeout>;
+}
+
+// One-to-one chat on top of the pairwise sessions: an outbound queue, message ids, delivered
+// and read receipts, retries, and typing indicators. Receipts and typing travel as encrypted
+// control payloads.
+class ChatMessages extends EventEmitter {
+  private context: ChatMessagesContext;
+  // Our messages, by id, until they are read
+  private outgoing = new Map<string, OutgoingMessage>();
+  // Unsent messages for every peer, oldest first; each peer's are sent strictly in this order
+  private queue: QueuedMessage[] = [];
+  private flushing = new Set<string>();
+  private expiryTimer: ReturnType<typeof setInterval>;
+  // Ids received from each peer, to drop retried duplicates
+  private seen = new Map<string, string[]>();
+  // Ids received from each peer that we have not reported as read yet
+  private unread = new Map<string, string[]>();
+  private typing = new Map<string, TypingState>();
+  private peerTypingTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(context: ChatMessagesContext) {
+    super();
+    this.context = context;
+    this.expiryTimer = setInterval(() => this.expireMessages(), EXPIRY_CHECK_INTERVAL_MS);
+  }
+
+  // Queues the message and returns its id; its progress is reported through 'messageStatus'
+  send(peer: string, text: string): string {
+    if (this.queue.length >= MAX_QUEUED_MESSAGES) {
+      throw new Error('Too many unsent messages');
+    }
+    const id = bytesToHex(randomBytes(16));
+    this.track(id, { peer, text, status: 'queued' });
+    this.enqueue(id, peer, text);
+    this.stopTyping(peer);
+    return id;
+  }
+
+  // Queues a failed message again under the same id, so the peer can drop it if it already arrived
+  retry(id: string): boolean {
+    const message = this.outgoing.get(id);
+    if (!message || message.status !== 'failed') {
+      return false;
+    }
+    this.setStatus(id, 'queued');
+    this.enqueue(id, message.peer, message.text);
+    return true;
+  }
+
+  // Adds messages persisted by an earlier page load, and returns the peers they are waiting for
+  restoreQueue(messages: QueuedMessage[]): string[] {
+    messages
+      .filter(message => !this.outgoing.has(message.id))
+      .forEach(message => {
+        this.queue.push(message);
+        this.track(message.id, { peer: message.peer, text: message.text, status: 'queued' });
+      });
+    this.expireMessages();
+    this.context.persistQueue(this.queue);
+    return this.getQueuedPeers();
+  }
+
+  getQueuedPeers(): string[] {
+    return Array.from(new Set(this.queue.map(message => message.peer)));
+  }
+
+  // Sends the peer's queued messages in order once its session can encrypt. With the data
+  // channel down they go through the server relay, which holds them for an offline peer.
+  async flush(peer: string) {
+    if (this.flushing.has(peer)) {
+      return;
+    }
+    this.flushing.add(peer);
+    try {
+      let next: QueuedMessage | undefined;
+      while ((next = this.queue.find(message => message.peer === peer))) {
+        const session = this.context.getSession(peer);
+        if (!session || !session.canEncrypt()) {
+          break;
+        }
+        this.setStatus(next.id, 'sending');
+        const sent = await session.sendChatMessage(next.id, next.text);
+        this.dequeue(next.id);
+        if (!sent) {
+          // Out of the queue so that retry() can queue it again; the rest wait for the next flush
+          this.setStatus(next.id, 'failed', 'send-failed');
+          break;
+        }
+        this.setStatus(next.id, 'sent');
+      }
+    } finally {
+      this.flushing.delete(peer);
+    }
+  }
+
+  getStatus(id: string): MessageStatus | undefined {
+    return this.outgoing.get(id)?.status;
+  }
+
+  // Returns false for a duplicate that has already been shown
+  handleMessage(peer: string, id: string): boolean {
+    const seen = this.seen.get(peer) ?? [];
+    const isNew = !seen.includes(id);
+    if (isNew) {
+      seen.push(id);
+      this.seen.set(peer, seen.slice(-MAX_SEEN_MESSAGE_IDS));
+      const unread = this.unread.get(peer) ?? [];
+      unread.push(id);
+      this.unread.set(peer, unread.slice(-MAX_SEEN_MESSAGE_IDS));
+    }
+    // A retry means our earlier receipt may have been lost, so acknowledge again either way
+    this.sendReceipt(peer, [id], 'delivered');
+    this.clearPeerTyping(peer);
+    return isNew;
+  }
+
+  // Reports everything received from the peer so far as read
+  markRead(peer: string) {
+    const ids = this.unread.get(peer);
+    if (!ids || ids.length === 0) {
+      return;
+    }
+    this.unread.delete(peer);
+    this.sendReceipt(peer, ids, 'read');
+  }
+
+  // Call on every keystroke; sends 'typing' at most every TYPING_REFRESH_MS and a stop once idle
+  notifyTyping(peer: string) {
+    const state = this.typing.get(peer);
+    const now = Date.now();
+    if (state) {
+      clearTimeout(state.idleTimer);
+    }
+    const shouldSend = !state || now - state.lastSent >= TYPING_REFRESH_MS;
+    if (shouldSend) {
+      this.sendTyping(peer, true);
+    }
+    this.typing.set(peer, {
+      lastSent: shouldSend ? now : state.lastSent,
+      idleTimer: setTimeout(() => this.stopTyping(peer), TYPING_IDLE_MS)
+    });
+  }
+
+  stopTyping(peer: string) {
+    const state = this.typing.get(peer);
+    if (!state) {
+      return;
+    }
+    clearTimeout(state.idleTimer);
+    this.typing.delete(peer);
+    this.sendTyping(peer, false);
+  }
+
+  handleControl(peer: string, payload: SessionPayload) {
+    switch (payload.type) {
+      case 'receipt':
+        this.handleReceipt(peer, payload.ids, payload.status);
+        break;
+      case 'typing':
+        this.handleTyping(peer, payload.typing === true);
+        break;
+    }
+  }
+
+  // For a closed conversation; its queued messages wait for the next one with the same peer
+  forgetPeer(peer: string) {
+    this.stopTyping(peer);
+    this.clearPeerTyping(peer);
+    this.seen.delete(peer);
+    this.unread.delete(peer);
+  }
+
+  cleanup() {
+    clearInterval(this.expiryTimer);
+    this.queue = [];
+    this.typing.forEach(state => clearTimeout(state.idleTimer));
+    this.peerTypingTimers.forEach(timer => clearTimeout(timer));
+    this.typing.clear();
+    this.peerTypingTimers.clear();
+    this.outgoing.clear();
+    this.seen.clear();
+    this.unread.clear();
+    this.removeAllListeners();
+  }
+
+  private enqueue(id: string, peer: string, text: string) {
+    const now = Date.now();
+    this.queue.push({ id, peer, text, createdAt: now, expiresAt: now + this.context.messageTtlMs });
+    this.context.persistQueue(this.queue);
+    this.flush(peer);
+  }
+
+  private dequeue(id: string) {
+    this.queue = this.queue.filter(message => message.id !== id);
+    this.context.persistQueue(this.queue);
+  }
+
+  // Messages being sent right now are left alone; they are out of the queue a moment later
+  private expireMessages() {
+    const now = Date.now();
+    const expired = this.queue.filter(message => message.expiresAt <= now && this.getStatus(message.id) !== 'sending');
+    if (expired.length === 0) {
+      return;
+    }
+    expired.forEach(message => {
+      this.dequeue(message.id);
+      this.setStatus(message.id, 'failed', 'expired');
+    });
+  }
+
+  private handleReceipt(peer: string, ids: unknown, status: unknown) {
+    if (!Array.isArray(ids) || (status !== 'delivered' && status !== 'read')) {
+      return;
+    }
+    ids.forEach(id => {
+      const message = typeof id === 'string' ? this.outgoing.get(id) : undefined;
+      // Only the recipient may acknowledge a message
+      if (message && message.peer === peer) {
+        this.setStatus(id, status);
+      }
+    });
+  }
+
+  private handleTyping(peer: string, typing: boolean) {
+    this.clearPeerTyping(peer, false);
+    if (typing) {
+      this.peerTypingTimers.set(peer, setTimeout(() => this.clearPeerTyping(peer), TYPING_TIMEOUT_MS));
+    }
+    this.emit('typing', { peer, typing });
+  }
+
+  private clearPeerTyping(peer: string, notify: boolean = true) {
+    const timer = this.peerTypingTimers.get(peer);
+    if (!timer) {
+      return;
+    }
+    clearTimeout(timer);
+    this.peerTypingTimers.delete(peer);
+    if (notify) {
+      this.emit('typing', { peer, typing: false });
+    }
+  }
+
+  private sendReceipt(peer: string, ids: string[], status: 'delivered' | 'read') {
+    const session = this.context.getSession(peer);
+    if (session) {
+      session.sendControl({ type: 'receipt', ids, status });
+    }
+  }
+
+  // Typing state is only worth sending while the data channel is up
+  private sendTyping(peer: string, typing: boolean) {
+    const session = this.context.getSession(peer);
+    if (session) {
+      session.sendDirect({ type: 'typing', typing });
+    }
+  }
+
+  private track(id: string, message: OutgoingMessage) {
+    this.outgoing.set(id, message);
+    if (this.outgoing.size > MAX_TRACKED_MESSAGES) {
+      // Stop tracking the oldest message that is no longer in the queue
+      const oldest = Array.from(this.outgoing.keys()).find(trackedId => !this.queue.some(queued => queued.id === trackedId));
+      if (oldest !== undefined) {
+        this.outgoing.delete(oldest);
+      }
+    }
+    this.emit('messageStatus', { peer: message.peer, id, status: message.status });
+  }
+
+  // Receipts can overtake the send resolving, so apart from retries and failures a status only
+  // ever moves forward
+  private setStatus(id: string, status: MessageStatus, reason?: string) {
+    const message = this.outgoing.get(id);
+    if (!message) {
+      return;
+    }
+    const isRetry = message.status === 'failed' && status === 'queued';
+    const isFailure = status === 'failed' && (message.status === 'queued' || message.status === 'sending');
+    if (!isRetry && !isFailure && STATUS_ORDER.indexOf(status) <= STATUS_ORDER.indexOf(message.status)) {
+      return;
+    }
+    message.status = status;
+    this.emit('messageStatus', { peer: message.peer, id, status, ...(reason ? { reason } : {}) });
+    if (status === 'read') {
+      this.outgoing.delete(id);
+    }
+  }
+}
+
+export default ChatMessages;
@@ -1,25 +1,200 @@
 import { EventEmitter } from 'events';
-import { PublicKey, Keypair } from '@solana/web3.js';
-import * as ed25519 from '@noble/ed25519';
-import { sha256 } from '@noble/hashes/sha256';
+import WalletEncryptionService, { EncryptionService, MessageSigner } from '../services/EncryptionService';
+import { DEFAULT_CIPHER_SUITES } from '../services/cipherSuites';
+import { computeSafetyNumber, SafetyNumber } from '../services/SafetyNumber';
+import HistoryStore, { HistoryCursor, HistoryMessage, HistoryPage, roomConversationId } from '../services/HistoryStore';
+import PeerSession, { ReceivingKeysSnapshot, SessionPayload } from './PeerSession';
+import { ConnectionState } from './ConnectionStateMachine';
+import GroupRooms, { RoomManifest, RoomSummary } from './GroupRooms';
+import FileTransfers, { FILE_CONTROL_TYPES, FileDescription } from './FileTransfers';
+import Contacts, { Contact, PresenceStatus } from './Contacts';
+import ChatMessages, { CHAT_CONTROL_TYPES, MessageStatus, QueuedMessage } from './ChatMessages';
+import Calls, { CALL_CONTROL_TYPES, CallSummary } from './Calls';
+import { backoffDelay } from './backoff';
+import { ClientConfig, clientConfig } from './config';
+import { browserTransports, ClientTransports, SignalingSocket, SOCKET_OPEN } from './transports';
+import {
+  buildAuthenticationMessage,
+  ClientFrame,
+  encodeFrame,
+  IceServer,
+  MAILBOX_TTL_MS,
+  PeerFrame,
+  ProtocolError,
+  RelayedEncryptedMessageFrame,
+  ServerFrame,
+  parseServerFrame
+} from '../shared/protocol';
+import { configureLogging, createLogger } from '../shared/logger';
+
+export type { MessageSigner } from '../services/EncryptionService';
+export type { RoomManifest, RoomSummary } from './GroupRooms';
+export type { FileDescription, TransferDirection } from './FileTransfers';
+export type { ClientConfig } from './config';
+export type { ClientTransports, SignalingSocket } from './transports';
+export type { Contact, PresenceStatus } from './Contacts';
+export type { MessageStatus } from './ChatMessages';
+export type { CallState, CallSummary } from './Calls';
+export type { ConnectionState, StateChange } from './ConnectionStateMachine';
+export type { HistoryCursor, HistoryMessage, HistoryPage } from '../services/HistoryStore';
+export type { SafetyNumber } from '../services/SafetyNumber';
+export { roomConversationId } from '../services/HistoryStore';
+export { INLINE_IMAGE_TYPES } from './FileTransfers';
+
+const log = createLogger('ConnectionManager');
+
+export interface ConversationSummary {
+  peer: string;
+  initiator: boolean;
+  ready: boolean;
+  state: ConnectionState;
+}
+
+// PeerSession events that ConnectionManager re-emits as-is; each payload carries `peer`.
+// 'stateChange' sums up the others; the rest stay for callers that only need one of them.
+const FORWARDED_SESSION_EVENTS = [
+  'stateChange',
+  'dataChannelReady',
+  'dataChannelClosed',
+  'encryptionReady',
+  'peerConnectionEstablished',
+  'identityVerificationFailed',
+  'iceRestart',
+  'sessionResuming',
+  'peerError'
+];
+
+// GroupRooms events that ConnectionManager re-emits as-is; each payload carries `roomId`
+const FORWARDED_ROOM_EVENTS = ['roomInvite', 'roomJoined', 'roomUpdated', 'roomLeft', 'groupMessage', 'roomError'];
+
+// FileTransfers events that ConnectionManager re-emits as-is; each payload carries `peer` and `transferId`
+const FORWARDED_FILE_EVENTS = ['fileOffered', 'fileProgress', 'fileReceived', 'fileSent', 'fileCancelled'];
+
+// ChatMessages events that ConnectionManager re-emits as-is; each payload carries `peer`
+const FORWARDED_CHAT_EVENTS = ['messageStatus', 'typing'];
+
+// Contacts events that ConnectionManager re-emits as-is; each payload carries `publicKey`
+const FORWARDED_CONTACT_EVENTS = ['contactUpdated', 'contactRemoved', 'identityKeyChanged'];
+
+// Calls events that ConnectionManager re-emits as-is; each payload carries `peer` and `callId`
+const FORWARDED_CALL_EVENTS = ['callStateChanged', 'localStream', 'remoteStream', 'remoteStreamEnded'];
+
+interface StoredReceivingKeys {
+  keys: ReceivingKeysSnapshot;
+  updatedAt: number;
+}
 
 class ConnectionManager extends EventEmitter {
-  private ws: WebSocket | null = null;
-  private peerConnection: RTCPeerConnection | null = null;
-  private dataChannel: RTCDataChannel | null = null;
-  private isInitiator: boolean = false;
+  private ws: SignalingSocket | null = null;
   private messageQueue: string[] = [];
-  private encryptionKey: CryptoKey | null = null;
+  private encryptionService: EncryptionService;
   private publicKey: string;
-  private recipientPublicKey: string | null = null;
-  private encryptionSetupComplete: boolean = false;
-  private encryptionSetupInProgress: boolean = false;
-  private solanaKeypair: Keypair;
-
-  constructor(publicKey: string) {
+  // One session per peer wallet address
+  private sessions = new Map<string, PeerSession>();
+  // Control payloads for peers whose conversation has not been opened yet (the other side initiates)
+  private pendingControls = new Map<string, SessionPayload[]>();
+  private rooms: GroupRooms;
+  private files: FileTransfers;
+  private contacts: Contacts;
+  private chat: ChatMessages;
+  private calls: Calls;
+  private history: HistoryStore | null = null;
+  private transports: ClientTransports;
+  private storage: Storage | null;
+  // Writes of the sealed outbox, chained so an older queue never overwrites a newer one
+  private outboxWrite: Promise<void> = Promise.resolve();
+  // Messages seen before the history was unlocked, written as soon as it is
+  private pendingHistory: HistoryMessage[] = [];
+  // Each peer's newest receiving keys, kept after its conversation closes so messages still
+  // held in the server mailbox can be decrypted. Sealed like the outbox once history is unlocked.
+  private receivingKeys = new Map<string, StoredReceivingKeys>();
+  private receivingKeysWrite: Promise<void> = Promise.resolve();
+  // Mailbox messages that could not be decrypted yet, retried once keys are restored. They are
+  // not acknowledged, so the server redelivers them on every registration until they are.
+  private heldMessages = new Map<string, RelayedEncryptedMessageFrame>();
+  private signMessage: MessageSigner;
+  private config: ClientConfig;
+  // Short-lived TURN credentials from the server, used alongside the configured ICE servers
+  private turnServers: IceServer[] = [];
+  private isRegistered: boolean = false;
+  private resumeToken: string | null = null;
+  private isClosed: boolean = false;
+  private reconnectAttempts: number = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Everything but the wallet has a browser default; see sdk/node.ts for running under Node
+  constructor(
+    publicKey: string,
+    signMessage: MessageSigner,
+    encryptionService?: EncryptionService,
+    config: ClientConfig = clientConfig,
+    transports: ClientTransports = browserTransports()
+  ) {
     super();
     this.publicKey = publicKey;
-    this.solanaKeypair = Keypair.generate(); // This is a temporary keypair for ECDH
+    this.signMessage = signMessage;
+    this.config = config;
+    configureLogging({ level: config.logLevel });
+    this.transports = transports;
+    this.storage = transports.storage;
+    this.encryptionService = encryptionService ?? new WalletEncryptionService(publicKey, signMessage, DEFAULT_CIPHER_SUITES, this.storage);
+    this.rooms = new GroupRooms({
+      localPublicKey: publicKey,
+      signMessage,
+      sendSignal: frame => this.sendFrame(frame),
+      openConversation: peer => this.openConversation(peer),
+      sendControl: (peer, payload) => this.sendControl(peer, payload)
+    });
+    FORWARDED_ROOM_EVENTS.forEach(eventName => {
+      this.rooms.on(eventName, payload => this.emit(eventName, payload));
+    });
+    this.files = new FileTransfers({
+      getSession: peer => this.sessions.get(peer),
+      sendControl: (peer, payload) => this.sendControl(peer, payload)
+    });
+    FORWARDED_FILE_EVENTS.forEach(eventName => {
+      this.files.on(eventName, payload => this.emit(eventName, payload));
+    });
+    this.rooms.on('groupMessage', ({ roomId, sender, text, id, timestamp }) => {
+      this.recordHistory({ id, conversationId: roomConversationId(roomId), sender, text, timestamp });
+    });
+    ['fileReceived', 'fileSent'].forEach(eventName => {
+      this.files.on(eventName, ({ peer, direction, transferId, name, mimeType, size }) => {
+        this.recordHistory({
+          id: transferId,
+          conversationId: peer,
+          sender: direction === 'incoming' ? peer : this.publicKey,
+          text: name,
+          timestamp: Date.now(),
+          attachment: { name, mimeType, size }
+        });
+      });
+    });
+    this.chat = new ChatMessages({
+      getSession: peer => this.sessions.get(peer),
+      messageTtlMs: this.config.outboundMessageTtlMs,
+      persistQueue: messages => this.persistOutbox(messages)
+    });
+    FORWARDED_CHAT_EVENTS.forEach(eventName => {
+      this.chat.on(eventName, payload => this.emit(eventName, payload));
+    });
+    this.contacts = new Contacts({
+      localPublicKey: publicKey,
+      sendSignal: frame => this.sendFrame(frame),
+      storage: this.storage
+    });
+    FORWARDED_CONTACT_EVENTS.forEach(eventName => {
+      this.contacts.on(eventName, payload => this.emit(eventName, payload));
+    });
+    this.calls = new Calls({
+      localPublicKey: publicKey,
+      getSession: peer => this.sessions.get(peer),
+      sendControl: (peer, payload) => this.sendControl(peer, payload),
+      mediaDevices: transports.mediaDevices
+    });
+    FORWARDED_CALL_EVENTS.forEach(eventName => {
+      this.calls.on(eventName, payload => this.emit(eventName, payload));
+    });
   }
 
   async init() {
@@ -29,516 +204,785 @@ class ConnectionManager extends EventEmitter {
 
   private async initWebSocket() {
     return new Promise<void>((resolve, reject) => {
-      this.ws = new WebSocket('ws://localhost:8080');
+      this.ws = this.transports.createSocket(this.config.signalingUrl);
 
       this.ws.onopen = () => {
-        console.log('WebSocket connected');
-        this.sendQueuedMessages();
+        log.debug('WebSocket connected');
         resolve();
       };
 
       this.ws.onmessage = this.handleWebSocketMessage.bind(this);
 
       this.ws.onerror = (error) => {
-        console.error('WebSocket error:', error);
+        log.error('WebSocket error', { error });
         reject(error);
       };
 
       this.ws.onclose = () => {
-        console.log('WebSocket closed');
-        this.emit('error', 'Connection to the server was closed');
+        log.debug('WebSocket closed');
+        this.isRegistered = false;
+        this.contacts.markAllOffline();
+        this.emit('serverDisconnected');
+        this.scheduleReconnect();
       };
     });
   }
 
-  private handleWebSocketMessage(event: MessageEvent) {
-    console.log('Raw message received:', event.data);
-    try {
-      const data = JSON.parse(event.data);
-      console.log('Parsed message:', data);
-      
-      switch (data.type) {
-        case 'init':
-          this.isInitiator = data.isInitiator;
-          console.log(`Received init message. isInitiator: ${this.isInitiator}`);
-          this.initializePeerConnection();
-          break;
-        case 'offer':
-          console.log('Received offer');
-          this.handleOffer(data.offer);
-          break;
-        case 'answer':
-          console.log('Received answer');
-          this.handleAnswer(data.answer);
-          break;
-        case 'ice-candidate':
-          console.log('Received ICE candidate');
-          this.handleNewICECandidate(data.candidate);
-          break;
-        case 'error':
-          this.emit('error', data.message);
-          break;
-        case 'ecdh-public-key':
-          console.log('Received ECDH public key message');
-          if (data.sender !== this.publicKey) {
-            this.handleECDHPublicKey(data.key, data.sender);
-          }
-          break;
-        case 'encryption-ready':
-          if (data.sender === this.recipientPublicKey) {
-            console.log('Received encryption ready confirmation from peer');
-            this.encryptionSetupComplete = true;
-            console.log('Emitting encryptionReady event');
-            this.emit('encryptionReady');
-          }
-          break;
-        case 'encrypted-message':
-          this.handleEncryptedMessage(data.message);
-          break;
-        case 'initiate':
-          if (data.recipient === this.publicKey) {
-            console.log('Received initiate message');
-            this.recipientPublicKey = data.sender;
-            this.isInitiator = false;
-            this.initializePeerConnection();
-          }
-          break;
-      }
-    } catch (error) {
-      console.error('Error parsing message:', error);
+  private scheduleReconnect() {
+    if (this.isClosed || this.reconnectTimer) {
+      return;
     }
-  }
 
-  private initializePeerConnection() {
-    console.log('Initializing peer connection');
-    this.peerConnection = new RTCPeerConnection({
-      iceServers: [{ urls: 'stun:stun.l.google.com:19302' }]
-    });
+    const delay = backoffDelay(this.reconnectAttempts);
+    this.reconnectAttempts += 1;
+    log.info('Reconnecting to server', { delay, attempt: this.reconnectAttempts });
+    this.emit('reconnecting', { attempt: this.reconnectAttempts, delay });
 
-    this.peerConnection.onicecandidate = (event) => {
-      if (event.candidate) {
-        console.log('Sending ICE candidate');
-        this.sendMessage(JSON.stringify({ 
-          type: 'ice-candidate', 
-          candidate: event.candidate,
-          sender: this.publicKey,
-          recipient: this.recipientPublicKey
-        }));
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      try {
+        await this.initWebSocket();
+        this.registerWithServer();
+      } catch (error) {
+        // onclose follows the error and schedules the next attempt
+        log.error('Reconnection attempt failed', { error });
       }
-    };
+    }, delay);
+  }
 
-    this.peerConnection.onconnectionstatechange = () => {
-      console.log('Connection state changed:', this.peerConnection?.connectionState);
-      if (this.peerConnection?.connectionState === 'connected') {
-        this.emit('peerConnectionEstablished');
+  private handleWebSocketMessage(event: { data: unknown }) {
+    let frame: ServerFrame;
+    try {
+      frame = parseServerFrame(String(event.data));
+    } catch (error) {
+      if (error instanceof ProtocolError) {
+        log.warn('Rejected frame from server', { code: error.code, reason: error.message });
+      } else {
+        log.error('Error parsing message', { error });
       }
-    };
+      return;
+    }
+    log.debug('Received frame', { frame });
+
+    switch (frame.type) {
+      case 'challenge':
+        log.debug('Received authentication challenge');
+        this.handleChallenge(frame.nonce);
+        break;
+      case 'ice-servers':
+        this.turnServers = frame.iceServers;
+        break;
+      case 'registered':
+        log.debug('Registered with server');
+        // The server redelivers everything not yet acknowledged
+        this.heldMessages.clear();
+        this.isRegistered = true;
+        this.resumeToken = frame.resumeToken;
+        if (this.reconnectAttempts > 0) {
+          this.reconnectAttempts = 0;
+          this.emit('reconnected');
+        }
+        this.emit('serverConnected');
+        this.sendQueuedMessages();
+        this.sessions.forEach(session => session.resume());
+        this.rooms.rejoinAll();
+        this.contacts.sync();
+        break;
+      case 'error':
+        this.emit('error', frame.message);
+        break;
+      case 'initiate':
+        if (frame.recipient === this.publicKey) {
+          this.handleInitiate(frame.sender);
+        }
+        break;
+      case 'conversation-closed':
+        if (this.sessions.has(frame.sender)) {
+          log.info('Peer closed the conversation', { peer: frame.sender });
+          this.removeSession(frame.sender, false);
+        }
+        break;
+      case 'presence':
+        this.contacts.handlePresence(frame);
+        break;
+      case 'room-joined':
+      case 'room-member-joined':
+      case 'room-member-left':
+        this.rooms.handleSignal(frame);
+        break;
+      case 'encrypted-message':
+        this.handleRelayedMessage(frame);
+        break;
+      case 'offer':
+      case 'answer':
+      case 'ice-candidate':
+      case 'ecdh-public-key':
+      case 'key-confirmation':
+        this.routeToSession(frame);
+        break;
+    }
+  }
 
-    this.peerConnection.oniceconnectionstatechange = () => {
-      console.log('ICE connection state changed:', this.peerConnection?.iceConnectionState);
-    };
+  // Signaling frames that belong to a single conversation are routed by sender
+  private routeToSession(frame: PeerFrame) {
+    const session = this.sessions.get(frame.sender);
+    if (session) {
+      session.handleSignal(frame);
+    } else {
+      log.debug('Ignoring frame from peer without a conversation', { type: frame.type, peer: frame.sender });
+    }
+  }
 
-    if (this.isInitiator) {
-      console.log('Creating data channel');
-      this.dataChannel = this.peerConnection.createDataChannel('chat');
-      this.setupDataChannel();
-      this.createOffer();
+  // A mailbox copy is only acknowledged once it has been decrypted, or was already received.
+  // A peer we have no conversation with but still hold keys for gets one opened, so its
+  // restored keys can decrypt what it sent while we were away.
+  private async handleRelayedMessage(frame: RelayedEncryptedMessageFrame) {
+    if (!this.sessions.has(frame.sender) && this.receivingKeys.has(frame.sender)) {
+      this.openConversation(frame.sender);
+    }
+    const session = this.sessions.get(frame.sender);
+    const accepted = session ? await session.receiveRelayedMessage(frame) : false;
+    if (frame.deliveryId === undefined) {
+      return;
+    }
+    if (accepted) {
+      this.sendFrame({ type: 'mailbox-ack', sender: this.publicKey, deliveryIds: [frame.deliveryId] });
     } else {
-      this.peerConnection.ondatachannel = (event) => {
-        console.log('Received data channel');
-        this.dataChannel = event.channel;
-        this.setupDataChannel();
-      };
+      log.debug('Holding mailbox message until its keys are available', { peer: frame.sender });
+      this.heldMessages.set(frame.deliveryId, frame);
     }
+  }
 
-    this.initializeEncryption();
+  private handleInitiate(peer: string) {
+    if (typeof peer !== 'string' || peer === this.publicKey) {
+      return;
+    }
+    const existing = this.sessions.get(peer);
+    if (existing) {
+      existing.handleInitiate();
+      return;
+    }
+    const session = this.createSession(peer, false);
+    this.emit('conversationOpened', { peer, initiator: false });
+    session.start();
   }
 
-  private setupDataChannel() {
-    if (!this.dataChannel) return;
+  private createSession(peer: string, isInitiator: boolean): PeerSession {
+    const session = new PeerSession(peer, {
+      localPublicKey: this.publicKey,
+      encryptionService: this.encryptionService,
+      sendSignal: frame => this.sendFrame(frame),
+      isRegistered: () => this.isRegistered,
+      getIceServers: () => [...this.config.iceServers, ...this.turnServers],
+      createPeerConnection: configuration => this.transports.createPeerConnection(configuration)
+    }, isInitiator);
+    FORWARDED_SESSION_EVENTS.forEach(eventName => {
+      session.on(eventName, payload => this.emit(eventName, payload));
+    });
+    // Retried messages the peer already delivered once are acknowledged but not shown again
+    session.on('message', message => {
+      if (this.chat.handleMessage(message.peer, message.id)) {
+        this.emit('message', message);
+        this.recordHistory({ ...message, conversationId: message.peer });
+      }
+    });
+    session.on('control', ({ peer, payload }) => {
+      if (FILE_CONTROL_TYPES.includes(payload.type)) {
+        this.files.handleControl(peer, payload);
+      } else if (CHAT_CONTROL_TYPES.includes(payload.type)) {
+        this.chat.handleControl(peer, payload);
+      } else if (CALL_CONTROL_TYPES.includes(payload.type)) {
+        this.calls.handleControl(peer, payload);
+      } else {
+        this.rooms.handleControl(peer, payload);
+      }
+    });
+    session.on('encryptionReady', () => {
+      this.contacts.checkIdentityKey(peer, session.getPeerIdentityKey());
+      this.files.handleSessionReady(peer);
+      this.chat.flush(peer);
+    });
+    session.on('dataChannelReady', () => this.chat.flush(peer));
+    session.on('remoteTrack', ({ track, streams }) => this.calls.handleRemoteTrack(peer, track, streams));
+    session.on('peerConnectionClosed', () => this.calls.handleConnectionLost(peer));
+    session.on('receivingKeysChanged', () => this.updateReceivingKeys(peer, session));
+    this.restoreSessionKeys(peer, session);
+    this.sessions.set(peer, session);
+    const pending = this.pendingControls.get(peer) ?? [];
+    this.pendingControls.delete(peer);
+    pending.forEach(payload => session.sendControl(payload));
+    return session;
+  }
 
-    this.dataChannel.onopen = () => {
-      console.log('Data channel is open');
-      this.emit('dataChannelReady');
-    };
+  private removeSession(peer: string, notifyPeer: boolean) {
+    const session = this.sessions.get(peer);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(peer);
+    this.chat.forgetPeer(peer);
+    session.close(notifyPeer);
+    this.files.cancelAll(peer, 'Conversation closed');
+    this.emit('conversationClosed', { peer });
+  }
 
-    this.dataChannel.onmessage = async (event) => {
-      console.log('Received message from data channel:', event.data);
-      try {
-        const parsedData = JSON.parse(event.data);
-        if (parsedData.type === 'encrypted-message') {
-          try {
-            const decryptedMessage = await this.decryptMessage(this.base64ToArrayBuffer(parsedData.message));
-            this.emit('message', JSON.parse(decryptedMessage));
-          } catch (decryptError) {
-            console.error('Failed to decrypt message:', decryptError);
-            this.emit('error', 'Failed to decrypt message');
-          }
-        }
-      } catch (parseError) {
-        console.error('Failed to parse message:', parseError);
-        this.emit('error', 'Failed to parse message');
-      }
-    };
+  openConversation(peer: string) {
+    if (peer === this.publicKey) {
+      this.emit('error', 'Cannot open a conversation with yourself');
+      return;
+    }
+    if (this.sessions.has(peer)) {
+      log.debug('Conversation already open', { peer });
+      return;
+    }
+    log.info('Opening conversation', { peer });
+    const session = this.createSession(peer, true);
+    this.emit('conversationOpened', { peer, initiator: true });
+    session.start();
+  }
 
-    this.dataChannel.onclose = () => {
-      console.log('Data channel is closed');
-      this.emit('dataChannelClosed');
-    };
+  closeConversation(peer: string) {
+    log.info('Closing conversation', { peer });
+    this.removeSession(peer, true);
+  }
 
-    this.dataChannel.onerror = (error) => {
-      console.error('Data channel error:', error);
-      this.emit('error', 'Data channel error');
-    };
+  getConversations(): ConversationSummary[] {
+    return Array.from(this.sessions.values()).map(session => ({
+      peer: session.peer,
+      initiator: session.initiator,
+      ready: session.isReady(),
+      state: session.state
+    }));
+  }
+
+  getConnectionState(peer: string): ConnectionState | null {
+    return this.sessions.get(peer)?.state ?? null;
   }
 
-  private async createOffer() {
-    console.log('Creating offer');
+  // Queues the message and returns its id at once; it goes out as soon as the peer's session
+  // can encrypt. 'messageStatus' events follow it through queued, sending, sent, delivered and
+  // read, or failed. Opens the conversation if needed.
+  async sendChatMessage(message: string, recipientPublicKey: string): Promise<{ id: string; timestamp: number } | null> {
+    if (!this.sessions.has(recipientPublicKey)) {
+      this.openConversation(recipientPublicKey);
+    }
+    let id: string;
     try {
-      if (!this.peerConnection) {
-        console.error('PeerConnection is not initialized');
-        return;
-      }
-      
-      const offer = await this.peerConnection.createOffer();
-      await this.peerConnection.setLocalDescription(offer);
-      
-      this.sendMessage(JSON.stringify({ 
-        type: 'offer', 
-        offer,
-        sender: this.publicKey,
-        recipient: this.recipientPublicKey
-      }));
+      id = this.chat.send(recipientPublicKey, message);
     } catch (error) {
-      console.error('Error creating offer:', error);
+      this.emit('error', `Failed to send message: ${error instanceof Error ? error.message : error}`);
+      return null;
     }
+    const sent = { id, timestamp: Date.now() };
+    this.recordHistory({ ...sent, conversationId: recipientPublicKey, sender: this.publicKey, text: message });
+    return sent;
   }
 
-  private async handleOffer(offer: RTCSessionDescriptionInit) {
-    console.log('Handling offer');
+  getMessageStatus(id: string): MessageStatus | undefined {
+    return this.chat.getStatus(id);
+  }
+
+  // Only failed messages can be retried; they keep their id
+  retryMessage(id: string): boolean {
+    return this.chat.retry(id);
+  }
+
+  // Sends a read receipt for everything received from the peer so far
+  markRead(peer: string) {
+    this.chat.markRead(peer);
+  }
+
+  notifyTyping(peer: string) {
+    this.chat.notifyTyping(peer);
+  }
+
+  stopTyping(peer: string) {
+    this.chat.stopTyping(peer);
+  }
+
+  // Chunks only flow while the data channel to the peer is open; interrupted transfers resume
+  // once the session is re-established
+  async sendFile(file: Blob, name: string, recipientPublicKey: string): Promise<FileDescription | null> {
+    if (!this.sessions.has(recipientPublicKey)) {
+      this.emit('error', 'No conversation is open with this recipient');
+      return null;
+    }
     try {
-      if (!this.peerConnection) {
-        console.error('PeerConnection is not initialized');
-        return;
-      }
-      await this.peerConnection.setRemoteDescription(new RTCSessionDescription(offer));
-      const answer = await this.peerConnection.createAnswer();
-      await this.peerConnection.setLocalDescription(answer);
-      this.sendMessage(JSON.stringify({ 
-        type: 'answer', 
-        answer,
-        sender: this.publicKey,
-        recipient: this.recipientPublicKey
-      }));
+      return await this.files.sendFile(recipientPublicKey, file, name);
     } catch (error) {
-      console.error('Error handling offer:', error);
+      log.error('Failed to send file', { error });
+      this.emit('error', `Failed to send file: ${error instanceof Error ? error.message : error}`);
+      return null;
     }
   }
 
-  private async handleAnswer(answer: RTCSessionDescriptionInit) {
-    console.log('Handling answer');
+  cancelFileTransfer(transferId: string) {
+    this.files.cancel(transferId);
+  }
+
+  // Calls ride on the conversation's peer connection, so it has to be connected first.
+  // 'callStateChanged' follows the call; 'localStream' and 'remoteStream' carry the media.
+  async startCall(peer: string, video: boolean): Promise<boolean> {
     try {
-      if (!this.peerConnection) {
-        console.error('PeerConnection is not initialized');
-        return;
-      }
-      await this.peerConnection.setRemoteDescription(new RTCSessionDescription(answer));
+      await this.calls.startCall(peer, video);
+      return true;
     } catch (error) {
-      console.error('Error handling answer:', error);
+      log.error('Failed to start call', { error });
+      this.emit('error', `Failed to start call: ${error instanceof Error ? error.message : error}`);
+      return false;
     }
   }
 
-  private async handleNewICECandidate(candidate: RTCIceCandidateInit) {
-    console.log('Handling ICE candidate');
+  async acceptCall(): Promise<boolean> {
     try {
-      if (!this.peerConnection) {
-        console.error('PeerConnection is not initialized');
-        return;
-      }
-      await this.peerConnection.addIceCandidate(new RTCIceCandidate(candidate));
-    } catch (e) {
-      console.error('Error adding received ice candidate', e);
+      await this.calls.acceptCall();
+      return true;
+    } catch (error) {
+      log.error('Failed to accept call', { error });
+      this.emit('error', `Failed to accept call: ${error instanceof Error ? error.message : error}`);
+      this.calls.declineCall();
+      return false;
     }
   }
 
-  private sendMessage(message: string) {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(message);
-      console.log('Message sent:', message);
-    } else {
-      console.log('WebSocket not ready, queueing message');
-      this.messageQueue.push(message);
-    }
+  declineCall() {
+    this.calls.declineCall();
   }
 
-  private sendQueuedMessages() {
-    while (this.messageQueue.length > 0) {
-      const message = this.messageQueue.shift();
-      if (message && this.ws) {
-        this.ws.send(message);
-        console.log('Queued message sent:', message);
-      }
+  hangUp() {
+    this.calls.hangUp();
+  }
+
+  getCall(): CallSummary | null {
+    return this.calls.getCall();
+  }
+
+  setCallMuted(muted: boolean) {
+    this.calls.setMuted(muted);
+  }
+
+  async setCameraEnabled(enabled: boolean) {
+    try {
+      await this.calls.setCameraEnabled(enabled);
+    } catch (error) {
+      log.error('Failed to switch camera', { error });
+      this.emit('error', `Failed to switch camera: ${error instanceof Error ? error.message : error}`);
     }
   }
 
-  private async initializeEncryption() {
-    if (this.encryptionSetupComplete) {
-      console.log('Encryption setup already complete, skipping');
-      return;
+  async startScreenShare() {
+    try {
+      await this.calls.startScreenShare();
+    } catch (error) {
+      log.error('Failed to share screen', { error });
+      this.emit('error', `Failed to share screen: ${error instanceof Error ? error.message : error}`);
     }
+  }
 
-    if (this.encryptionSetupInProgress) {
-      console.log('Encryption setup already in progress, skipping');
-      return;
+  stopScreenShare() {
+    this.calls.stopScreenShare();
+  }
+
+  async createRoom(members: string[]): Promise<RoomManifest | null> {
+    try {
+      return await this.rooms.createRoom(members);
+    } catch (error) {
+      log.error('Failed to create room', { error });
+      this.emit('error', `Failed to create room: ${error instanceof Error ? error.message : error}`);
+      return null;
     }
+  }
 
-    this.encryptionSetupInProgress = true;
+  async updateRoomMembers(roomId: string, members: string[]) {
+    try {
+      await this.rooms.updateMembers(roomId, members);
+    } catch (error) {
+      log.error('Failed to update room members', { error });
+      this.emit('error', `Failed to update room members: ${error instanceof Error ? error.message : error}`);
+    }
+  }
 
-    console.log('Initializing encryption');
+  acceptRoomInvite(roomId: string) {
     try {
-      const publicKeyBuffer = this.solanaKeypair.publicKey.toBytes();
-      console.log('Generated Ed25519 public key:', Buffer.from(publicKeyBuffer).toString('hex'));
-
-      console.log('Sending public key for ECDH');
-      this.sendMessage(JSON.stringify({ 
-        type: 'ecdh-public-key', 
-        key: Buffer.from(publicKeyBuffer).toString('base64'),
-        sender: this.publicKey,
-        recipient: this.recipientPublicKey
-      }));
+      this.rooms.acceptInvite(roomId);
     } catch (error) {
-      console.error('Error in initializeEncryption:', error);
-      if (error instanceof Error) {
-        console.error('Error message:', error.message);
-        console.error('Error stack:', error.stack);
-      }
-      this.emit('error', `Failed to initialize encryption: ${error}`);
-    } finally {
-      this.encryptionSetupInProgress = false;
+      this.emit('error', `Failed to join room: ${error instanceof Error ? error.message : error}`);
     }
   }
 
-  private async handleECDHPublicKey(peerPublicKeyBase64: string, senderPublicKey: string) {
-    console.log('Received peer ECDH public key from:', senderPublicKey);
-    if (senderPublicKey === this.recipientPublicKey && !this.encryptionSetupComplete) {
-      try {
-        const peerPublicKeyBuffer = Buffer.from(peerPublicKeyBase64, 'base64');
-        console.log('Peer public key:', peerPublicKeyBuffer.toString('hex'));
+  declineRoomInvite(roomId: string) {
+    this.rooms.declineInvite(roomId);
+  }
 
-        const sharedSecret = await this.deriveSharedSecret(peerPublicKeyBuffer);
-        console.log('Shared secret derived');
+  leaveRoom(roomId: string) {
+    this.rooms.leaveRoom(roomId);
+  }
 
-        await this.deriveEncryptionKey(sharedSecret);
-        console.log('Encryption key derived');
+  getRooms(): RoomSummary[] {
+    return this.rooms.getRooms();
+  }
 
-        this.encryptionSetupComplete = true;
-        console.log('Encryption setup complete, emitting encryptionReady event');
-        this.emit('encryptionReady');
+  getRoomInvites(): RoomManifest[] {
+    return this.rooms.getInvites();
+  }
 
-        // Send confirmation back to the other peer
-        this.sendMessage(JSON.stringify({
-          type: 'encryption-ready',
-          sender: this.publicKey,
-          recipient: this.recipientPublicKey
-        }));
-      } catch (error) {
-        console.error('Error in handleECDHPublicKey:', error);
-        if (error instanceof Error) {
-          console.error('Error message:', error.message);
-          console.error('Error stack:', error.stack);
-        }
-        this.emit('error', `Failed to setup encryption: ${error}`);
-      }
-    } else {
-      console.log('Received ECDH public key from non-recipient or encryption already set up, ignoring');
+  async sendGroupMessage(roomId: string, text: string) {
+    try {
+      const sent = await this.rooms.sendMessage(roomId, text);
+      this.recordHistory({ ...sent, conversationId: roomConversationId(roomId), sender: this.publicKey, text });
+      return sent;
+    } catch (error) {
+      log.error('Failed to send group message', { error });
+      this.emit('error', `Failed to send group message: ${error instanceof Error ? error.message : error}`);
+      return null;
     }
   }
 
-  private async deriveSharedSecret(peerPublicKey: Buffer): Promise<Uint8Array> {
-    console.log('Deriving shared secret');
+  // Asks the wallet for the signature the history key is derived from
+  async unlockHistory(): Promise<boolean> {
+    if (this.history) {
+      return true;
+    }
     try {
-      const privateKey = this.solanaKeypair.secretKey.slice(0, 32);
-      console.log('Private key length:', privateKey.length);
-      console.log('Peer public key length:', peerPublicKey.length);
-
-      if (privateKey.length !== 32 || peerPublicKey.length !== 32) {
-        throw new Error('Invalid key length');
+      const history = await HistoryStore.open(this.publicKey, this.signMessage, this.transports.indexedDB);
+      if (this.isClosed) {
+        history.close();
+        return false;
       }
+      this.history = history;
+      const pending = this.pendingHistory;
+      this.pendingHistory = [];
+      await history.addMessages(pending);
+      await this.restoreReceivingKeys();
+      await this.restoreOutbox();
+      this.emit('historyUnlocked');
+      return true;
+    } catch (error) {
+      log.error('Failed to unlock message history', { error });
+      this.emit('error', `Failed to unlock message history: ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
+  }
 
-      // Derive the shared secret using Ed25519
-      const sharedSecret = await ed25519.getSharedSecret(privateKey, peerPublicKey);
-      console.log('Shared secret derived, length:', sharedSecret.length);
-
-      // Hash the shared secret to get a 256-bit key
-      const hashedSecret = sha256(sharedSecret);
-      console.log('Shared secret hashed, length:', hashedSecret.length);
+  isHistoryUnlocked(): boolean {
+    return !!this.history;
+  }
 
-      return hashedSecret;
+  // Pages backwards from the cursor; pass the returned nextCursor to read older messages
+  async loadHistory(conversationId: string, cursor: HistoryCursor | null = null): Promise<HistoryPage | null> {
+    if (!this.history) {
+      return null;
+    }
+    try {
+      return await this.history.getMessages(conversationId, cursor);
     } catch (error) {
-      console.error('Error in deriveSharedSecret:', error);
-      if (error instanceof Error) {
-        console.error('Error message:', error.message);
-        console.error('Error stack:', error.stack);
-      }
-      throw new Error(`Failed to derive shared secret: ${error}`);
+      log.error('Failed to load message history', { error });
+      this.emit('error', 'Failed to load message history');
+      return null;
     }
   }
 
-  private async deriveEncryptionKey(sharedSecret: Uint8Array) {
-    console.log('Deriving encryption key');
+  async listHistoryConversations(): Promise<string[]> {
+    return this.history ? this.history.listConversations() : [];
+  }
+
+  async exportConversation(conversationId: string): Promise<Blob | null> {
+    if (!this.history) {
+      this.emit('error', 'Unlock the message history before exporting');
+      return null;
+    }
     try {
-      this.encryptionKey = await window.crypto.subtle.importKey(
-        'raw',
-        sharedSecret,
-        { name: 'AES-GCM', length: 256 },
-        false,
-        ['encrypt', 'decrypt']
-      );
-      console.log('Encryption key imported');
+      return await this.history.exportConversation(conversationId);
     } catch (error) {
-      console.error('Error in deriveEncryptionKey:', error);
-      if (error instanceof Error) {
-        console.error('Error message:', error.message);
-        console.error('Error stack:', error.stack);
-      }
-      throw new Error(`Failed to derive encryption key: ${error}`);
+      log.error('Failed to export conversation', { error });
+      this.emit('error', `Failed to export conversation: ${error instanceof Error ? error.message : error}`);
+      return null;
     }
   }
 
-  private async encryptMessage(message: string): Promise<ArrayBuffer> {
-    if (!this.encryptionKey) {
-      throw new Error("Encryption key not set");
+  async importHistory(archive: Blob): Promise<{ conversationId: string; imported: number } | null> {
+    if (!this.history) {
+      this.emit('error', 'Unlock the message history before importing');
+      return null;
     }
+    try {
+      return await this.history.importArchive(archive);
+    } catch (error) {
+      log.error('Failed to import history archive', { error });
+      this.emit('error', `Failed to import history: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
 
-    const encodedMessage = new TextEncoder().encode(message);
-    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  getContacts(): Contact[] {
+    return this.contacts.getContacts();
+  }
 
+  addContact(publicKey: string, nickname: string, approved: boolean = true): Contact | null {
     try {
-      const encryptedData = await window.crypto.subtle.encrypt(
-        { name: "AES-GCM", iv: iv },
-        this.encryptionKey,
-        encodedMessage
-      );
+      return this.contacts.addContact(publicKey, nickname, approved);
+    } catch (error) {
+      this.emit('error', `Failed to add contact: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
 
-      const result = new Uint8Array(iv.length + encryptedData.byteLength);
-      result.set(iv, 0);
-      result.set(new Uint8Array(encryptedData), iv.length);
+  renameContact(publicKey: string, nickname: string) {
+    this.contacts.renameContact(publicKey, nickname);
+  }
 
-      return result.buffer;
-    } catch (error) {
-      console.error('Encryption failed:', error);
-      throw new Error('Failed to encrypt message');
+  // Only approved contacts can see our presence
+  setContactApproved(publicKey: string, approved: boolean) {
+    this.contacts.setApproved(publicKey, approved);
+  }
+
+  removeContact(publicKey: string) {
+    this.contacts.removeContact(publicKey);
+  }
+
+  // Null until the conversation with the peer is secure
+  getSafetyNumber(peer: string): SafetyNumber | null {
+    const peerIdentityKey = this.sessions.get(peer)?.getPeerIdentityKey();
+    const identityKey = this.encryptionService.getIdentityKey();
+    if (!peerIdentityKey || !identityKey) {
+      return null;
     }
+    return computeSafetyNumber(
+      { wallet: this.publicKey, identityKey },
+      { wallet: peer, identityKey: peerIdentityKey }
+    );
   }
 
-  private async decryptMessage(encryptedData: ArrayBuffer): Promise<string> {
-    if (!this.encryptionKey) {
-      throw new Error("Encryption key not set");
+  // Call once the user has compared safety numbers with the contact out of band. Verifies the
+  // identity key of the current session, so the conversation has to be secure.
+  verifyContact(publicKey: string): boolean {
+    const peerIdentityKey = this.sessions.get(publicKey)?.getPeerIdentityKey();
+    if (!this.contacts.getContact(publicKey)) {
+      this.emit('error', 'Add the peer as a contact before verifying it');
+      return false;
+    }
+    if (!peerIdentityKey) {
+      this.emit('error', 'The conversation must be secure before the contact can be verified');
+      return false;
     }
+    this.contacts.setVerifiedKey(publicKey, peerIdentityKey);
+    return true;
+  }
 
-    const iv = encryptedData.slice(0, 12);
-    const data = encryptedData.slice(12);
+  clearContactVerification(publicKey: string) {
+    this.contacts.setVerifiedKey(publicKey, null);
+  }
 
-    try {
-      const decryptedData = await window.crypto.subtle.decrypt(
-        { name: "AES-GCM", iv: iv },
-        this.encryptionKey,
-        data
-      );
-      return new TextDecoder().decode(decryptedData);
-    } catch (error) {
-      console.error('Decryption failed:', error);
-      throw new Error('Failed to decrypt message');
-    }
+  setPresenceStatus(status: Exclude<PresenceStatus, 'offline'>) {
+    this.contacts.setStatus(status);
   }
 
-  private async handleEncryptedMessage(encryptedMessage: string) {
-    try {
-      const decryptedMessage = await this.decryptMessage(this.base64ToArrayBuffer(encryptedMessage));
-      this.emit('message', JSON.parse(decryptedMessage));
-    } catch (error) {
-      console.error('Failed to handle encrypted message:', error);
-      this.emit('error', 'Failed to handle encrypted message');
+  private outboxStorageKey(): string {
+    return `anrox:outbox:${this.publicKey}`;
+  }
+
+  // The outbox is sealed with the history key, so it is only written once history is unlocked;
+  // until then queued messages live in memory
+  private persistOutbox(messages: QueuedMessage[]) {
+    const history = this.history;
+    const storage = this.storage;
+    if (!history || !storage) {
+      return;
     }
+    const snapshot = JSON.stringify(messages);
+    this.outboxWrite = this.outboxWrite
+      .then(async () => storage.setItem(this.outboxStorageKey(), await history.seal('outbox', snapshot)))
+      .catch(error => log.error('Failed to persist the outbox', { error }));
   }
 
-  async sendChatMessage(message: string, recipientPublicKey: string) {
-    if (this.dataChannel && this.dataChannel.readyState === 'open' && this.encryptionKey) {
+  private async restoreOutbox() {
+    const sealed = this.storage?.getItem(this.outboxStorageKey());
+    let messages: QueuedMessage[] = [];
+    if (sealed && this.history) {
       try {
-        const encryptedMessage = await this.encryptMessage(JSON.stringify({ 
-          text: message, 
-          sender: this.publicKey,
-          recipient: recipientPublicKey
-        }));
-        const base64Message = this.arrayBufferToBase64(encryptedMessage);
-        this.dataChannel.send(JSON.stringify({ type: 'encrypted-message', message: base64Message }));
-        console.log('Encrypted message sent successfully');
+        messages = JSON.parse(await this.history.unseal('outbox', sealed));
       } catch (error) {
-        console.error('Failed to send encrypted message:', error);
-        this.emit('error', 'Failed to send encrypted message');
+        log.error('Discarding unreadable outbox', { error });
       }
-    } else {
-      console.error('Data channel is not open or encryption is not ready');
-      this.emit('error', 'Data channel is not open or encryption is not ready');
     }
+    this.chat.restoreQueue(messages).forEach(peer => {
+      if (this.sessions.has(peer)) {
+        this.chat.flush(peer);
+      } else {
+        this.openConversation(peer);
+      }
+    });
   }
 
-  private arrayBufferToBase64(buffer: ArrayBuffer): string {
-    const binary = String.fromCharCode.apply(null, new Uint8Array(buffer) as any);
-    return window.btoa(binary);
+  private receivingKeysStorageKey(): string {
+    return `anrox:receiving-keys:${this.publicKey}`;
   }
 
-  private base64ToArrayBuffer(base64: string): ArrayBuffer {
-    const binaryString = window.atob(base64);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
+  private updateReceivingKeys(peer: string, session: PeerSession) {
+    const keys = session.exportReceivingKeys();
+    if (keys) {
+      this.receivingKeys.set(peer, { keys, updatedAt: Date.now() });
+      this.persistReceivingKeys();
     }
-    return bytes.buffer;
   }
 
-  setRecipientPublicKey(publicKey: string) {
-    console.log('Setting recipient public key:', publicKey);
-    this.recipientPublicKey = publicKey;
-    this.isInitiator = true;
-    this.encryptionSetupComplete = false; // Reset encryption setup
-    this.initiatePeerConnection();
-    this.initializeEncryption(); // Start the encryption setup process
+  // Nothing the server still holds can be older than its mailbox TTL, so neither are the keys kept for it
+  private pruneReceivingKeys() {
+    const cutoff = Date.now() - MAILBOX_TTL_MS;
+    this.receivingKeys.forEach((stored, peer) => {
+      if (stored.updatedAt < cutoff) {
+        this.receivingKeys.delete(peer);
+      }
+    });
   }
 
-  private initiatePeerConnection() {
-    if (!this.recipientPublicKey) {
-      console.error('Recipient public key not set');
+  private persistReceivingKeys() {
+    const history = this.history;
+    const storage = this.storage;
+    if (!history || !storage) {
       return;
     }
+    this.pruneReceivingKeys();
+    const snapshot = JSON.stringify(Array.from(this.receivingKeys.entries()));
+    this.receivingKeysWrite = this.receivingKeysWrite
+      .then(async () => storage.setItem(this.receivingKeysStorageKey(), await history.seal('receiving-keys', snapshot)))
+      .catch(error => log.error('Failed to persist receiving keys', { error }));
+  }
 
-    this.initializePeerConnection();
-    this.sendMessage(JSON.stringify({
-      type: 'initiate',
-      sender: this.publicKey,
-      recipient: this.recipientPublicKey
-    }));
+  // Keys already in memory are newer than stored ones. Held mailbox messages are retried afterwards.
+  private async restoreReceivingKeys() {
+    const sealed = this.storage?.getItem(this.receivingKeysStorageKey());
+    if (sealed && this.history) {
+      try {
+        const stored: [string, StoredReceivingKeys][] = JSON.parse(await this.history.unseal('receiving-keys', sealed));
+        stored
+          .filter(([peer]) => !this.receivingKeys.has(peer))
+          .forEach(([peer, keys]) => this.receivingKeys.set(peer, keys));
+      } catch (error) {
+        log.error('Discarding unreadable receiving keys', { error });
+      }
+    }
+    this.pruneReceivingKeys();
+    this.sessions.forEach((session, peer) => this.restoreSessionKeys(peer, session));
+    this.persistReceivingKeys();
+
+    const held = Array.from(this.heldMessages.values());
+    this.heldMessages.clear();
+    await Promise.all(held.map(frame => this.handleRelayedMessage(frame)));
+  }
+
+  private restoreSessionKeys(peer: string, session: PeerSession) {
+    const stored = this.receivingKeys.get(peer);
+    if (!stored) {
+      return;
+    }
+    try {
+      session.restoreReceivingKeys(stored.keys);
+    } catch (error) {
+      log.error('Discarding unusable receiving keys', { peer, error });
+      this.receivingKeys.delete(peer);
+    }
+  }
+
+  private recordHistory(message: HistoryMessage) {
+    if (!this.history) {
+      this.pendingHistory.push(message);
+      return;
+    }
+    this.history.addMessage(message).catch(error => {
+      log.error('Failed to store message in history', { error });
+    });
+  }
+
+  private async sendControl(peer: string, payload: SessionPayload) {
+    const session = this.sessions.get(peer);
+    if (session) {
+      await session.sendControl(payload);
+      return;
+    }
+    const pending = this.pendingControls.get(peer) ?? [];
+    pending.push(payload);
+    this.pendingControls.set(peer, pending);
+  }
+
+  private sendFrame(frame: ClientFrame) {
+    const message = encodeFrame(frame);
+    if (this.ws && this.ws.readyState === SOCKET_OPEN && this.isRegistered) {
+      this.ws.send(message);
+      log.debug('Sent frame', { frame });
+    } else {
+      log.debug('WebSocket not ready, queueing message');
+      this.messageQueue.push(message);
+    }
   }
 
+  private sendQueuedMessages() {
+    while (this.messageQueue.length > 0) {
+      const message = this.messageQueue.shift();
+      if (message && this.ws) {
+        this.ws.send(message);
+        log.debug('Sent queued frame');
+      }
+    }
+  }
+
+  // Registration bypasses the queue: the server rejects every other frame until it has completed.
+  // A resume token from the last registration spares the wallet another challenge signature.
   private registerWithServer() {
-    this.sendMessage(JSON.stringify({
+    if (!this.ws || this.ws.readyState !== SOCKET_OPEN) {
+      log.error('WebSocket is not open, cannot register');
+      return;
+    }
+    this.ws.send(encodeFrame({
       type: 'register',
-      publicKey: this.publicKey
+      publicKey: this.publicKey,
+      ...(this.resumeToken ? { resumeToken: this.resumeToken } : {})
     }));
+    this.resumeToken = null;
+  }
+
+  private async handleChallenge(nonce: string) {
+    try {
+      const message = new TextEncoder().encode(buildAuthenticationMessage(this.publicKey, nonce));
+      const signature = await this.signMessage(message);
+      if (!this.ws || this.ws.readyState !== SOCKET_OPEN) {
+        log.error('WebSocket closed while signing challenge');
+        return;
+      }
+      this.ws.send(encodeFrame({
+        type: 'authenticate',
+        publicKey: this.publicKey,
+        signature: Buffer.from(signature).toString('base64')
+      }));
+    } catch (error) {
+      log.error('Failed to sign authentication challenge', { error });
+      this.emit('error', 'Failed to sign the server authentication challenge');
+    }
   }
 
   cleanup() {
+    this.isClosed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.sessions.forEach(session => session.close(false));
+    this.sessions.clear();
+    this.pendingControls.clear();
+    this.heldMessages.clear();
+    this.receivingKeys.clear();
+    this.rooms.cleanup();
+    this.files.cleanup();
+    this.contacts.cleanup();
+    this.chat.cleanup();
+    this.calls.cleanup();
+    this.history?.close();
+    this.history = null;
+    this.pendingHistory = [];
     if (this.ws) {
       this.ws.close();
     }
-    if (this.peerConnection) {
-      this.peerConnection.close();
-    }
-    if (this.dataChannel) {
-      this.dataChannel.close();
-    }
   }
 }
 
-export default ConnectionManager;
\ No newline at end of file
+export default ConnectionManager;
@@ -0,0 +1,146 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import ConnectionStateMachine, { ConnectionState, IllegalTransitionError, PHASE_TIMEOUTS, StateChange } from './ConnectionStateMachine';
+
+// Every phase that times out, each given a few milliseconds
+const SHORT_TIMEOUTS = Object.fromEntries(Object.keys(PHASE_TIMEOUTS).map(state => [state, 5]));
+
+function machine(timeouts: Partial<Record<ConnectionState, number>> = {}) {
+  const connection = new ConnectionStateMachine('initiator', timeouts);
+  const changes: StateChange[] = [];
+  connection.on('stateChange', change => changes.push(change));
+  return { connection, changes };
+}
+
+const timedOut = (connection: ConnectionStateMachine) =>
+  new Promise<ConnectionState>(resolve => connection.once('timeout', resolve));
+
+describe('ConnectionStateMachine', () => {
+  test('runs a new connection through to secure and reports each move', () => {
+    const { connection, changes } = machine();
+    connection.transition('signaling', 'Initiated');
+    connection.transition('negotiating', 'Descriptions exchanged');
+    connection.transition('key-exchange', 'Data channel open');
+    connection.setKeyExchange('creating-keys');
+    connection.setKeyExchange('keys-sent');
+    connection.setKeyExchange('confirming');
+    connection.setKeyExchange('confirmed');
+    connection.transition('secure', 'Keys confirmed');
+    assert.equal(connection.state, 'secure');
+    assert.deepEqual(changes.map(({ to }) => to), ['signaling', 'negotiating', 'key-exchange', 'secure']);
+    assert.deepEqual(changes[0], { from: 'idle', to: 'signaling', reason: 'Initiated' });
+  });
+
+  test('staying in a state is not a change', () => {
+    const { connection, changes } = machine();
+    assert.equal(connection.transition('signaling', 'Initiated'), true);
+    assert.equal(connection.transition('signaling', 'Initiated again'), false);
+    assert.equal(changes.length, 1);
+  });
+
+  test('rejects transitions the table does not allow', () => {
+    const { connection, changes } = machine();
+    for (const to of ['negotiating', 'key-exchange', 'reconnecting'] as ConnectionState[]) {
+      assert.equal(connection.canTransition(to), false);
+      assert.throws(() => connection.transition(to, 'Skipped'), (error: unknown) =>
+        error instanceof IllegalTransitionError && error.from === 'idle' && error.to === to);
+    }
+    connection.transition('signaling', 'Initiated');
+    connection.transition('key-exchange', 'Data channel open');
+    assert.throws(() => connection.transition('negotiating', 'Backwards'), IllegalTransitionError);
+    assert.equal(connection.state, 'key-exchange');
+    assert.equal(changes.length, 2);
+  });
+
+  test('is not secure before the keys are confirmed', () => {
+    const { connection } = machine();
+    connection.transition('signaling', 'Initiated');
+    connection.transition('key-exchange', 'Data channel open');
+    connection.setKeyExchange('creating-keys');
+    connection.setKeyExchange('keys-sent');
+    connection.setKeyExchange('confirming');
+    assert.equal(connection.canTransition('secure'), false);
+    assert.throws(() => connection.transition('secure', 'Keys confirmed'), IllegalTransitionError);
+  });
+
+  test('closed is final', () => {
+    const { connection } = machine();
+    connection.transition('signaling', 'Initiated');
+    connection.transition('closed', 'Conversation closed');
+    for (const to of ['idle', 'signaling', 'reconnecting'] as ConnectionState[]) {
+      assert.throws(() => connection.transition(to, 'Reopened'), IllegalTransitionError);
+    }
+    assert.equal(connection.state, 'closed');
+  });
+
+  test('the initiator may yield, but a responder never takes the role', () => {
+    const { connection } = machine();
+    connection.setRole('responder');
+    assert.equal(connection.role, 'responder');
+    assert.throws(() => connection.setRole('initiator'), IllegalTransitionError);
+  });
+
+  test('key exchange phases only move forwards or start over', () => {
+    const { connection } = machine();
+    assert.throws(() => connection.setKeyExchange('confirmed'), IllegalTransitionError);
+    assert.throws(() => connection.setKeyExchange('keys-sent'), IllegalTransitionError);
+    connection.setKeyExchange('creating-keys');
+    connection.setKeyExchange('keys-sent');
+    assert.throws(() => connection.setKeyExchange('creating-keys'), IllegalTransitionError);
+    assert.throws(() => connection.setKeyExchange('confirmed'), IllegalTransitionError);
+    connection.setKeyExchange('none');
+    assert.equal(connection.keyExchange, 'none');
+  });
+
+  test('a pending renegotiation survives the offer being made', () => {
+    const { connection } = machine();
+    assert.throws(() => connection.setOffer('making-then-pending'), IllegalTransitionError);
+    connection.setOffer('making');
+    connection.setOffer('making-then-pending');
+    assert.throws(() => connection.setOffer('making'), IllegalTransitionError);
+    connection.setOffer('pending');
+    assert.throws(() => connection.setOffer('making'), IllegalTransitionError);
+    connection.setOffer('none');
+    assert.equal(connection.offer, 'none');
+  });
+
+  describe('phase timeouts', () => {
+    const reach: Record<string, ConnectionState[]> = {
+      'signaling': ['signaling'],
+      'negotiating': ['signaling', 'negotiating'],
+      'key-exchange': ['signaling', 'key-exchange'],
+      'reconnecting': ['signaling', 'reconnecting']
+    };
+
+    for (const [state, path] of Object.entries(reach)) {
+      test(`${state} times out`, async () => {
+        const { connection } = machine(SHORT_TIMEOUTS);
+        const timeout = timedOut(connection);
+        path.forEach(to => connection.transition(to, 'Test'));
+        assert.equal(await timeout, state);
+        connection.transition('closed', 'Done');
+      });
+    }
+
+    test('every phase with a timeout is covered', () => {
+      assert.deepEqual(Object.keys(reach).sort(), Object.keys(PHASE_TIMEOUTS).sort());
+    });
+
+    test('leaving a phase cancels its timeout, and secure and closed never time out', async () => {
+      const { connection } = machine(SHORT_TIMEOUTS);
+      let timeouts = 0;
+      connection.on('timeout', () => timeouts++);
+      connection.transition('signaling', 'Initiated');
+      connection.transition('key-exchange', 'Data channel open');
+      connection.setKeyExchange('creating-keys');
+      connection.setKeyExchange('keys-sent');
+      connection.setKeyExchange('confirming');
+      connection.setKeyExchange('confirmed');
+      connection.transition('secure', 'Keys confirmed');
+      await new Promise(resolve => setTimeout(resolve, 20));
+      connection.transition('closed', 'Done');
+      await new Promise(resolve => setTimeout(resolve, 20));
+      assert.equal(timeouts, 0);
+    });
+  });
+});
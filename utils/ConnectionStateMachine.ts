@@ -0,0 +1,203 @@
+import { EventEmitter } from 'events';
+
+// The lifecycle of one conversation's connection. A new conversation runs
+// idle → signaling → negotiating → key-exchange → secure; reconnecting covers a dropped
+// connection being recovered, and closed is final.
+//   signaling     the initiate and the first offer/answer are on their way through the server
+//   negotiating   descriptions are exchanged; ICE and DTLS are bringing the data channel up
+//   key-exchange  the data channel is open, the handshake or key confirmation is still missing
+//   secure        the data channel is open and both sides have confirmed the session keys
+export type ConnectionState =
+  | 'idle'
+  | 'signaling'
+  | 'negotiating'
+  | 'key-exchange'
+  | 'secure'
+  | 'reconnecting'
+  | 'closed';
+
+export const CONNECTION_STATES: ConnectionState[] = [
+  'idle',
+  'signaling',
+  'negotiating',
+  'key-exchange',
+  'secure',
+  'reconnecting',
+  'closed'
+];
+
+// Where each state may go next. Every live state may start over with signaling (the peer
+// re-initiated) or fall back to idle (the handshake was aborted). Progress is only ever
+// forwards, but it may skip phases: an answer can be applied after the data channel it
+// negotiated has opened, and the key confirmation can land before the channel opens.
+const TRANSITIONS: Record<ConnectionState, ConnectionState[]> = {
+  'idle': ['signaling', 'closed'],
+  'signaling': ['negotiating', 'key-exchange', 'secure', 'reconnecting', 'idle', 'closed'],
+  'negotiating': ['signaling', 'key-exchange', 'secure', 'reconnecting', 'idle', 'closed'],
+  'key-exchange': ['signaling', 'secure', 'reconnecting', 'idle', 'closed'],
+  'secure': ['signaling', 'reconnecting', 'idle', 'closed'],
+  'reconnecting': ['signaling', 'negotiating', 'key-exchange', 'secure', 'idle', 'closed'],
+  'closed': []
+};
+
+// Which side started the connection. The initiator makes the first offer and restarts a
+// stalled connection. It yields when both sides initiate at once, and the role never comes back.
+export type Role = 'initiator' | 'responder';
+
+// The wallet-signed key exchange runs alongside the connection and outlives its data channel.
+//   creating-keys  our handshake keys are being created, and the wallet may be prompting
+//   keys-sent      our handshake is with the peer; the session is built once theirs arrives
+//   confirming     the session exists; the peer's key confirmation is still missing
+//   confirmed      both sides have confirmed the session keys, so messages can be encrypted
+export type KeyExchangePhase = 'none' | 'creating-keys' | 'keys-sent' | 'confirming' | 'confirmed';
+
+// This side's own offer. A renegotiation asked for while another exchange is under way stays
+// pending until the connection is stable again, even while an offer is being made.
+export type OfferPhase = 'none' | 'making' | 'pending' | 'making-then-pending';
+
+const ROLE_TRANSITIONS: Record<Role, Role[]> = {
+  'initiator': ['responder'],
+  'responder': []
+};
+
+// Any phase may drop back to none: a session that is reset or aborted starts its keys over
+const KEY_EXCHANGE_TRANSITIONS: Record<KeyExchangePhase, KeyExchangePhase[]> = {
+  'none': ['creating-keys'],
+  'creating-keys': ['keys-sent', 'none'],
+  'keys-sent': ['confirming', 'none'],
+  'confirming': ['confirmed', 'none'],
+  'confirmed': ['none']
+};
+
+// Any phase may drop back to none when the peer connection is torn down
+const OFFER_TRANSITIONS: Record<OfferPhase, OfferPhase[]> = {
+  'none': ['making', 'pending'],
+  'making': ['making-then-pending', 'none'],
+  'pending': ['making-then-pending', 'none'],
+  'making-then-pending': ['pending', 'none']
+};
+
+// How long each phase may take before it is given up on. Idle and secure last as long as
+// they need to. Key exchange allows for the wallet prompting the user to sign.
+export const PHASE_TIMEOUTS: Partial<Record<ConnectionState, number>> = {
+  'signaling': 30 * 1000,
+  'negotiating': 30 * 1000,
+  'key-exchange': 60 * 1000,
+  'reconnecting': 60 * 1000
+};
+
+export interface StateChange {
+  from: ConnectionState;
+  to: ConnectionState;
+  reason: string;
+}
+
+export class IllegalTransitionError extends Error {
+  readonly from: string;
+  readonly to: string;
+
+  constructor(from: string, to: string) {
+    super(`Cannot go from ${from} to ${to}`);
+    this.name = 'IllegalTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+// Holds the current state along with the role, key exchange and offer phases, refuses
+// transitions their tables do not allow and times out phases that stall. Emits 'stateChange'
+// with a StateChange and 'timeout' with the state that ran out of time.
+class ConnectionStateMachine extends EventEmitter {
+  private current: ConnectionState = 'idle';
+  private currentRole: Role;
+  private keyExchangePhase: KeyExchangePhase = 'none';
+  private offerPhase: OfferPhase = 'none';
+  private timeouts: Partial<Record<ConnectionState, number>>;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(role: Role, timeouts: Partial<Record<ConnectionState, number>> = PHASE_TIMEOUTS) {
+    super();
+    this.currentRole = role;
+    this.timeouts = timeouts;
+  }
+
+  get state(): ConnectionState {
+    return this.current;
+  }
+
+  get role(): Role {
+    return this.currentRole;
+  }
+
+  get keyExchange(): KeyExchangePhase {
+    return this.keyExchangePhase;
+  }
+
+  get offer(): OfferPhase {
+    return this.offerPhase;
+  }
+
+  // Nothing is secure until both sides have confirmed the session keys
+  canTransition(to: ConnectionState): boolean {
+    if (to === 'secure' && this.keyExchangePhase !== 'confirmed') {
+      return false;
+    }
+    return to === this.current || TRANSITIONS[this.current].includes(to);
+  }
+
+  // Returns false when already in `to`, which only restarts that phase's timeout.
+  // Throws IllegalTransitionError for a transition the table does not allow.
+  transition(to: ConnectionState, reason: string): boolean {
+    if (!this.canTransition(to)) {
+      throw new IllegalTransitionError(this.current, to);
+    }
+    this.startTimer(to);
+    if (to === this.current) {
+      return false;
+    }
+    const change: StateChange = { from: this.current, to, reason };
+    this.current = to;
+    this.emit('stateChange', change);
+    return true;
+  }
+
+  // The setters below throw IllegalTransitionError for a move their table does not allow;
+  // staying in the same phase is always allowed
+  setRole(role: Role) {
+    checkTransition(ROLE_TRANSITIONS, this.currentRole, role);
+    this.currentRole = role;
+  }
+
+  setKeyExchange(phase: KeyExchangePhase) {
+    checkTransition(KEY_EXCHANGE_TRANSITIONS, this.keyExchangePhase, phase);
+    this.keyExchangePhase = phase;
+  }
+
+  setOffer(phase: OfferPhase) {
+    checkTransition(OFFER_TRANSITIONS, this.offerPhase, phase);
+    this.offerPhase = phase;
+  }
+
+  private startTimer(state: ConnectionState) {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const timeout = this.timeouts[state];
+    if (timeout === undefined) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.emit('timeout', state);
+    }, timeout);
+  }
+}
+
+function checkTransition<T extends string>(table: Record<T, T[]>, from: T, to: T) {
+  if (to !== from && !table[from].includes(to)) {
+    throw new IllegalTransitionError(from, to);
+  }
+}
+
+export default ConnectionStateMachine;
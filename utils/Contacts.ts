@@ -0,0 +1,204 @@
+import { EventEmitter } from 'events';
+import { PublicKey } from '@solana/web3.js';
+import { ClientFrame, MAX_PRESENCE_CONTACTS, PresenceFrame, PresenceStatus } from '../shared/protocol';
+import { createLogger } from '../shared/logger';
+
+const log = createLogger('Contacts');
+
+export type { PresenceStatus } from '../shared/protocol';
+
+export interface Contact {
+  publicKey: string;
+  nickname: string;
+  // Whether this contact may see our presence
+  approved: boolean;
+  status: PresenceStatus;
+  lastSeen: number | null;
+  // The identity key whose safety number the user compared, or null if never verified
+  verifiedKey: string | null;
+  // Set when a session with a verified contact uses a different identity key. It stays set
+  // until the user verifies again or clears the verification.
+  keyChanged: boolean;
+}
+
+// What the contacts store needs from the ConnectionManager that owns it
+export interface ContactsContext {
+  localPublicKey: string;
+  sendSignal(frame: ClientFrame): void;
+  // Where the contact list is persisted; null keeps it in memory only
+  storage: Storage | null;
+}
+
+type StoredContact = Omit<Contact, 'status'>;
+
+// The local address book. Nicknames never leave the device; the server only learns which
+// keys we follow and which keys may follow us.
+class Contacts extends EventEmitter {
+  private context: ContactsContext;
+  private contacts = new Map<string, Contact>();
+  private status: Exclude<PresenceStatus, 'offline'> = 'online';
+
+  constructor(context: ContactsContext) {
+    super();
+    this.context = context;
+    this.load();
+  }
+
+  getContacts(): Contact[] {
+    return Array.from(this.contacts.values());
+  }
+
+  getContact(publicKey: string): Contact | undefined {
+    return this.contacts.get(publicKey);
+  }
+
+  addContact(publicKey: string, nickname: string, approved: boolean = true): Contact {
+    try {
+      new PublicKey(publicKey);
+    } catch {
+      throw new Error('Not a valid wallet address');
+    }
+    if (publicKey === this.context.localPublicKey) {
+      throw new Error('Cannot add yourself as a contact');
+    }
+    if (!this.contacts.has(publicKey) && this.contacts.size >= MAX_PRESENCE_CONTACTS) {
+      throw new Error(`At most ${MAX_PRESENCE_CONTACTS} contacts are supported`);
+    }
+    const existing = this.contacts.get(publicKey);
+    const contact: Contact = existing
+      ? { ...existing, nickname, approved }
+      : { publicKey, nickname, approved, status: 'offline', lastSeen: null, verifiedKey: null, keyChanged: false };
+    this.contacts.set(publicKey, contact);
+    this.changed(contact);
+    this.sync();
+    return contact;
+  }
+
+  renameContact(publicKey: string, nickname: string) {
+    const contact = this.contacts.get(publicKey);
+    if (contact) {
+      this.changed({ ...contact, nickname });
+    }
+  }
+
+  setApproved(publicKey: string, approved: boolean) {
+    const contact = this.contacts.get(publicKey);
+    if (contact && contact.approved !== approved) {
+      this.changed({ ...contact, approved });
+      this.sendApprovals();
+    }
+  }
+
+  // Pass the peer's current identity key to mark it verified, or null to clear the verification
+  setVerifiedKey(publicKey: string, identityKey: string | null) {
+    const contact = this.contacts.get(publicKey);
+    if (contact) {
+      this.changed({ ...contact, verifiedKey: identityKey, keyChanged: false });
+    }
+  }
+
+  // Called with the peer's identity key whenever a session with it is established
+  checkIdentityKey(publicKey: string, identityKey: string) {
+    const contact = this.contacts.get(publicKey);
+    if (!contact || !contact.verifiedKey || contact.verifiedKey === identityKey || contact.keyChanged) {
+      return;
+    }
+    log.warn('Identity key of a verified contact changed', { publicKey });
+    this.changed({ ...contact, keyChanged: true });
+    this.emit('identityKeyChanged', { publicKey });
+  }
+
+  removeContact(publicKey: string) {
+    if (!this.contacts.delete(publicKey)) {
+      return;
+    }
+    this.save();
+    this.emit('contactRemoved', { publicKey });
+    this.sync();
+  }
+
+  setStatus(status: Exclude<PresenceStatus, 'offline'>) {
+    if (this.status === status) {
+      return;
+    }
+    this.status = status;
+    this.context.sendSignal({ type: 'presence-update', sender: this.context.localPublicKey, status });
+  }
+
+  // The server forgets subscriptions when the socket drops, so send everything again after
+  // each registration
+  sync() {
+    this.sendApprovals();
+    this.context.sendSignal({
+      type: 'presence-subscribe',
+      sender: this.context.localPublicKey,
+      contacts: Array.from(this.contacts.keys())
+    });
+    if (this.status !== 'online') {
+      this.context.sendSignal({ type: 'presence-update', sender: this.context.localPublicKey, status: this.status });
+    }
+  }
+
+  handlePresence(frame: PresenceFrame) {
+    const contact = this.contacts.get(frame.contact);
+    if (!contact) {
+      return;
+    }
+    // A contact who revokes our approval reports no last-seen time; keep the one we had
+    this.changed({ ...contact, status: frame.status, lastSeen: frame.lastSeen ?? contact.lastSeen });
+  }
+
+  // Contacts are shown offline until the server says otherwise
+  markAllOffline() {
+    this.contacts.forEach(contact => {
+      if (contact.status !== 'offline') {
+        this.changed({ ...contact, status: 'offline' });
+      }
+    });
+  }
+
+  cleanup() {
+    this.contacts.clear();
+    this.removeAllListeners();
+  }
+
+  private sendApprovals() {
+    this.context.sendSignal({
+      type: 'presence-approve',
+      sender: this.context.localPublicKey,
+      contacts: this.getContacts().filter(contact => contact.approved).map(contact => contact.publicKey)
+    });
+  }
+
+  private changed(contact: Contact) {
+    this.contacts.set(contact.publicKey, contact);
+    this.save();
+    this.emit('contactUpdated', contact);
+  }
+
+  private storageKey(): string {
+    return `anrox:contacts:${this.context.localPublicKey}`;
+  }
+
+  private load() {
+    const stored = this.context.storage?.getItem(this.storageKey());
+    if (!stored) {
+      return;
+    }
+    try {
+      (JSON.parse(stored) as StoredContact[]).forEach(contact => {
+        // Contacts saved before verification existed have no verification fields
+        this.contacts.set(contact.publicKey, { verifiedKey: null, keyChanged: false, ...contact, status: 'offline' });
+      });
+    } catch (error) {
+      log.error('Ignoring unreadable contact list', { error });
+    }
+  }
+
+  private save() {
+    const stored: StoredContact[] = this.getContacts().map(({ status, ...contact }) => contact);
+    this.context.storage?.setItem(this.storageKey(), JSON.stringify(stored));
+  }
+}
+
+export default Contacts;
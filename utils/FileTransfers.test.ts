@@ -0,0 +1,87 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from '@noble/hashes/utils';
+import FileTransfers, { FILE_CHUNK_SIZE, safeMimeType } from './FileTransfers';
+import type PeerSession from './PeerSession';
+import type { SessionPayload } from './PeerSession';
+
+// Two FileTransfers wired back to back; control payloads and chunks are delivered in order
+function link() {
+  const sides: { alice?: FileTransfers; bob?: FileTransfers } = {};
+  const chunks: SessionPayload[] = [];
+  const deliver = (to: 'alice' | 'bob', payload: SessionPayload) =>
+    sides[to]!.handleControl(to === 'alice' ? 'bob' : 'alice', payload);
+  const endpoint = (to: 'alice' | 'bob') => new FileTransfers({
+    getSession: () => ({
+      waitForBufferDrain: async () => true,
+      sendDirect: async (payload: SessionPayload) => {
+        chunks.push(payload);
+        deliver(to, payload);
+        return true;
+      }
+    }) as unknown as PeerSession,
+    sendControl: async (_peer, payload) => deliver(to, payload)
+  });
+  sides.alice = endpoint('bob');
+  sides.bob = endpoint('alice');
+  return { alice: sides.alice, bob: sides.bob, chunks };
+}
+
+describe('safeMimeType', () => {
+  test('keeps raster image types', () => {
+    assert.equal(safeMimeType('image/png'), 'image/png');
+    assert.equal(safeMimeType(' Image/JPEG '), 'image/jpeg');
+  });
+
+  test('turns anything else into application/octet-stream', () => {
+    ['image/svg+xml', 'text/html', 'application/javascript', 'application/xhtml+xml', '', 'image/png; charset=x']
+      .forEach(type => assert.equal(safeMimeType(type), 'application/octet-stream'));
+  });
+});
+
+describe('FileTransfers', () => {
+  test('transfers a file as raw chunk bytes', async () => {
+    const { alice, bob, chunks } = link();
+    const data = randomBytes(FILE_CHUNK_SIZE * 2 + 100);
+    const received = new Promise<{ blob: Blob; mimeType: string }>(resolve => bob.once('fileReceived', resolve));
+    const sent = new Promise(resolve => alice.once('fileSent', resolve));
+    await alice.sendFile('bob', new Blob([data], { type: 'image/png' }), 'photo.png');
+
+    const { blob, mimeType } = await received;
+    await sent;
+    assert.equal(mimeType, 'image/png');
+    assert.deepEqual(new Uint8Array(await blob.arrayBuffer()), data);
+    assert.equal(chunks.length, 3);
+    chunks.forEach(chunk => assert.ok(chunk.data instanceof Uint8Array));
+  });
+
+  test('receives files of other types as application/octet-stream', async () => {
+    const { alice, bob } = link();
+    const offered = new Promise<{ mimeType: string }>(resolve => bob.once('fileOffered', resolve));
+    const received = new Promise<{ blob: Blob }>(resolve => bob.once('fileReceived', resolve));
+    await alice.sendFile('bob', new Blob(['<svg onload="alert(1)"/>'], { type: 'image/svg+xml' }), 'x.svg');
+    assert.equal((await offered).mimeType, 'application/octet-stream');
+    assert.equal((await received).blob.type, 'application/octet-stream');
+  });
+
+  test('cancels a transfer whose chunk has the wrong size', async () => {
+    const { bob } = link();
+    const cancelled = new Promise<{ reason: string }>(resolve => bob.once('fileCancelled', resolve));
+    bob.handleControl('alice', {
+      type: 'file-offer', transferId: 't1', name: 'f', mimeType: 'text/plain', size: 10, chunkCount: 1, sha256: '00'
+    });
+    bob.handleControl('alice', { type: 'file-chunk', transferId: 't1', index: 0, data: new Uint8Array(9) });
+    assert.match((await cancelled).reason, /wrong size/);
+  });
+
+  test('ignores chunks that are not bytes', () => {
+    const { bob } = link();
+    let progress = 0;
+    bob.on('fileProgress', () => progress++);
+    bob.handleControl('alice', {
+      type: 'file-offer', transferId: 't1', name: 'f', mimeType: 'text/plain', size: 4, chunkCount: 1, sha256: '00'
+    });
+    bob.handleControl('alice', { type: 'file-chunk', transferId: 't1', index: 0, data: 'AAAAAA==' });
+    assert.equal(progress, 0);
+  });
+});
@@ -0,0 +1,313 @@
+import { EventEmitter } from 'events';
+import { sha256 } from '@noble/hashes/sha256';
+import { randomBytes, bytesToHex } from '@noble/hashes/utils';
+import type PeerSession from './PeerSession';
+import type { SessionPayload } from './PeerSession';
+import { createLogger } from '../shared/logger';
+
+const log = createLogger('FileTransfers');
+
+// Raw bytes per chunk; each chunk becomes one ratchet message of its own
+export const FILE_CHUNK_SIZE = 16 * 1024;
+// The whole file is held in memory on both ends
+export const MAX_FILE_SIZE = 64 * 1024 * 1024;
+const MAX_FILE_NAME_LENGTH = 255;
+// Received files keep the sender's type only if it is one of these raster image types, which are
+// safe to preview inline. Anything else, SVG and HTML included, becomes application/octet-stream.
+export const INLINE_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/avif', 'image/bmp'];
+
+export function safeMimeType(mimeType: string): string {
+  const normalized = mimeType.trim().toLowerCase();
+  return INLINE_IMAGE_TYPES.includes(normalized) ? normalized : 'application/octet-stream';
+}
+
+export const FILE_CONTROL_TYPES = ['file-offer', 'file-resume', 'file-chunk', 'file-received', 'file-cancel'];
+
+export type TransferDirection = 'incoming' | 'outgoing';
+
+export interface FileDescription {
+  transferId: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  chunkCount: number;
+  // Hex SHA-256 over the whole file, checked by the receiver once every chunk is in
+  sha256: string;
+}
+
+// What the transfers need from the ConnectionManager that owns them
+export interface FileTransfersContext {
+  getSession(peer: string): PeerSession | undefined;
+  sendControl(peer: string, payload: SessionPayload): Promise<void>;
+}
+
+interface OutgoingTransfer {
+  peer: string;
+  file: FileDescription;
+  data: Uint8Array;
+  nextChunk: number;
+  // True while the send loop is running
+  sending: boolean;
+}
+
+interface IncomingTransfer {
+  peer: string;
+  file: FileDescription;
+  chunks: Uint8Array[];
+  bytesReceived: number;
+}
+
+// Chunked file transfer over a peer's secure session. Chunks only ever travel over the data
+// channel: when it drops, the sender pauses, and once the session is back the receiver asks
+// for the transfer to resume from the first chunk it is missing.
+class FileTransfers extends EventEmitter {
+  private context: FileTransfersContext;
+  // Outgoing transfers stay here after the last chunk until the receiver confirms the hash
+  private outgoing = new Map<string, OutgoingTransfer>();
+  private incoming = new Map<string, IncomingTransfer>();
+
+  constructor(context: FileTransfersContext) {
+    super();
+    this.context = context;
+  }
+
+  async sendFile(peer: string, file: Blob, name: string): Promise<FileDescription> {
+    if (file.size > MAX_FILE_SIZE) {
+      throw new Error(`Files can be at most ${MAX_FILE_SIZE / (1024 * 1024)} MB`);
+    }
+    const data = new Uint8Array(await file.arrayBuffer());
+    const description: FileDescription = {
+      transferId: bytesToHex(randomBytes(16)),
+      name: name.slice(0, MAX_FILE_NAME_LENGTH),
+      mimeType: file.type || 'application/octet-stream',
+      size: data.length,
+      chunkCount: Math.ceil(data.length / FILE_CHUNK_SIZE),
+      sha256: bytesToHex(sha256(data))
+    };
+    this.outgoing.set(description.transferId, {
+      peer,
+      file: description,
+      data,
+      nextChunk: 0,
+      sending: false
+    });
+    // The receiver answers with a file-resume, which starts the chunks flowing
+    await this.context.sendControl(peer, { type: 'file-offer', ...description });
+    return description;
+  }
+
+  cancel(transferId: string, reason: string = 'Cancelled') {
+    const transfer = this.outgoing.get(transferId) ?? this.incoming.get(transferId);
+    if (!transfer) {
+      return;
+    }
+    this.context.sendControl(transfer.peer, { type: 'file-cancel', transferId, reason });
+    this.finish(transferId, 'fileCancelled', { reason });
+  }
+
+  // Cancels everything exchanged with a peer whose conversation was closed
+  cancelAll(peer: string, reason: string) {
+    const transfers: (OutgoingTransfer | IncomingTransfer)[] = [
+      ...Array.from(this.outgoing.values()),
+      ...Array.from(this.incoming.values())
+    ];
+    transfers
+      .filter(transfer => transfer.peer === peer)
+      .forEach(transfer => this.finish(transfer.file.transferId, 'fileCancelled', { reason }));
+  }
+
+  // Called whenever a peer's session (re-)establishes; picks up interrupted downloads
+  handleSessionReady(peer: string) {
+    this.incoming.forEach(transfer => {
+      if (transfer.peer === peer) {
+        this.requestChunks(transfer);
+      }
+    });
+  }
+
+  handleControl(peer: string, payload: SessionPayload) {
+    const transferId = payload.transferId;
+    if (typeof transferId !== 'string') {
+      return;
+    }
+    switch (payload.type) {
+      case 'file-offer':
+        this.handleOffer(peer, payload);
+        break;
+      case 'file-resume':
+        this.handleResume(peer, transferId, payload.nextChunk);
+        break;
+      case 'file-chunk':
+        this.handleChunk(peer, transferId, payload.index, payload.data);
+        break;
+      case 'file-received': {
+        const transfer = this.outgoing.get(transferId);
+        if (transfer && transfer.peer === peer) {
+          this.finish(transferId, 'fileSent', {});
+        }
+        break;
+      }
+      case 'file-cancel': {
+        const transfer = this.outgoing.get(transferId) ?? this.incoming.get(transferId);
+        if (transfer && transfer.peer === peer) {
+          const reason = typeof payload.reason === 'string' ? payload.reason.slice(0, 200) : 'Cancelled by peer';
+          this.finish(transferId, 'fileCancelled', { reason });
+        }
+        break;
+      }
+    }
+  }
+
+  cleanup() {
+    this.outgoing.clear();
+    this.incoming.clear();
+    this.removeAllListeners();
+  }
+
+  private handleOffer(peer: string, offer: SessionPayload) {
+    const { transferId, name, mimeType, size, chunkCount, sha256: hash } = offer;
+    if (typeof transferId !== 'string' || typeof name !== 'string' || typeof mimeType !== 'string' ||
+        typeof hash !== 'string' || !Number.isInteger(size) || !Number.isInteger(chunkCount)) {
+      log.warn('Ignoring malformed file offer', { peer });
+      return;
+    }
+    if (this.incoming.has(transferId) || this.outgoing.has(transferId)) {
+      return;
+    }
+    const file: FileDescription = {
+      transferId,
+      name: name.slice(0, MAX_FILE_NAME_LENGTH),
+      mimeType: safeMimeType(mimeType),
+      size: size as number,
+      chunkCount: chunkCount as number,
+      sha256: hash
+    };
+    if (file.size < 0 || file.size > MAX_FILE_SIZE || file.chunkCount !== Math.ceil(file.size / FILE_CHUNK_SIZE)) {
+      this.context.sendControl(peer, { type: 'file-cancel', transferId, reason: 'File offer is invalid or too large' });
+      return;
+    }
+
+    const transfer: IncomingTransfer = { peer, file, chunks: [], bytesReceived: 0 };
+    this.incoming.set(transferId, transfer);
+    this.emit('fileOffered', { peer, ...file });
+    if (file.chunkCount === 0) {
+      this.completeIncoming(transfer);
+    } else {
+      this.requestChunks(transfer);
+    }
+  }
+
+  private requestChunks(transfer: IncomingTransfer) {
+    this.context.sendControl(transfer.peer, {
+      type: 'file-resume',
+      transferId: transfer.file.transferId,
+      nextChunk: transfer.chunks.length
+    });
+  }
+
+  private handleResume(peer: string, transferId: string, nextChunk: unknown) {
+    const transfer = this.outgoing.get(transferId);
+    if (!transfer || transfer.peer !== peer || !Number.isInteger(nextChunk)) {
+      return;
+    }
+    transfer.nextChunk = Math.min(Math.max(nextChunk as number, 0), transfer.file.chunkCount);
+    this.pump(transfer);
+  }
+
+  private async pump(transfer: OutgoingTransfer) {
+    if (transfer.sending) {
+      return;
+    }
+    transfer.sending = true;
+    const { transferId, chunkCount, size } = transfer.file;
+    try {
+      while (transfer.nextChunk < chunkCount && this.outgoing.get(transferId) === transfer) {
+        const session = this.context.getSession(transfer.peer);
+        if (!session || !(await session.waitForBufferDrain())) {
+          log.debug('Paused file transfer until the session is back', { transferId });
+          return;
+        }
+        const index = transfer.nextChunk;
+        const chunk = transfer.data.subarray(index * FILE_CHUNK_SIZE, (index + 1) * FILE_CHUNK_SIZE);
+        const sent = await session.sendDirect({ type: 'file-chunk', transferId, index, data: chunk });
+        if (!sent) {
+          log.debug('Paused file transfer until the session is back', { transferId });
+          return;
+        }
+        transfer.nextChunk = index + 1;
+        this.emit('fileProgress', {
+          peer: transfer.peer,
+          transferId,
+          direction: 'outgoing',
+          bytesTransferred: Math.min(transfer.nextChunk * FILE_CHUNK_SIZE, size),
+          size
+        });
+      }
+    } finally {
+      transfer.sending = false;
+    }
+  }
+
+  private handleChunk(peer: string, transferId: string, index: unknown, data: unknown) {
+    const transfer = this.incoming.get(transferId);
+    if (!transfer || transfer.peer !== peer || !(data instanceof Uint8Array)) {
+      return;
+    }
+    // Chunks arrive in order; anything else is a duplicate from before a resume
+    if (index !== transfer.chunks.length) {
+      return;
+    }
+    const chunk = data;
+    const isLast = transfer.chunks.length === transfer.file.chunkCount - 1;
+    const expectedLength = isLast ? transfer.file.size - transfer.bytesReceived : FILE_CHUNK_SIZE;
+    if (chunk.length !== expectedLength) {
+      this.cancel(transferId, 'Received a chunk of the wrong size');
+      return;
+    }
+
+    transfer.chunks.push(chunk);
+    transfer.bytesReceived += chunk.length;
+    this.emit('fileProgress', {
+      peer,
+      transferId,
+      direction: 'incoming',
+      bytesTransferred: transfer.bytesReceived,
+      size: transfer.file.size
+    });
+    if (isLast) {
+      this.completeIncoming(transfer);
+    }
+  }
+
+  private completeIncoming(transfer: IncomingTransfer) {
+    const { transferId, mimeType, sha256: expectedHash } = transfer.file;
+    const hasher = sha256.create();
+    transfer.chunks.forEach(chunk => hasher.update(chunk));
+    if (bytesToHex(hasher.digest()) !== expectedHash) {
+      this.cancel(transferId, 'File hash does not match');
+      return;
+    }
+    const blob = new Blob(transfer.chunks, { type: mimeType });
+    this.context.sendControl(transfer.peer, { type: 'file-received', transferId });
+    this.finish(transferId, 'fileReceived', { blob });
+  }
+
+  private finish(transferId: string, eventName: string, details: Record<string, unknown>) {
+    const outgoing = this.outgoing.get(transferId);
+    const incoming = this.incoming.get(transferId);
+    const transfer = outgoing ?? incoming;
+    if (!transfer) {
+      return;
+    }
+    this.outgoing.delete(transferId);
+    this.incoming.delete(transferId);
+    this.emit(eventName, {
+      peer: transfer.peer,
+      direction: outgoing ? 'outgoing' : 'incoming',
+      ...transfer.file,
+      ...details
+    });
+  }
+}
+
+export default FileTransfers;
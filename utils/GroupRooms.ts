@@ -0,0 +1,343 @@
+import { EventEmitter } from 'events';
+import { randomBytes, bytesToHex } from '@noble/hashes/utils';
+import type { MessageSigner } from '../services/EncryptionService';
+import { MAX_ROOM_MEMBERS, RoomManifest, signRoomManifest, verifyRoomManifest } from '../services/RoomManifest';
+import SenderKeys, { GroupCiphertext, SenderKeyDistribution } from '../services/SenderKeys';
+import type { SessionPayload } from './PeerSession';
+import type { ClientFrame, RoomJoinedFrame, RoomMemberJoinedFrame, RoomMemberLeftFrame } from '../shared/protocol';
+import { createLogger } from '../shared/logger';
+
+const log = createLogger('GroupRooms');
+
+export type { RoomManifest } from '../services/RoomManifest';
+
+export interface RoomSummary {
+  roomId: string;
+  manifest: RoomManifest;
+  // Members currently connected to the room, including ourselves
+  connected: string[];
+}
+
+// What the rooms need from the ConnectionManager that owns them
+export interface GroupRoomsContext {
+  localPublicKey: string;
+  signMessage: MessageSigner;
+  sendSignal(frame: ClientFrame): void;
+  openConversation(peer: string): void;
+  sendControl(peer: string, payload: SessionPayload): Promise<void>;
+}
+
+// Epochs and chain iterations count up from zero
+function isCounter(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+interface RoomState {
+  manifest: RoomManifest;
+  connected: Set<string>;
+}
+
+// Group rooms on top of the pairwise sessions: every member keeps a conversation with every
+// other connected member, hands out its sender key over it, and fans group messages out over
+// all of them. Any change in who is connected rotates our sender key.
+class GroupRooms extends EventEmitter {
+  private context: GroupRoomsContext;
+  private rooms = new Map<string, RoomState>();
+  // Invitations we have verified but not accepted yet
+  private invites = new Map<string, RoomManifest>();
+  private senderKeys: SenderKeys;
+
+  constructor(context: GroupRoomsContext) {
+    super();
+    this.context = context;
+    this.senderKeys = new SenderKeys(context.localPublicKey);
+  }
+
+  getRooms(): RoomSummary[] {
+    return Array.from(this.rooms.values()).map(room => ({
+      roomId: room.manifest.roomId,
+      manifest: room.manifest,
+      connected: Array.from(room.connected)
+    }));
+  }
+
+  getInvites(): RoomManifest[] {
+    return Array.from(this.invites.values());
+  }
+
+  async createRoom(members: string[]): Promise<RoomManifest> {
+    const manifest = await this.signManifest(bytesToHex(randomBytes(16)), members, 0);
+    this.rooms.set(manifest.roomId, { manifest, connected: new Set() });
+    this.join(manifest);
+    this.invite(manifest, manifest.members);
+    return manifest;
+  }
+
+  // Only the creator can change the member list; the server drops members who are no longer listed
+  async updateMembers(roomId: string, members: string[]): Promise<RoomManifest> {
+    const room = this.rooms.get(roomId);
+    if (!room || room.manifest.creator !== this.context.localPublicKey) {
+      throw new Error('Only the room creator can change its members');
+    }
+    const manifest = await this.signManifest(roomId, members, room.manifest.version + 1);
+    const added = manifest.members.filter(member => !room.manifest.members.includes(member));
+    room.manifest = manifest;
+    this.join(manifest);
+    this.invite(manifest, added);
+    return manifest;
+  }
+
+  acceptInvite(roomId: string) {
+    const manifest = this.invites.get(roomId);
+    if (!manifest) {
+      throw new Error('No pending invitation for this room');
+    }
+    this.invites.delete(roomId);
+    this.rooms.set(roomId, { manifest, connected: new Set() });
+    this.join(manifest);
+  }
+
+  declineInvite(roomId: string) {
+    this.invites.delete(roomId);
+  }
+
+  leaveRoom(roomId: string) {
+    if (!this.rooms.has(roomId)) {
+      return;
+    }
+    this.context.sendSignal({ type: 'room-leave', sender: this.context.localPublicKey, roomId });
+    this.removeRoom(roomId);
+  }
+
+  // The server forgets room membership when the socket drops, so join again after re-registering
+  rejoinAll() {
+    this.rooms.forEach(room => this.join(room.manifest));
+  }
+
+  async sendMessage(roomId: string, text: string) {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      throw new Error('Not a member of this room');
+    }
+    if (!this.senderKeys.hasOwnKey(roomId)) {
+      this.rotateSenderKey(room);
+    }
+    const id = bytesToHex(randomBytes(16));
+    const timestamp = Date.now();
+    const ciphertext = await this.senderKeys.encrypt(roomId, JSON.stringify({ text, id, timestamp }));
+    await Promise.all(this.otherMembers(room).map(member =>
+      this.context.sendControl(member, { type: 'group-message', ...ciphertext })
+    ));
+    return { id, timestamp };
+  }
+
+  handleSignal(frame: RoomJoinedFrame | RoomMemberJoinedFrame | RoomMemberLeftFrame) {
+    switch (frame.type) {
+      case 'room-joined':
+        this.handleRoomJoined(frame.roomId, frame.manifest, frame.members);
+        break;
+      case 'room-member-joined':
+        this.handleMemberJoined(frame.roomId, frame.member, frame.manifest);
+        break;
+      case 'room-member-left':
+        this.handleMemberLeft(frame.roomId, frame.member, frame.manifest);
+        break;
+    }
+  }
+
+  async handleControl(peer: string, payload: SessionPayload) {
+    switch (payload.type) {
+      case 'room-invite':
+        this.handleInvite(peer, payload.manifest);
+        break;
+      case 'sender-key':
+        this.handleSenderKey(peer, payload.distribution);
+        break;
+      case 'group-message':
+        await this.handleGroupMessage(peer, payload);
+        break;
+    }
+  }
+
+  cleanup() {
+    this.rooms.clear();
+    this.invites.clear();
+    this.removeAllListeners();
+  }
+
+  private async signManifest(roomId: string, members: string[], version: number): Promise<RoomManifest> {
+    const uniqueMembers = Array.from(new Set([this.context.localPublicKey, ...members]));
+    if (uniqueMembers.length > MAX_ROOM_MEMBERS) {
+      throw new Error(`A room can have at most ${MAX_ROOM_MEMBERS} members`);
+    }
+    return signRoomManifest({
+      roomId,
+      creator: this.context.localPublicKey,
+      members: uniqueMembers,
+      version
+    }, this.context.signMessage);
+  }
+
+  private join(manifest: RoomManifest) {
+    this.context.sendSignal({ type: 'room-join', sender: this.context.localPublicKey, manifest });
+  }
+
+  private invite(manifest: RoomManifest, members: string[]) {
+    members
+      .filter(member => member !== this.context.localPublicKey)
+      .forEach(member => {
+        this.context.openConversation(member);
+        this.context.sendControl(member, { type: 'room-invite', manifest });
+      });
+  }
+
+  // Adopts a newer manifest from the same creator; anything else is ignored
+  private adoptManifest(room: RoomState, manifest: unknown) {
+    if (verifyRoomManifest(manifest) && manifest.roomId === room.manifest.roomId &&
+        manifest.creator === room.manifest.creator && manifest.version > room.manifest.version) {
+      room.manifest = manifest;
+    }
+  }
+
+  private handleInvite(peer: string, manifest: unknown) {
+    if (!verifyRoomManifest(manifest) || manifest.creator !== peer ||
+        !manifest.members.includes(this.context.localPublicKey)) {
+      log.warn('Ignoring invalid room invitation', { peer });
+      return;
+    }
+    const room = this.rooms.get(manifest.roomId);
+    if (room) {
+      // Already a member; the creator is just publishing a new member list
+      this.adoptManifest(room, manifest);
+      return;
+    }
+    const pending = this.invites.get(manifest.roomId);
+    if (pending && pending.version >= manifest.version) {
+      return;
+    }
+    this.invites.set(manifest.roomId, manifest);
+    this.emit('roomInvite', { roomId: manifest.roomId, manifest });
+  }
+
+  private handleRoomJoined(roomId: string, manifest: unknown, members: unknown) {
+    const room = this.rooms.get(roomId);
+    if (!room || !Array.isArray(members)) {
+      return;
+    }
+    this.adoptManifest(room, manifest);
+    room.connected = new Set(members.filter(member => room.manifest.members.includes(member)));
+    room.connected.add(this.context.localPublicKey);
+
+    // One side of each pair opens the conversation, so joining never causes glare
+    this.otherMembers(room)
+      .filter(member => this.context.localPublicKey < member)
+      .forEach(member => this.context.openConversation(member));
+    this.rotateSenderKey(room);
+    this.emit('roomJoined', this.summarize(room));
+  }
+
+  private handleMemberJoined(roomId: string, member: unknown, manifest: unknown) {
+    const room = this.rooms.get(roomId);
+    if (!room || typeof member !== 'string') {
+      return;
+    }
+    this.adoptManifest(room, manifest);
+    if (!room.manifest.members.includes(member)) {
+      return;
+    }
+    room.connected.add(member);
+    if (this.context.localPublicKey < member) {
+      this.context.openConversation(member);
+    }
+    this.rotateSenderKey(room);
+    this.emit('roomUpdated', this.summarize(room));
+  }
+
+  private handleMemberLeft(roomId: string, member: unknown, manifest: unknown) {
+    const room = this.rooms.get(roomId);
+    if (!room || typeof member !== 'string') {
+      return;
+    }
+    this.adoptManifest(room, manifest);
+    if (member === this.context.localPublicKey) {
+      log.info('Removed from room', { roomId });
+      this.removeRoom(roomId);
+      return;
+    }
+    room.connected.delete(member);
+    this.senderKeys.forgetMember(roomId, member);
+    this.rotateSenderKey(room);
+    this.emit('roomUpdated', this.summarize(room));
+  }
+
+  private handleSenderKey(peer: string, payload: unknown) {
+    const { roomId, epoch, chainKey, iteration } = (payload ?? {}) as Record<string, unknown>;
+    if (typeof roomId !== 'string' || !isCounter(epoch) || !isCounter(iteration) ||
+        typeof chainKey !== 'string' || Buffer.from(chainKey, 'base64').length !== 32) {
+      log.warn('Ignoring malformed sender key', { peer });
+      return;
+    }
+    const distribution: SenderKeyDistribution = { roomId, epoch, chainKey, iteration };
+    const room = this.rooms.get(roomId);
+    if (!room || !room.manifest.members.includes(peer)) {
+      log.warn('Ignoring sender key from a non-member', { peer });
+      return;
+    }
+    try {
+      this.senderKeys.processDistribution(peer, distribution);
+    } catch (error) {
+      log.error('Rejected sender key', { error });
+    }
+  }
+
+  private async handleGroupMessage(peer: string, payload: SessionPayload) {
+    const { roomId, epoch, iteration, ciphertext } = payload;
+    if (typeof roomId !== 'string' || !isCounter(epoch) || !isCounter(iteration) || typeof ciphertext !== 'string') {
+      log.warn('Ignoring malformed group message', { peer });
+      return;
+    }
+    const message: GroupCiphertext = { roomId, epoch, iteration, ciphertext };
+    const room = this.rooms.get(roomId);
+    if (!room || !room.manifest.members.includes(peer)) {
+      log.warn('Ignoring group message from a non-member', { roomId: message.roomId, peer });
+      return;
+    }
+    try {
+      const { text, id, timestamp } = JSON.parse(await this.senderKeys.decrypt(peer, message));
+      if (typeof text !== 'string' || typeof id !== 'string' || typeof timestamp !== 'number') {
+        throw new Error('Malformed group message body');
+      }
+      this.emit('groupMessage', { roomId: message.roomId, sender: peer, text, id, timestamp });
+    } catch (error) {
+      log.error('Failed to decrypt group message', { error });
+      this.emit('roomError', { roomId: message.roomId, message: 'Failed to decrypt group message' });
+    }
+  }
+
+  private rotateSenderKey(room: RoomState) {
+    const distribution = this.senderKeys.rotate(room.manifest.roomId);
+    this.otherMembers(room).forEach(member => {
+      this.context.sendControl(member, { type: 'sender-key', distribution });
+    });
+  }
+
+  private otherMembers(room: RoomState): string[] {
+    return Array.from(room.connected).filter(member => member !== this.context.localPublicKey);
+  }
+
+  private removeRoom(roomId: string) {
+    this.rooms.delete(roomId);
+    this.senderKeys.forgetRoom(roomId);
+    this.emit('roomLeft', { roomId });
+  }
+
+  private summarize(room: RoomState): RoomSummary {
+    return {
+      roomId: room.manifest.roomId,
+      manifest: room.manifest,
+      connected: Array.from(room.connected)
+    };
+  }
+}
+
+export default GroupRooms;
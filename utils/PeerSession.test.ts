@@ -0,0 +1,246 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import PeerSession from './PeerSession';
+import type { EncryptionService, HandshakeMessage, LocalHandshake, SecureSession } from '../services/EncryptionService';
+import type { ClientFrame, PeerFrame } from '../shared/protocol';
+
+const ALICE = 'alice-wallet';
+const BOB = 'bob-wallet';
+
+// Enough of RTCPeerConnection for signaling: descriptions move signalingState the way a browser does
+class FakePeerConnection {
+  signalingState: RTCSignalingState = 'stable';
+  connectionState = 'new';
+  iceConnectionState = 'new';
+  localDescription: RTCSessionDescriptionInit | null = null;
+  remoteDescription: RTCSessionDescriptionInit | null = null;
+  descriptions: string[] = [];
+  closed = false;
+
+  createDataChannel() {
+    return { readyState: 'connecting', close() {} };
+  }
+
+  async createOffer() {
+    return { type: 'offer', sdp: 'v=0' };
+  }
+
+  async createAnswer() {
+    return { type: 'answer', sdp: 'v=0' };
+  }
+
+  async setLocalDescription(description: RTCSessionDescriptionInit) {
+    this.descriptions.push(`local ${description.type}`);
+    if (description.type === 'rollback') {
+      this.localDescription = null;
+      this.signalingState = 'stable';
+      return;
+    }
+    this.localDescription = description;
+    this.signalingState = description.type === 'offer' ? 'have-local-offer' : 'stable';
+  }
+
+  async setRemoteDescription(description: RTCSessionDescriptionInit) {
+    this.descriptions.push(`remote ${description.type}`);
+    this.remoteDescription = description;
+    this.signalingState = description.type === 'offer' ? 'have-remote-offer' : 'stable';
+  }
+
+  async addIceCandidate() {}
+
+  setConfiguration() {}
+
+  close() {
+    this.closed = true;
+  }
+}
+
+// Handshakes signed 'valid' verify; a session's key confirmation is the sender's name
+function fakeEncryption() {
+  let created = 0;
+  const service = {
+    get created() {
+      return created;
+    },
+    getSupportedSuites: () => ['fake'],
+    getIdentityKey: () => 'aWQ=',
+    createHandshake: async (): Promise<LocalHandshake> => {
+      created += 1;
+      return { message: handshake(`key-${created}`), privateKeys: {} };
+    },
+    verifyHandshake: (message: HandshakeMessage) => message.signature === 'valid',
+    establishSession: () => ({
+      suite: 'fake',
+      createKeyConfirmation: (sender: string) => `mac:${sender}`,
+      verifyKeyConfirmation: (sender: string, mac: string) => mac === `mac:${sender}`
+    }) as unknown as SecureSession,
+    restoreSession: () => { throw new Error('Not used'); }
+  };
+  return service as EncryptionService & { readonly created: number };
+}
+
+function handshake(key: string, signature = 'valid'): HandshakeMessage {
+  return {
+    version: 2,
+    suites: ['fake'],
+    keys: { fake: key },
+    identityKey: 'cGVlcg==',
+    certificate: 'Y2VydA==',
+    certificateExpiresAt: Date.now() + 60 * 1000,
+    signature
+  };
+}
+
+function session(local: string, peer: string, isInitiator: boolean, registered = true) {
+  const sent: ClientFrame[] = [];
+  const connections: FakePeerConnection[] = [];
+  const encryption = fakeEncryption();
+  const context = { registered };
+  const peerSession = new PeerSession(peer, {
+    localPublicKey: local,
+    encryptionService: encryption,
+    sendSignal: frame => sent.push(frame),
+    isRegistered: () => context.registered,
+    getIceServers: () => [],
+    createPeerConnection: () => {
+      const connection = new FakePeerConnection();
+      connections.push(connection);
+      return connection as unknown as RTCPeerConnection;
+    }
+  }, isInitiator);
+  const sentOfType = (type: string) => sent.filter(frame => frame.type === type);
+  return { session: peerSession, sent, sentOfType, connections, encryption, context };
+}
+
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+const fromPeer = (frame: Record<string, unknown>) => ({ ...frame, sender: BOB, recipient: ALICE }) as PeerFrame;
+
+describe('PeerSession', () => {
+  test('an initiator opened before registering stays idle until resumed', async () => {
+    const alice = session(ALICE, BOB, true, false);
+    alice.session.start();
+    await settle();
+    assert.equal(alice.session.state, 'idle');
+    assert.deepEqual(alice.sent, []);
+
+    alice.context.registered = true;
+    alice.session.resume();
+    await settle();
+    assert.equal(alice.session.state, 'signaling');
+    assert.equal(alice.sentOfType('initiate').length, 1);
+    alice.session.close(false);
+  });
+
+  test('when both sides initiate, the lower address stays the initiator and the other yields', async () => {
+    const alice = session(ALICE, BOB, true);
+    const bob = session(BOB, ALICE, true);
+    alice.session.start();
+    bob.session.start();
+    await settle();
+
+    assert.equal(alice.session.handleInitiate(), false);
+    assert.equal(alice.session.initiator, true);
+    assert.equal(alice.connections.length, 1);
+
+    assert.equal(bob.session.handleInitiate(), true);
+    await settle();
+    assert.equal(bob.session.initiator, false);
+    assert.equal(bob.session.state, 'signaling');
+    assert.equal(bob.connections.length, 2);
+    assert.equal(bob.connections[0].closed, true);
+    // The handshake alice may already hold is sent again rather than replaced
+    const handshakes = bob.sentOfType('ecdh-public-key') as HandshakeMessage[];
+    assert.equal(bob.encryption.created, 1);
+    assert.equal(handshakes.length, 2);
+    assert.deepEqual(handshakes[1].keys, handshakes[0].keys);
+
+    alice.session.close(false);
+    bob.session.close(false);
+  });
+
+  test('a repeated initiate makes the responder start over', async () => {
+    const alice = session(ALICE, BOB, false);
+    alice.session.start();
+    await settle();
+    assert.equal(alice.session.handleInitiate(), true);
+    await settle();
+    assert.equal(alice.session.handleInitiate(), true);
+    await settle();
+
+    assert.equal(alice.session.initiator, false);
+    assert.equal(alice.session.state, 'signaling');
+    assert.equal(alice.connections.length, 3);
+    assert.equal(alice.encryption.created, 1);
+    assert.equal(alice.sentOfType('ecdh-public-key').length, 3);
+
+    alice.session.close(false);
+    assert.equal(alice.session.handleInitiate(), false);
+  });
+
+  test('when offers cross, the higher address rolls back, answers and offers again', async () => {
+    const alice = session(ALICE, BOB, true);
+    const bob = session(BOB, ALICE, true);
+    alice.session.start();
+    bob.session.start();
+    await settle();
+    const offer = { type: 'offer', sdp: 'v=0' };
+
+    alice.session.handleSignal(fromPeer({ type: 'offer', offer }));
+    await settle();
+    assert.equal(alice.sentOfType('answer').length, 0);
+    assert.equal(alice.connections[0].signalingState, 'have-local-offer');
+
+    bob.session.handleSignal({ type: 'offer', offer, sender: ALICE, recipient: BOB });
+    await settle();
+    assert.deepEqual(bob.connections[0].descriptions, [
+      'local offer', 'local rollback', 'remote offer', 'local answer', 'local offer'
+    ]);
+    assert.equal(bob.sentOfType('answer').length, 1);
+    assert.equal(bob.sentOfType('offer').length, 2);
+
+    alice.session.close(false);
+    bob.session.close(false);
+  });
+
+  test('encrypts only once the peer has confirmed the keys', async () => {
+    const alice = session(ALICE, BOB, false);
+    let ready = 0;
+    alice.session.on('encryptionReady', () => ready++);
+    alice.session.start();
+    await settle();
+
+    alice.session.handleSignal(fromPeer({ type: 'key-confirmation', mac: `mac:${BOB}` }));
+    alice.session.handleSignal(fromPeer({ type: 'ecdh-public-key', ...handshake('peer-key') }));
+    assert.equal(alice.sentOfType('key-confirmation').length, 1);
+    assert.equal(alice.session.canEncrypt(), true);
+    assert.equal(alice.session.getPeerIdentityKey(), 'cGVlcg==');
+    assert.equal(ready, 1);
+
+    // Starting over drops the keys until the new handshake is confirmed
+    alice.session.handleInitiate();
+    assert.equal(alice.session.canEncrypt(), false);
+    assert.equal(alice.session.getPeerIdentityKey(), null);
+    alice.session.close(false);
+  });
+
+  test('a handshake the peer wallet did not sign aborts the session', async () => {
+    const alice = session(ALICE, BOB, true);
+    const failures: { reason: string }[] = [];
+    alice.session.on('identityVerificationFailed', failure => failures.push(failure));
+    alice.session.start();
+    await settle();
+
+    alice.session.handleSignal(fromPeer({ type: 'ecdh-public-key', ...handshake('peer-key', 'forged') }));
+    assert.equal(failures.length, 1);
+    assert.match(failures[0].reason, /not signed/);
+    assert.equal(alice.session.state, 'idle');
+    assert.equal(alice.session.canEncrypt(), false);
+    assert.equal(alice.connections[0].closed, true);
+    // It waits for the peer to initiate again instead of retrying on its own
+    assert.equal(alice.session.initiator, false);
+    alice.session.resume();
+    assert.equal(alice.session.state, 'idle');
+    alice.session.close(false);
+  });
+});
@@ -0,0 +1,959 @@
+import { EventEmitter } from 'events';
+import { randomBytes, bytesToHex } from '@noble/hashes/utils';
+import {
+  EncryptedEnvelope,
+  EncryptionService,
+  HandshakeMessage,
+  LocalHandshake,
+  SecureSession,
+  SessionSnapshot
+} from '../services/EncryptionService';
+import ReplayGuard, { MAX_MAILBOX_MESSAGE_AGE_MS, MAX_MESSAGE_AGE_MS, ReplayGuardSnapshot } from '../services/ReplayGuard';
+import { backoffDelay } from './backoff';
+import {
+  ClientFrame,
+  encodeBinaryFrame,
+  encodeFrame,
+  IceServer,
+  PeerFrame,
+  RelayedEncryptedMessageFrame,
+  SessionDescription,
+  UnaddressedPeerFrame,
+  parseDataChannelFrame
+} from '../shared/protocol';
+import { createLogger, Logger } from '../shared/logger';
+import ConnectionStateMachine, { ConnectionState, StateChange } from './ConnectionStateMachine';
+
+// ICE often recovers from a brief 'disconnected' on its own, so give it a moment first
+const ICE_DISCONNECTED_GRACE_MS = 5 * 1000;
+const MAX_SESSION_RESTARTS = 5;
+// Bulk senders wait for the data channel's send buffer to drain below this before continuing
+const BUFFERED_AMOUNT_LOW_THRESHOLD = 256 * 1024;
+// The phases of a new connection in order; advance() never moves backwards through them
+const ESTABLISHING_PHASES: ConnectionState[] = ['idle', 'signaling', 'negotiating', 'key-exchange', 'secure'];
+
+// What a session needs from the ConnectionManager that owns it
+export interface PeerSessionContext {
+  localPublicKey: string;
+  encryptionService: EncryptionService;
+  sendSignal(frame: ClientFrame): void;
+  isRegistered(): boolean;
+  // Read whenever a connection is created or restarted, since TURN credentials expire
+  getIceServers(): IceServer[];
+  createPeerConnection(configuration: RTCConfiguration): RTCPeerConnection;
+}
+
+// The decrypted body of an `encrypted-message`. Chat text is emitted as 'message';
+// any other type is a control payload for a feature built on top of the session.
+export interface SessionPayload {
+  type: string;
+  [key: string]: unknown;
+}
+
+// Payloads are encrypted as JSON. One whose `data` is a Uint8Array is encrypted as a zero byte,
+// a 4-byte big-endian length, the JSON of the rest of the payload and then the data, so bulk
+// bytes such as file chunks are never base64-encoded.
+function encodePayload(payload: SessionPayload): Uint8Array {
+  const { data, ...rest } = payload;
+  if (!(data instanceof Uint8Array)) {
+    return new TextEncoder().encode(JSON.stringify(payload));
+  }
+  const json = new TextEncoder().encode(JSON.stringify(rest));
+  const bytes = new Uint8Array(5 + json.length + data.length);
+  new DataView(bytes.buffer).setUint32(1, json.length);
+  bytes.set(json, 5);
+  bytes.set(data, 5 + json.length);
+  return bytes;
+}
+
+function decodePayload(plaintext: Uint8Array): SessionPayload {
+  if (plaintext[0] !== 0) {
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  }
+  const length = plaintext.length >= 5 ? new DataView(plaintext.buffer, plaintext.byteOffset, plaintext.byteLength).getUint32(1) : -1;
+  if (length < 0 || 5 + length > plaintext.length) {
+    throw new Error('Binary payload is truncated');
+  }
+  const payload = JSON.parse(new TextDecoder().decode(plaintext.subarray(5, 5 + length)));
+  return { ...payload, data: plaintext.slice(5 + length) };
+}
+
+// The keys an envelope from the peer is decrypted and checked with
+interface ReceivingKeys {
+  session: SecureSession;
+  replayGuard: ReplayGuard;
+}
+
+// ReceivingKeys in a form that can be stored and restored later
+export interface ReceivingKeysSnapshot {
+  session: SessionSnapshot;
+  replayGuard: ReplayGuardSnapshot;
+}
+
+function extractDtlsFingerprint(sdp: string | undefined): string | null {
+  const match = sdp?.match(/^a=fingerprint:(\S+ \S+)/m);
+  return match ? match[1].toUpperCase() : null;
+}
+
+// One conversation with one peer: its RTC connection, crypto state and pending messages.
+// Every event carries `peer` so ConnectionManager can forward it unchanged. Its progress is
+// reported as a single 'stateChange' event; see ConnectionStateMachine for the states.
+class PeerSession extends EventEmitter {
+  readonly peer: string;
+  private context: PeerSessionContext;
+  private log: Logger;
+  // The single source of the session's progress: its state, role, key exchange and offer
+  private connectionState: ConnectionStateMachine;
+  private peerConnection: RTCPeerConnection | null = null;
+  private dataChannel: RTCDataChannel | null = null;
+  private localHandshake: LocalHandshake | null = null;
+  private pendingPeerHandshake: HandshakeMessage | null = null;
+  private session: SecureSession | null = null;
+  private pendingKeyConfirmation: string | null = null;
+  // The identity key from the peer's handshake, once verified against its wallet
+  private peerIdentityKey: string | null = null;
+  private replayGuard: ReplayGuard | null = null;
+  // The last established session, kept after a restart so envelopes still in flight under
+  // its keys (for example held in the server mailbox) can be decrypted
+  private previousSession: ReceivingKeys | null = null;
+  private sendCounter: number = 0;
+  // Payloads sent before the channel was ready, flushed in order once it is. `onSent` is told
+  // whether the payload finally went out.
+  private pendingPayloads: { payload: SessionPayload; onSent?: (sent: boolean) => void }[] = [];
+  private iceRestartTimer: ReturnType<typeof setTimeout> | null = null;
+  private sessionRestartAttempts: number = 0;
+  private sessionRestartTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(peer: string, context: PeerSessionContext, isInitiator: boolean) {
+    super();
+    this.peer = peer;
+    this.context = context;
+    this.log = createLogger('PeerSession', { peer });
+    this.connectionState = new ConnectionStateMachine(isInitiator ? 'initiator' : 'responder');
+    this.connectionState.on('stateChange', (change: StateChange) => {
+      this.log.debug('Connection state changed', { ...change });
+      this.emit('stateChange', { peer, ...change });
+    });
+    this.connectionState.on('timeout', (state: ConnectionState) => this.handlePhaseTimeout(state));
+  }
+
+  get initiator(): boolean {
+    return this.connectionState.role === 'initiator';
+  }
+
+  get state(): ConnectionState {
+    return this.connectionState.state;
+  }
+
+  isReady(): boolean {
+    return !!this.dataChannel && this.dataChannel.readyState === 'open' && this.hasSecureSession();
+  }
+
+  // Only runs once; a session that has already started ignores it. An initiator that is not
+  // registered yet stays idle until resume().
+  start() {
+    if (this.state !== 'idle') {
+      this.log.debug('Session already started', { state: this.state });
+      return;
+    }
+    if (!this.initiator) {
+      this.setState('signaling', 'Peer initiated');
+      this.initializePeerConnection();
+    } else if (this.context.isRegistered()) {
+      this.initiatePeerConnection();
+    } else {
+      this.log.debug('Not registered with server, deferring initiate');
+    }
+  }
+
+  // Returns false when the initiate was ignored. If both sides initiated at the same time,
+  // the lower wallet address keeps the initiator role and the other side yields. Any other
+  // initiate means the peer started over, so this side does too.
+  handleInitiate(): boolean {
+    if (this.state === 'closed') {
+      return false;
+    }
+    if (this.initiator && this.state !== 'idle' && this.context.localPublicKey < this.peer) {
+      this.log.debug('Both sides initiated, keeping the initiator role');
+      return false;
+    }
+    this.log.debug('Received initiate message');
+    this.setState('signaling', this.initiator ? 'Both sides initiated' : 'Peer initiated');
+    this.connectionState.setRole('responder');
+    this.clearSessionRestartTimer();
+    this.resetEncryptionState();
+    this.initializePeerConnection();
+    return true;
+  }
+
+  handleSignal(frame: PeerFrame) {
+    switch (frame.type) {
+      case 'offer':
+        this.log.debug('Received offer');
+        this.handleOffer(frame.offer);
+        break;
+      case 'answer':
+        this.log.debug('Received answer');
+        this.handleAnswer(frame.answer);
+        break;
+      case 'ice-candidate':
+        this.log.debug('Received ICE candidate');
+        this.handleNewICECandidate(frame.candidate);
+        break;
+      case 'ecdh-public-key':
+        this.log.debug('Received ECDH public key message');
+        this.handleECDHPublicKey(frame);
+        break;
+      case 'key-confirmation':
+        this.log.debug('Received key confirmation from peer');
+        this.handleKeyConfirmation(frame.mac);
+        break;
+    }
+  }
+
+  // Resolves true once the message has been decrypted, or if it had already been received;
+  // only then may its mailbox copy be acknowledged. Mailbox copies may be as old as the
+  // mailbox keeps them.
+  receiveRelayedMessage(frame: RelayedEncryptedMessageFrame): Promise<boolean> {
+    const maxAge = frame.deliveryId === undefined ? MAX_MESSAGE_AGE_MS : MAX_MAILBOX_MESSAGE_AGE_MS;
+    return this.handleEncryptedMessage(frame, maxAge);
+  }
+
+  // The newest keys that can decrypt the peer's messages, for keeping across a reload.
+  // Emits 'receivingKeysChanged' whenever they change.
+  exportReceivingKeys(): ReceivingKeysSnapshot | null {
+    const keys = this.session && this.replayGuard && this.hasSecureSession()
+      ? { session: this.session, replayGuard: this.replayGuard }
+      : this.previousSession;
+    return keys ? { session: keys.session.exportReceivingState(), replayGuard: keys.replayGuard.exportState() } : null;
+  }
+
+  // Keys from an earlier session, used only to decrypt envelopes sent under them
+  restoreReceivingKeys(snapshot: ReceivingKeysSnapshot) {
+    if (this.previousSession) {
+      return;
+    }
+    this.previousSession = {
+      session: this.context.encryptionService.restoreSession(snapshot.session),
+      replayGuard: new ReplayGuard(this.context.localPublicKey, this.peer, snapshot.replayGuard)
+    };
+  }
+
+  // True once messages can be encrypted, whether or not the data channel is up
+  canEncrypt(): boolean {
+    return this.hasSecureSession();
+  }
+
+  // The peer's identity key for the current session, once both sides have confirmed it
+  getPeerIdentityKey(): string | null {
+    return this.hasSecureSession() ? this.peerIdentityKey : null;
+  }
+
+  // Resolves once the message has actually been sent, which may be after the session comes
+  // up, or false if it could not be
+  sendChatMessage(id: string, text: string): Promise<boolean> {
+    return new Promise(resolve => this.sendPayload({ type: 'chat', id, text }, resolve));
+  }
+
+  // Control payloads share the chat channel's encryption, ordering and queueing
+  async sendControl(payload: SessionPayload) {
+    await this.sendPayload(payload);
+  }
+
+  // Sends over the data channel only: never queued and never relayed through the server.
+  // Returns false when the channel is not usable, so bulk senders can pause instead.
+  async sendDirect(payload: SessionPayload): Promise<boolean> {
+    if (!this.isReady()) {
+      return false;
+    }
+    return this.sendEncrypted(payload, true);
+  }
+
+  // Resolves once the data channel can take more data, or false if it closes first
+  waitForBufferDrain(): Promise<boolean> {
+    const channel = this.dataChannel;
+    if (!channel || channel.readyState !== 'open') {
+      return Promise.resolve(false);
+    }
+    if (channel.bufferedAmount <= channel.bufferedAmountLowThreshold) {
+      return Promise.resolve(true);
+    }
+    return new Promise(resolve => {
+      const settle = (drained: boolean) => {
+        channel.removeEventListener('bufferedamountlow', onLow);
+        channel.removeEventListener('close', onClose);
+        resolve(drained);
+      };
+      const onLow = () => settle(true);
+      const onClose = () => settle(false);
+      channel.addEventListener('bufferedamountlow', onLow);
+      channel.addEventListener('close', onClose);
+    });
+  }
+
+  // Media tracks ride on the session's peer connection; each change is renegotiated over the
+  // existing offer/answer signaling
+  addTrack(track: MediaStreamTrack, stream: MediaStream): RTCRtpSender | null {
+    if (!this.peerConnection) {
+      return null;
+    }
+    const sender = this.peerConnection.addTrack(track, stream);
+    this.renegotiate();
+    return sender;
+  }
+
+  removeTrack(sender: RTCRtpSender) {
+    if (!this.peerConnection || this.peerConnection.connectionState === 'closed') {
+      return;
+    }
+    this.peerConnection.removeTrack(sender);
+    this.renegotiate();
+  }
+
+  // The DTLS certificate fingerprints from the current descriptions. Media is keyed by DTLS, so
+  // calls exchange the local one over the ratchet to tie it to the wallet handshake.
+  getDtlsFingerprints(): { local: string | null; remote: string | null } {
+    return {
+      local: extractDtlsFingerprint(this.peerConnection?.localDescription?.sdp),
+      remote: extractDtlsFingerprint(this.peerConnection?.remoteDescription?.sdp)
+    };
+  }
+
+  // Called after the signaling connection is re-registered. An initiator still idle was opened
+  // before registration and starts now.
+  resume() {
+    if (this.state === 'idle') {
+      if (this.initiator) {
+        this.initiatePeerConnection();
+      }
+      return;
+    }
+    if (!this.initiator || this.sessionRestartTimer) {
+      return;
+    }
+    if (this.dataChannel && this.dataChannel.readyState === 'open') {
+      // The peer-to-peer link survived the signaling outage; nothing to do
+      return;
+    }
+    this.restartSession();
+  }
+
+  close(notifyPeer: boolean) {
+    this.setState('closed', 'Conversation closed');
+    this.clearSessionRestartTimer();
+    if (notifyPeer) {
+      this.sendSignal({ type: 'conversation-closed' });
+    }
+    this.resetEncryptionState();
+    this.previousSession = null;
+    this.teardownPeerConnection();
+    this.pendingPayloads.forEach(({ onSent }) => onSent?.(false));
+    this.pendingPayloads = [];
+    this.removeAllListeners();
+  }
+
+  private sendSignal(frame: UnaddressedPeerFrame) {
+    this.context.sendSignal({ ...frame, sender: this.context.localPublicKey, recipient: this.peer } as PeerFrame);
+  }
+
+  private initiatePeerConnection() {
+    this.setState('signaling', 'Initiated');
+    this.initializePeerConnection();
+    this.sendSignal({ type: 'initiate' });
+  }
+
+  private initializePeerConnection() {
+    this.log.debug('Initializing peer connection');
+    this.teardownPeerConnection();
+    this.peerConnection = this.context.createPeerConnection({ iceServers: this.context.getIceServers() });
+
+    this.peerConnection.onicecandidate = (event) => {
+      if (event.candidate) {
+        this.log.debug('Sending ICE candidate');
+        this.sendSignal({ type: 'ice-candidate', candidate: event.candidate.toJSON() });
+      }
+    };
+
+    this.peerConnection.ontrack = (event) => {
+      this.log.debug('Received remote track', { kind: event.track.kind });
+      this.emit('remoteTrack', { peer: this.peer, track: event.track, streams: event.streams });
+    };
+
+    this.peerConnection.onconnectionstatechange = () => {
+      this.log.debug('Connection state changed', { state: this.peerConnection?.connectionState });
+      if (this.peerConnection?.connectionState === 'connected') {
+        this.emit('peerConnectionEstablished', { peer: this.peer });
+      }
+    };
+
+    this.peerConnection.oniceconnectionstatechange = () => {
+      const state = this.peerConnection?.iceConnectionState;
+      this.log.debug('ICE connection state changed', { state });
+      if (state === 'failed') {
+        this.setState('reconnecting', 'ICE failed');
+        this.restartIce();
+      } else if (state === 'disconnected') {
+        this.clearIceRestartTimer();
+        this.iceRestartTimer = setTimeout(() => {
+          this.iceRestartTimer = null;
+          if (this.peerConnection?.iceConnectionState === 'disconnected') {
+            this.setState('reconnecting', 'ICE disconnected');
+            this.restartIce();
+          }
+        }, ICE_DISCONNECTED_GRACE_MS);
+      } else if (state === 'connected' || state === 'completed') {
+        this.clearIceRestartTimer();
+        // Only an ICE restart is recovered this way; a closed data channel means starting over
+        if (this.state === 'reconnecting' && this.dataChannel?.readyState === 'open') {
+          this.setState(this.reachedPhase(), 'ICE reconnected');
+        }
+      }
+    };
+
+    if (this.initiator) {
+      this.log.debug('Creating data channel');
+      this.dataChannel = this.peerConnection.createDataChannel('chat');
+      this.setupDataChannel();
+      this.createOffer();
+    } else {
+      this.peerConnection.ondatachannel = (event) => {
+        this.log.debug('Received data channel');
+        this.dataChannel = event.channel;
+        this.setupDataChannel();
+      };
+    }
+
+    this.initializeEncryption();
+  }
+
+  private setupDataChannel() {
+    if (!this.dataChannel) return;
+    this.dataChannel.bufferedAmountLowThreshold = BUFFERED_AMOUNT_LOW_THRESHOLD;
+    this.dataChannel.binaryType = 'arraybuffer';
+
+    this.dataChannel.onopen = () => {
+      this.log.debug('Data channel is open');
+      // A channel opens once per connection, so this is progress even while reconnecting
+      this.setState(this.reachedPhase(), 'Data channel open');
+      this.emit('dataChannelReady', { peer: this.peer });
+      this.flushPendingMessages();
+    };
+
+    this.dataChannel.onmessage = async (event) => {
+      let frame;
+      try {
+        frame = parseDataChannelFrame(typeof event.data === 'string' ? event.data : new Uint8Array(event.data));
+      } catch (parseError) {
+        this.log.error('Rejected data channel frame', { error: parseError });
+        this.emitError('Rejected a malformed message from the peer');
+        return;
+      }
+      await this.handleEncryptedMessage(frame);
+    };
+
+    // The secure session outlives the channel: until the handshake is re-run, messages
+    // go through the signaling server instead
+    this.dataChannel.onclose = () => {
+      this.log.debug('Data channel is closed');
+      this.setState('reconnecting', 'Data channel closed');
+      this.emit('dataChannelClosed', { peer: this.peer });
+      this.scheduleSessionRestart();
+    };
+
+    this.dataChannel.onerror = (error) => {
+      this.log.error('Data channel error', { error });
+      this.emitError('Data channel error');
+    };
+  }
+
+  private async createOffer(options?: RTCOfferOptions) {
+    this.log.debug('Creating offer');
+    try {
+      if (!this.peerConnection) {
+        this.log.error('PeerConnection is not initialized');
+        return;
+      }
+
+      this.connectionState.setOffer(this.renegotiationPending() ? 'making-then-pending' : 'making');
+      const offer = await this.peerConnection.createOffer(options);
+      await this.peerConnection.setLocalDescription(offer);
+      this.sendSignal({ type: 'offer', offer });
+    } catch (error) {
+      this.log.error('Error creating offer', { error });
+    } finally {
+      if (this.makingOffer()) {
+        this.connectionState.setOffer(this.renegotiationPending() ? 'pending' : 'none');
+      }
+    }
+  }
+
+  // Offers now if the connection is idle, otherwise once the exchange in progress settles
+  private renegotiate() {
+    if (!this.peerConnection) {
+      return;
+    }
+    if (this.makingOffer() || this.peerConnection.signalingState !== 'stable') {
+      this.deferRenegotiation();
+      return;
+    }
+    this.log.debug('Renegotiating');
+    this.connectionState.setOffer('none');
+    this.createOffer();
+  }
+
+  private deferRenegotiation() {
+    this.connectionState.setOffer(this.makingOffer() ? 'making-then-pending' : 'pending');
+  }
+
+  private renegotiateIfPending() {
+    if (this.renegotiationPending()) {
+      this.renegotiate();
+    }
+  }
+
+  // When both sides send an offer at once, the side with the higher wallet address is polite:
+  // it rolls its own offer back, answers, then offers again
+  private makingOffer(): boolean {
+    return this.connectionState.offer === 'making' || this.connectionState.offer === 'making-then-pending';
+  }
+
+  private renegotiationPending(): boolean {
+    return this.connectionState.offer === 'pending' || this.connectionState.offer === 'making-then-pending';
+  }
+
+  private async handleOffer(offer: SessionDescription) {
+    this.log.debug('Handling offer');
+    try {
+      if (!this.peerConnection) {
+        this.log.error('PeerConnection is not initialized');
+        return;
+      }
+      const collision = this.makingOffer() || this.peerConnection.signalingState !== 'stable';
+      if (collision) {
+        if (this.context.localPublicKey < this.peer) {
+          this.log.debug('Ignoring an offer that collided with ours');
+          return;
+        }
+        this.log.debug('Rolling back our offer for the peer\'s');
+        await this.peerConnection.setLocalDescription({ type: 'rollback' });
+        this.deferRenegotiation();
+      }
+      await this.peerConnection.setRemoteDescription(offer as RTCSessionDescriptionInit);
+      const answer = await this.peerConnection.createAnswer();
+      await this.peerConnection.setLocalDescription(answer);
+      this.sendSignal({ type: 'answer', answer });
+      this.advance('Descriptions exchanged');
+      this.renegotiateIfPending();
+    } catch (error) {
+      this.log.error('Error handling offer', { error });
+    }
+  }
+
+  private async handleAnswer(answer: SessionDescription) {
+    this.log.debug('Handling answer');
+    try {
+      if (!this.peerConnection) {
+        this.log.error('PeerConnection is not initialized');
+        return;
+      }
+      await this.peerConnection.setRemoteDescription(answer as RTCSessionDescriptionInit);
+      this.advance('Descriptions exchanged');
+      this.renegotiateIfPending();
+    } catch (error) {
+      this.log.error('Error handling answer', { error });
+    }
+  }
+
+  private async handleNewICECandidate(candidate: RTCIceCandidateInit) {
+    this.log.debug('Handling ICE candidate');
+    try {
+      if (!this.peerConnection) {
+        this.log.error('PeerConnection is not initialized');
+        return;
+      }
+      await this.peerConnection.addIceCandidate(candidate);
+    } catch (e) {
+      this.log.error('Error adding received ice candidate', { error: e });
+    }
+  }
+
+  private async initializeEncryption() {
+    if (this.hasSecureSession()) {
+      this.log.debug('Encryption setup already complete, skipping');
+      return;
+    }
+
+    if (this.creatingKeys()) {
+      this.log.debug('Encryption setup already in progress, skipping');
+      return;
+    }
+
+    if (this.localHandshake) {
+      // Kept from an attempt that never got as far as a session; the peer may have
+      // started over since it was sent
+      this.log.debug('Resending handshake keys');
+      this.sendSignal({ type: 'ecdh-public-key', ...this.localHandshake.message });
+      return;
+    }
+
+    this.connectionState.setKeyExchange('creating-keys');
+
+    this.log.debug('Initializing encryption');
+    try {
+      const localHandshake = await this.context.encryptionService.createHandshake(this.peer);
+      if (this.state === 'closed' || !this.creatingKeys()) {
+        // Closed or aborted while the wallet was busy
+        return;
+      }
+      this.localHandshake = localHandshake;
+      this.connectionState.setKeyExchange('keys-sent');
+
+      this.log.debug('Sending handshake keys', { suites: localHandshake.message.suites });
+      this.sendSignal({ type: 'ecdh-public-key', ...localHandshake.message });
+
+      if (this.pendingPeerHandshake) {
+        const handshake = this.pendingPeerHandshake;
+        this.pendingPeerHandshake = null;
+        this.handleECDHPublicKey(handshake);
+      }
+    } catch (error) {
+      this.log.error('Error in initializeEncryption', { error });
+      if (this.creatingKeys()) {
+        this.connectionState.setKeyExchange('none');
+      }
+      this.emitError(`Failed to initialize encryption: ${error}`);
+    }
+  }
+
+  // Tears down the half-built session so nothing is ever encrypted to an unverified key.
+  // The session stays idle as a responder until the peer initiates again.
+  private abortSession(reason: string) {
+    this.log.error('Aborting session', { reason });
+    this.setState('idle', reason);
+    this.connectionState.setRole('responder');
+    this.clearSessionRestartTimer();
+    this.resetEncryptionState();
+    this.localHandshake = null;
+    this.connectionState.setKeyExchange('none');
+    this.teardownPeerConnection();
+  }
+
+  // Detaches handlers first so closing an old connection never triggers a session restart
+  private teardownPeerConnection() {
+    this.clearIceRestartTimer();
+    if (this.dataChannel) {
+      this.dataChannel.onclose = null;
+      this.dataChannel.close();
+      this.dataChannel = null;
+    }
+    if (this.peerConnection) {
+      this.peerConnection.oniceconnectionstatechange = null;
+      this.peerConnection.onconnectionstatechange = null;
+      this.peerConnection.ontrack = null;
+      this.peerConnection.close();
+      this.peerConnection = null;
+      // Any media on the old connection is gone
+      this.emit('peerConnectionClosed', { peer: this.peer });
+    }
+    this.connectionState.setOffer('none');
+  }
+
+  private resetEncryptionState() {
+    if (this.session && this.replayGuard && this.hasSecureSession()) {
+      this.previousSession = { session: this.session, replayGuard: this.replayGuard };
+    }
+    this.replayGuard = null;
+    this.sendCounter = 0;
+    // A handshake no session was built from is kept and sent again, so a peer that already
+    // holds it (after crossing initiates, say) never ends up with keys we threw away
+    if (this.session) {
+      this.localHandshake = null;
+      this.connectionState.setKeyExchange('none');
+    }
+    this.session = null;
+    this.pendingPeerHandshake = null;
+    this.pendingKeyConfirmation = null;
+    this.peerIdentityKey = null;
+  }
+
+  private handleECDHPublicKey(handshake: HandshakeMessage) {
+    this.log.debug('Received peer handshake');
+    if (this.session) {
+      this.log.debug('Encryption already set up, ignoring handshake');
+      return;
+    }
+
+    if (!this.context.encryptionService.verifyHandshake(handshake, this.peer)) {
+      const reason = 'Handshake key is not signed by the peer wallet';
+      this.abortSession(reason);
+      this.emit('identityVerificationFailed', { peer: this.peer, reason });
+      return;
+    }
+    this.log.debug('Peer handshake signatures verified');
+
+    if (!this.localHandshake) {
+      // Our own keys are still being created (the wallet may be prompting); finish once they exist
+      this.pendingPeerHandshake = handshake;
+      return;
+    }
+
+    try {
+      this.session = this.context.encryptionService.establishSession(this.localHandshake, handshake, this.peer);
+      this.peerIdentityKey = handshake.identityKey;
+      this.replayGuard = new ReplayGuard(this.context.localPublicKey, this.peer);
+      this.connectionState.setKeyExchange('confirming');
+      this.log.info('Session established', { suite: this.session.suite });
+
+      this.sendSignal({
+        type: 'key-confirmation',
+        mac: this.session.createKeyConfirmation(this.context.localPublicKey)
+      });
+
+      if (this.pendingKeyConfirmation) {
+        const mac = this.pendingKeyConfirmation;
+        this.pendingKeyConfirmation = null;
+        this.handleKeyConfirmation(mac);
+      }
+    } catch (error) {
+      this.log.error('Error in handleECDHPublicKey', { error });
+      this.abortSession(`${error}`);
+      this.emitError(`Failed to setup encryption: ${error}`);
+    }
+  }
+
+  private handleKeyConfirmation(macBase64: string) {
+    if (this.hasSecureSession()) {
+      return;
+    }
+    if (!this.session) {
+      // The peer finished its side first; hold the MAC until our session exists
+      this.pendingKeyConfirmation = macBase64;
+      return;
+    }
+
+    if (!this.session.verifyKeyConfirmation(this.peer, macBase64)) {
+      const reason = 'Key confirmation MAC does not match';
+      this.abortSession(reason);
+      this.emit('identityVerificationFailed', { peer: this.peer, reason });
+      return;
+    }
+
+    this.log.debug('Peer key confirmation verified');
+    this.connectionState.setKeyExchange('confirmed');
+    this.sessionRestartAttempts = 0;
+    this.advance('Keys confirmed');
+    this.emit('receivingKeysChanged', { peer: this.peer });
+    this.log.debug('Emitting encryptionReady event');
+    this.emit('encryptionReady', { peer: this.peer });
+    this.flushPendingMessages();
+  }
+
+  private async handleEncryptedMessage(envelope: EncryptedEnvelope, maxAge: number = MAX_MESSAGE_AGE_MS): Promise<boolean> {
+    const candidates = [
+      this.session && this.replayGuard ? { session: this.session, replayGuard: this.replayGuard } : null,
+      this.previousSession
+    ].filter((candidate): candidate is ReceivingKeys => !!candidate);
+    if (candidates.length === 0) {
+      this.log.error('Received encrypted message without an established session');
+      this.emitError('Failed to handle encrypted message');
+      return false;
+    }
+    if (candidates.some(({ replayGuard }) => replayGuard.hasSeen(envelope.meta))) {
+      // A mailbox copy of something that already arrived, typically over the data channel
+      this.log.debug('Ignoring a message that was already received');
+      return true;
+    }
+
+    let lastError: unknown = null;
+    for (const { session, replayGuard } of candidates) {
+      try {
+        replayGuard.check(envelope.meta, Date.now(), maxAge);
+        const plaintext = await session.decrypt(envelope);
+        replayGuard.accept(envelope.meta);
+        this.emit('receivingKeysChanged', { peer: this.peer });
+        this.handlePayload(decodePayload(plaintext), envelope);
+        return true;
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    this.log.error('Failed to handle encrypted message', { error: lastError });
+    this.emitError(`Rejected message: ${lastError instanceof Error ? lastError.message : lastError}`);
+    return false;
+  }
+
+  private handlePayload(payload: SessionPayload, envelope: EncryptedEnvelope) {
+    if (payload.type === 'chat') {
+      // The chat id survives retries; the envelope id is only for older senders that lack one
+      const { sender, recipient, timestamp } = envelope.meta;
+      const id = typeof payload.id === 'string' ? payload.id : envelope.meta.id;
+      this.emit('message', { peer: this.peer, text: payload.text, sender, recipient, id, timestamp });
+    } else if (typeof payload.type === 'string') {
+      this.emit('control', { peer: this.peer, payload });
+    }
+  }
+
+  // Our handshake keys are still being created; read afresh after each await
+  private creatingKeys(): boolean {
+    return this.connectionState.keyExchange === 'creating-keys';
+  }
+
+  private hasSecureSession(): boolean {
+    return this.connectionState.keyExchange === 'confirmed';
+  }
+
+  private async sendPayload(payload: SessionPayload, onSent?: (sent: boolean) => void) {
+    if (!this.hasSecureSession()) {
+      this.log.debug('Session not ready, queueing payload', { type: payload.type });
+      this.pendingPayloads.push({ payload, onSent });
+      return;
+    }
+    const sent = await this.sendEncrypted(payload);
+    onSent?.(sent);
+  }
+
+  // Falls back to the signaling server, which holds the ciphertext if the peer is offline,
+  // unless the caller asked for the data channel only
+  private async sendEncrypted(payload: SessionPayload, directOnly: boolean = false): Promise<boolean> {
+    if (!this.session) {
+      return false;
+    }
+    try {
+      const envelope = await this.session.encrypt(encodePayload(payload), {
+        sender: this.context.localPublicKey,
+        recipient: this.peer,
+        counter: this.sendCounter++,
+        id: bytesToHex(randomBytes(16)),
+        timestamp: Date.now()
+      });
+      if (this.dataChannel && this.dataChannel.readyState === 'open') {
+        const frame = { type: 'encrypted-message' as const, ...envelope };
+        if (payload.data instanceof Uint8Array) {
+          this.dataChannel.send(encodeBinaryFrame(frame));
+        } else {
+          this.dataChannel.send(encodeFrame(frame));
+        }
+      } else if (directOnly) {
+        return false;
+      } else {
+        this.sendSignal({ type: 'encrypted-message', ...envelope });
+      }
+      this.log.debug('Encrypted message sent successfully');
+      return true;
+    } catch (error) {
+      this.log.error('Failed to send encrypted message', { error });
+      this.emitError('Failed to send encrypted message');
+      return false;
+    }
+  }
+
+  private async flushPendingMessages() {
+    while (this.hasSecureSession() && this.pendingPayloads.length > 0) {
+      const { payload, onSent } = this.pendingPayloads.shift()!;
+      const sent = await this.sendEncrypted(payload);
+      onSent?.(sent);
+    }
+  }
+
+  // Only the initiator re-offers, so both sides never restart at the same time
+  private restartIce() {
+    this.clearIceRestartTimer();
+    if (!this.peerConnection || !this.initiator) {
+      return;
+    }
+    this.log.debug('Restarting ICE');
+    this.peerConnection.setConfiguration({ iceServers: this.context.getIceServers() });
+    this.emit('iceRestart', { peer: this.peer });
+    this.createOffer({ iceRestart: true });
+  }
+
+  private clearIceRestartTimer() {
+    if (this.iceRestartTimer) {
+      clearTimeout(this.iceRestartTimer);
+      this.iceRestartTimer = null;
+    }
+  }
+
+  // After a dropped data channel the initiator re-runs the whole handshake, so the
+  // conversation comes back under fresh keys without the user reconnecting by hand
+  private scheduleSessionRestart() {
+    if (this.state === 'closed' || !this.initiator || this.sessionRestartTimer) {
+      return;
+    }
+    if (this.sessionRestartAttempts >= MAX_SESSION_RESTARTS) {
+      this.emitError('Could not re-establish the connection to the peer');
+      return;
+    }
+
+    const delay = backoffDelay(this.sessionRestartAttempts);
+    this.sessionRestartAttempts += 1;
+    this.log.info('Restarting peer session', { delay, attempt: this.sessionRestartAttempts });
+    this.sessionRestartTimer = setTimeout(() => {
+      this.sessionRestartTimer = null;
+      this.restartSession();
+    }, delay);
+  }
+
+  private clearSessionRestartTimer() {
+    if (this.sessionRestartTimer) {
+      clearTimeout(this.sessionRestartTimer);
+      this.sessionRestartTimer = null;
+    }
+  }
+
+  private restartSession() {
+    if (this.state === 'closed') {
+      return;
+    }
+    if (!this.context.isRegistered()) {
+      // resume() runs again once registration with the server completes
+      this.log.debug('Not registered with server, deferring session restart');
+      return;
+    }
+    this.emit('sessionResuming', { peer: this.peer });
+    this.resetEncryptionState();
+    this.initiatePeerConnection();
+  }
+
+  // Illegal transitions come from events that arrive out of order, such as a late callback
+  // from a connection that has since been replaced; they are logged and dropped
+  private setState(to: ConnectionState, reason: string): boolean {
+    if (!this.connectionState.canTransition(to)) {
+      this.log.warn('Rejected connection state transition', { from: this.state, to, reason });
+      return false;
+    }
+    return this.connectionState.transition(to, reason);
+  }
+
+  // The furthest phase the connection has got to, judged from the connection itself
+  private reachedPhase(): ConnectionState {
+    if (this.dataChannel?.readyState === 'open') {
+      return this.hasSecureSession() ? 'secure' : 'key-exchange';
+    }
+    return this.peerConnection?.localDescription && this.peerConnection.remoteDescription ? 'negotiating' : 'signaling';
+  }
+
+  // Only ever moves forward. Reconnecting ends by recovering or starting over instead.
+  private advance(reason: string) {
+    const current = ESTABLISHING_PHASES.indexOf(this.state);
+    const reached = this.reachedPhase();
+    if (current > 0 && ESTABLISHING_PHASES.indexOf(reached) > current) {
+      this.setState(reached, reason);
+    }
+  }
+
+  // A stalled phase is started over by the initiator; the responder waits for its initiate
+  private handlePhaseTimeout(state: ConnectionState) {
+    this.log.warn('Connection phase timed out', { state });
+    if (state !== 'reconnecting') {
+      this.setState('reconnecting', `Timed out while ${state === 'key-exchange' ? 'exchanging keys' : state}`);
+    }
+    this.scheduleSessionRestart();
+  }
+
+  private emitError(message: string) {
+    this.emit('peerError', { peer: this.peer, message });
+  }
+}
+
+export default PeerSession;
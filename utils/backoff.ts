@@ -0,0 +1,8 @@
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30 * 1000;
+
+// Exponential backoff with jitter so a server restart does not bring every client back at once
+export function backoffDelay(attempt: number): number {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
@@ -0,0 +1,90 @@
+import type { IceServer } from '../shared/protocol';
+import { isLogLevel, LOG_LEVELS, LogLevel } from '../shared/logger';
+
+export interface ClientConfig {
+  // ws:// for local development, wss:// anywhere else
+  signalingUrl: string;
+  // STUN/TURN servers with any static credentials; the signaling server may add
+  // short-lived TURN credentials on top of these
+  iceServers: IceServer[];
+  // How long an unsent chat message waits for its conversation before failing as expired
+  outboundMessageTtlMs: number;
+  // Frame contents are only logged at debug, and sensitive fields are redacted at every level
+  logLevel: LogLevel;
+}
+
+const DEFAULT_SIGNALING_URL = 'ws://localhost:8080';
+const DEFAULT_ICE_SERVERS: IceServer[] = [{ urls: 'stun:stun.l.google.com:19302' }];
+const DEFAULT_OUTBOUND_MESSAGE_TTL_MS = 24 * 60 * 60 * 1000;
+
+function isIceServer(value: unknown): value is IceServer {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { urls, username, credential } = value as Record<string, unknown>;
+  return (typeof urls === 'string' || (Array.isArray(urls) && urls.every(url => typeof url === 'string'))) &&
+    (username === undefined || typeof username === 'string') &&
+    (credential === undefined || typeof credential === 'string');
+}
+
+// NEXT_PUBLIC_ICE_SERVERS holds a JSON array in RTCIceServer form, e.g.
+// [{"urls":"turn:turn.example.com:3478","username":"user","credential":"secret"}]
+function parseIceServers(value: string | undefined): IceServer[] {
+  if (!value) {
+    return DEFAULT_ICE_SERVERS;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error('NEXT_PUBLIC_ICE_SERVERS is not valid JSON');
+  }
+  if (!Array.isArray(parsed) || !parsed.every(isIceServer)) {
+    throw new Error('NEXT_PUBLIC_ICE_SERVERS must be an array of { urls, username?, credential? }');
+  }
+  return parsed;
+}
+
+function parseSignalingUrl(value: string | undefined): string {
+  if (!value) {
+    return DEFAULT_SIGNALING_URL;
+  }
+  if (!/^wss?:\/\//.test(value)) {
+    throw new Error('NEXT_PUBLIC_SIGNALING_URL must start with ws:// or wss://');
+  }
+  return value;
+}
+
+function parseDuration(name: string, value: string | undefined, fallback: number): number {
+  if (!value) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive number of milliseconds`);
+  }
+  return parsed;
+}
+
+// Verbose while developing, quiet in production builds
+function parseLogLevel(value: string | undefined): LogLevel {
+  if (!value) {
+    return process.env.NODE_ENV === 'production' ? 'warn' : 'debug';
+  }
+  if (!isLogLevel(value)) {
+    throw new Error(`NEXT_PUBLIC_LOG_LEVEL must be one of ${LOG_LEVELS.join(', ')}`);
+  }
+  return value;
+}
+
+// Next.js inlines NEXT_PUBLIC_ variables at build time, so each one has to be read by its full name
+export const clientConfig: ClientConfig = {
+  signalingUrl: parseSignalingUrl(process.env.NEXT_PUBLIC_SIGNALING_URL),
+  iceServers: parseIceServers(process.env.NEXT_PUBLIC_ICE_SERVERS),
+  outboundMessageTtlMs: parseDuration(
+    'NEXT_PUBLIC_OUTBOUND_MESSAGE_TTL_MS',
+    process.env.NEXT_PUBLIC_OUTBOUND_MESSAGE_TTL_MS,
+    DEFAULT_OUTBOUND_MESSAGE_TTL_MS
+  ),
+  logLevel: parseLogLevel(process.env.NEXT_PUBLIC_LOG_LEVEL)
+};
@@ -0,0 +1,67 @@
+// Everything ConnectionManager needs from its platform. Browsers get these from globals;
+// other environments, such as the Node SDK in sdk/node.ts, pass their own.
+
+// The readyState of an open socket, the same in the browser and in `ws`
+export const SOCKET_OPEN = 1;
+
+// The subset of the browser WebSocket API used for signaling
+export interface SignalingSocket {
+  readonly readyState: number;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export interface ClientTransports {
+  createSocket(url: string): SignalingSocket;
+  createPeerConnection(configuration: RTCConfiguration): RTCPeerConnection;
+  // Where contacts, the identity key and the sealed outbox are kept; null keeps them in memory
+  storage: Storage | null;
+  // Message history is unavailable without IndexedDB
+  indexedDB: IDBFactory | null;
+  // Calls need a microphone or camera, and screen sharing needs getDisplayMedia
+  mediaDevices: Pick<MediaDevices, 'getUserMedia' | 'getDisplayMedia'> | null;
+}
+
+// Globals are read when each transport is used, so this can be called where they do not exist
+export function browserTransports(): ClientTransports {
+  return {
+    createSocket: url => new WebSocket(url),
+    createPeerConnection: configuration => new RTCPeerConnection(configuration),
+    storage: typeof localStorage !== 'undefined' ? localStorage : null,
+    indexedDB: typeof indexedDB !== 'undefined' ? indexedDB : null,
+    mediaDevices: typeof navigator !== 'undefined' && navigator.mediaDevices ? navigator.mediaDevices : null
+  };
+}
+
+// For environments without persistent storage
+export class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, String(value));
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  clear() {
+    this.items.clear();
+  }
+}